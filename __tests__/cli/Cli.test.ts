@@ -0,0 +1,94 @@
+import { Cli } from "@/cli/Cli"
+import { Connection, ConnectionManager } from "@/index"
+import type { DatabaseConfig } from "@/types"
+
+describe("Cli", () => {
+  let cli: Cli
+
+  beforeEach(() => {
+    cli = new Cli("/app")
+  })
+
+  describe("parse", () => {
+    const parse = (argv: string[]) => (cli as any).parse(argv)
+
+    it("should split the command, positionals and options", () => {
+      expect(parse(["make:model", "Post", "--table=posts", "--path", "src/models"])).toEqual({
+        command: "make:model",
+        args: ["Post"],
+        options: { table: "posts", path: "src/models" },
+      })
+    })
+
+    it("should read an option without a value as a flag", () => {
+      expect(parse(["migrate:fresh", "--seed", "--force"]).options).toEqual({ seed: true, force: true })
+    })
+
+    it("should not take the next argument as the value of a flag", () => {
+      expect(parse(["migrate", "--pretend", "extra", "--seed", "other"])).toEqual({
+        command: "migrate",
+        args: ["extra", "other"],
+        options: { pretend: true, seed: true },
+      })
+    })
+
+    it("should keep everything after the first equals sign as the value", () => {
+      expect(parse(["migrate", "--config=configs/a=b.ts", "--step="]).options).toEqual({
+        config: "configs/a=b.ts",
+        step: "",
+      })
+    })
+
+    it("should read an empty command line as no command", () => {
+      expect(parse([])).toEqual({ command: "", args: [], options: {} })
+    })
+  })
+
+  describe("withConnection", () => {
+    const config: DatabaseConfig = {
+      default: "main",
+      connections: {
+        main: { driver: "postgresql", database: "app" },
+        analytics: { driver: "postgresql", database: "analytics" },
+      },
+    }
+    let connected: string[]
+
+    beforeEach(async () => {
+      await ConnectionManager.getInstance().clear()
+      connected = []
+      jest.spyOn(cli as any, "loadConfig").mockResolvedValue({ config })
+      jest.spyOn(Connection.prototype, "connect").mockImplementation(async function (this: Connection) {
+        connected.push(this.getName())
+      })
+    })
+
+    afterEach(() => {
+      jest.restoreAllMocks()
+    })
+
+    const run = (argv: string[], callback = async () => {}) =>
+      (cli as any).withConnection((cli as any).parse(argv), callback)
+
+    it("should connect only the default connection", async () => {
+      await run(["db:seed"])
+
+      expect(connected).toEqual(["main"])
+    })
+
+    it("should connect and select the connection given with --connection", async () => {
+      let selected = ""
+      await run(["db:seed", "--connection=analytics"], async () => {
+        selected = ConnectionManager.getInstance().getDefaultConnectionName()
+      })
+
+      expect(connected).toEqual(["analytics"])
+      expect(selected).toBe("analytics")
+    })
+
+    it("should reject a connection missing from the config", async () => {
+      await expect(run(["db:seed", "--connection", "reports"])).rejects.toThrow("Connection 'reports' is not configured.")
+      expect(connected).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { Batch, ConnectionManager, Model, QueryBuilder, StaleModelError } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Device extends Model<any> {
+  protected static table = "devices"
+  protected static timestamps = false
+  protected static versionColumn = "version"
+}
+
+describe("Batch", () => {
+  let scylla: FakeScylla
+  let batchResult: jest.Mock
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({
+      devices: { partitionKeys: ["id"], rows: [{ id: "d1", name: "sensor", version: 3 }] },
+    })
+    batchResult = jest.fn(async () => ({ rows: [], rowCount: 0, lwt: { applied: true } }))
+    scylla.driver.batch = batchResult
+  })
+
+  const load = async () => (await Device.query().where("id", "d1").first())!
+
+  describe("save", () => {
+    it("should record a versioned save without checking the version before the batch runs", async () => {
+      const device = await load()
+      device.setAttribute("name", "thermometer")
+
+      const batch = new Batch(ConnectionManager.getInstance().getConnection())
+      await batch.save(device).execute()
+
+      const [[statements]] = batchResult.mock.calls
+      expect(statements).toHaveLength(1)
+      expect(statements[0].query).toContain("IF")
+      expect(device.getAttribute("version")).toBe(4)
+    })
+
+    it("should throw StaleModelError when the batch reports the condition failed", async () => {
+      batchResult.mockResolvedValue({ rows: [], rowCount: 0, lwt: { applied: false, current: { version: 5 } } })
+      const device = await load()
+      device.setAttribute("name", "thermometer")
+
+      const batch = new Batch(ConnectionManager.getInstance().getConnection())
+
+      await expect(batch.save(device).execute()).rejects.toBeInstanceOf(StaleModelError)
+    })
+  })
+
+  it("should report conditional writes recorded in a batch as deferred", async () => {
+    const batch = new Batch(ConnectionManager.getInstance().getConnection())
+    const result = await batch.table("devices").where("id", "d1").if("version", "=", 3).updateIf({ version: 4 })
+
+    expect(result).toEqual({ applied: false, deferred: true })
+    expect(scylla.queries.filter(({ cql }) => cql.startsWith("UPDATE"))).toHaveLength(0)
+  })
+
+  describe("on SQL drivers", () => {
+    let client: { query: jest.Mock; release: jest.Mock }
+
+    beforeEach(async () => {
+      const manager = ConnectionManager.getInstance()
+      await manager.clear()
+      await manager.addConnection("default", { driver: "postgresql", database: "app" })
+      const connection = manager.getConnection()
+      ;(connection as any).connected = true
+
+      // The stored version is 5, so UPDATEs conditioned on an older version match no row
+      client = {
+        query: jest.fn(async (sql: string, params: any[] = []) => {
+          const stale = sql.startsWith("UPDATE") && params.includes(3)
+          return { command: sql.split(" ")[0], rows: [], rowCount: stale ? 0 : 1 }
+        }),
+        release: jest.fn(),
+      }
+      ;(connection.getDriver() as any).pool = { connect: jest.fn(async () => client), end: jest.fn() }
+    })
+
+    const device = () => {
+      const model = new Device()
+      model.setAttributes({ id: "d1", name: "sensor", version: 3 })
+      model.setOriginal({ id: "d1", name: "sensor", version: 3 })
+      model.setExists(true)
+      model.setAttribute("name", "thermometer")
+      return model
+    }
+
+    it("should roll back and throw StaleModelError when a versioned save matches no row", async () => {
+      const connection = ConnectionManager.getInstance().getConnection()
+
+      await expect(connection.batch((b) => void b.save(device()))).rejects.toBeInstanceOf(StaleModelError)
+      expect(client.query.mock.calls.map(([sql]) => sql)).toEqual([
+        "BEGIN",
+        expect.stringMatching(/^UPDATE/),
+        "ROLLBACK",
+      ])
+    })
+
+    it("should commit and report the conditions as applied when every statement matches", async () => {
+      const connection = ConnectionManager.getInstance().getConnection()
+
+      const result = await connection.batch((b) => {
+        b.raw('UPDATE "devices" SET "name" = $1', ["x"])
+        b.table("devices").where("id", "d1").if("version", "=", 5).updateIf({ version: 6 })
+      })
+
+      expect(result.lwt).toEqual({ applied: true })
+      expect(client.query.mock.calls.map(([sql]) => sql).at(-1)).toBe("COMMIT")
+    })
+
+    it("should wait for recorded writes and keep their failures handled when the callback throws", async () => {
+      const connection = ConnectionManager.getInstance().getConnection()
+      const unhandled = jest.fn()
+      process.on("unhandledRejection", unhandled)
+      jest.spyOn(QueryBuilder.prototype, "insert").mockRejectedValueOnce(new Error("insert failed"))
+
+      try {
+        const failing = connection.batch(async (b) => {
+          b.insert("devices", { id: "d2" })
+          throw new Error("callback failed")
+        })
+
+        await expect(failing).rejects.toThrow("callback failed")
+        await new Promise((resolve) => setImmediate(resolve))
+        expect(unhandled).not.toHaveBeenCalled()
+        expect(client.query).not.toHaveBeenCalled()
+      } finally {
+        process.off("unhandledRejection", unhandled)
+        jest.restoreAllMocks()
+      }
+    })
+  })
+})
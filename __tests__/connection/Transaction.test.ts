@@ -0,0 +1,93 @@
+import { ConnectionManager, HasMany, Model, QueryBuilder, Transaction } from "@/index"
+import type { PostgreSQLDriver } from "@/drivers/PostgreSQLDriver"
+
+/** pg client stub answering writes with two affected rows and LASTVAL() with 42 */
+function fakeClient() {
+  return {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes("LASTVAL")) {
+        return { command: "SELECT", rows: [{ id: 42 }], rowCount: 1 }
+      }
+      if (/^(INSERT|UPDATE|DELETE)/.test(sql)) {
+        return { command: sql.split(" ")[0], rows: [], rowCount: 2 }
+      }
+      return { command: "BEGIN", rows: [], rowCount: null }
+    }),
+    release: jest.fn(),
+  }
+}
+
+class Post extends Model<any> {
+  protected static table = "posts"
+  protected static timestamps = false
+}
+
+class Author extends Model<any> {
+  protected static table = "authors"
+  protected static timestamps = false
+
+  postsRelation(): HasMany<Author, Post> {
+    return this.hasMany(Post, "author_id", "id")
+  }
+}
+
+describe("Transaction", () => {
+  let driver: PostgreSQLDriver
+  let client: ReturnType<typeof fakeClient>
+  let pool: { connect: jest.Mock; query: jest.Mock }
+  let trx: Transaction
+
+  beforeEach(async () => {
+    const manager = ConnectionManager.getInstance()
+    await manager.clear()
+    await manager.addConnection("default", { driver: "postgresql", database: "app" })
+    const connection = manager.getConnection()
+
+    driver = connection.getDriver() as PostgreSQLDriver
+    client = fakeClient()
+    pool = { connect: jest.fn(async () => client), query: jest.fn() }
+    ;(driver as any).pool = pool
+
+    trx = new Transaction(connection, await driver.beginTransactionSession())
+  })
+
+  it("should read the inserted ID from the transaction's connection", async () => {
+    const id = await new QueryBuilder("users").transacting(trx).insertGetId({ name: "Jane" })
+
+    expect(id).toBe(42)
+    expect(client.query).toHaveBeenCalledWith("SELECT LASTVAL() as id")
+    expect(pool.query).not.toHaveBeenCalled()
+  })
+
+  it("should report the rows affected inside the transaction", async () => {
+    const updated = await new QueryBuilder<any, { id: number }>("users")
+      .transacting(trx)
+      .where("id", 1)
+      .update({ name: "Jane" })
+
+    expect(updated).toBe(2)
+  })
+
+  it("should eager load rows written earlier in the transaction", async () => {
+    const posts: Record<string, any>[] = []
+    ;(client.query as jest.Mock).mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.startsWith('INSERT INTO "posts"')) {
+        posts.push({ id: params[0], author_id: params[1] })
+        return { command: "INSERT", rows: [], rowCount: 1 }
+      }
+      if (sql.startsWith('SELECT * FROM "authors"')) {
+        return { command: "SELECT", rows: [{ id: 7 }], rowCount: 1 }
+      }
+      if (sql.startsWith('SELECT * FROM "posts"')) {
+        return { command: "SELECT", rows: posts, rowCount: posts.length }
+      }
+      return { command: "BEGIN", rows: [], rowCount: null }
+    })
+
+    await Post.query({ trx }).insert({ id: 1, author_id: 7 })
+    const authors = await Author.query({ trx }).with("posts").get()
+
+    expect(authors[0].getAttribute("posts").map((post: Post) => post.getAttribute("id"))).toEqual([1])
+    expect(pool.query).not.toHaveBeenCalled()
+  })
+})
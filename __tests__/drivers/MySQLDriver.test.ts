@@ -0,0 +1,52 @@
+import { Readable } from "stream"
+import { MySQLDriver } from "@/drivers/MySQLDriver"
+
+function fakeConnection(rows: Record<string, any>[]) {
+  const stream = Readable.from(rows)
+  return {
+    stream,
+    connection: { query: jest.fn(() => ({ stream: () => stream })) },
+    end: jest.fn(async () => {}),
+    destroy: jest.fn(),
+  }
+}
+
+describe("MySQLDriver", () => {
+  let driver: MySQLDriver
+  let shared: any
+  let streamed: ReturnType<typeof fakeConnection>
+
+  beforeEach(() => {
+    driver = new MySQLDriver({ driver: "mysql", database: "app" })
+    shared = { connection: { query: jest.fn(), resume: jest.fn() } }
+    streamed = fakeConnection([{ id: 1 }, { id: 2 }, { id: 3 }])
+    ;(driver as any).mysqlConnection = shared
+    ;(driver as any).mysqlModule = { createConnection: jest.fn(async () => streamed) }
+  })
+
+  describe("stream", () => {
+    it("should read every row and close its connection", async () => {
+      const ids: number[] = []
+      for await (const row of driver.stream("SELECT * FROM events")) {
+        ids.push(row.id)
+      }
+
+      expect(ids).toEqual([1, 2, 3])
+      expect(streamed.end).toHaveBeenCalled()
+      expect(streamed.destroy).not.toHaveBeenCalled()
+    })
+
+    it("should destroy the stream and its connection when the consumer stops early", async () => {
+      for await (const row of driver.stream("SELECT * FROM events")) {
+        if (row.id === 1) {
+          break
+        }
+      }
+
+      expect(streamed.stream.destroyed).toBe(true)
+      expect(streamed.destroy).toHaveBeenCalled()
+      expect(streamed.end).not.toHaveBeenCalled()
+      expect(shared.connection.query).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,132 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { SQLiteDriver } from "@/drivers/SQLiteDriver"
+
+describe("SQLiteDriver", () => {
+  let dir: string
+  let driver: SQLiteDriver
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "scyllinx-"))
+    driver = new SQLiteDriver({ driver: "sqlite", database: join(dir, "app.db") })
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const lockFile = () => join(dir, "app.db.migrations.lock")
+
+  describe("acquireLock", () => {
+    it("should refuse a lock held by another owner", async () => {
+      expect(await driver.acquireLock("migrations", "a", 60_000)).toBe(true)
+      expect(await driver.acquireLock("migrations", "b", 60_000)).toBe(false)
+      expect(JSON.parse(readFileSync(lockFile(), "utf8")).owner).toBe("a")
+    })
+
+    it("should take over an expired lease", async () => {
+      writeFileSync(lockFile(), JSON.stringify({ owner: "a", expiresAt: Date.now() - 1 }))
+
+      expect(await driver.acquireLock("migrations", "b", 60_000)).toBe(true)
+      expect(JSON.parse(readFileSync(lockFile(), "utf8")).owner).toBe("b")
+      expect(readdirSync(dir)).toEqual(["app.db.migrations.lock"])
+    })
+
+    it("should let only one of two processes take over the same expired lease", async () => {
+      writeFileSync(lockFile(), JSON.stringify({ owner: "a", expiresAt: Date.now() - 1 }))
+      const other = new SQLiteDriver({ driver: "sqlite", database: join(dir, "app.db") })
+
+      // Both read the expired lease before either takes it over
+      const readLock = (driver as any).readLock.bind(driver)
+      const expired = readLock(lockFile())
+      jest.spyOn(driver as any, "readLock").mockImplementationOnce(() => expired)
+
+      expect(await other.acquireLock("migrations", "c", 60_000)).toBe(true)
+      expect(await driver.acquireLock("migrations", "b", 60_000)).toBe(false)
+      expect(JSON.parse(readFileSync(lockFile(), "utf8")).owner).toBe("c")
+      expect(readdirSync(dir)).toEqual(["app.db.migrations.lock"])
+    })
+  })
+
+  describe("renewLock", () => {
+    it("should extend the lease of its owner only", async () => {
+      await driver.acquireLock("migrations", "a", 1_000)
+
+      expect(await driver.renewLock("migrations", "b", 60_000)).toBe(false)
+      expect(await driver.renewLock("migrations", "a", 60_000)).toBe(true)
+      expect(JSON.parse(readFileSync(lockFile(), "utf8")).expiresAt).toBeGreaterThan(Date.now() + 30_000)
+    })
+
+    it("should treat an expired lease as lost and leave the file alone", async () => {
+      const expired = JSON.stringify({ owner: "a", expiresAt: Date.now() - 1 })
+      writeFileSync(lockFile(), expired)
+
+      expect(await driver.renewLock("migrations", "a", 60_000)).toBe(false)
+      expect(readFileSync(lockFile(), "utf8")).toBe(expired)
+    })
+
+    it("should report a lease replaced by another process during the renewal as lost", async () => {
+      await driver.acquireLock("migrations", "a", 60_000)
+
+      // Another process takes the file over between the rename and the check that follows it
+      const readLock = (driver as any).readLock.bind(driver)
+      jest
+        .spyOn(driver as any, "readLock")
+        .mockImplementationOnce((path) => readLock(path))
+        .mockImplementationOnce(() => ({ owner: "c", expiresAt: Date.now() + 60_000 }))
+
+      expect(await driver.renewLock("migrations", "a", 60_000)).toBe(false)
+    })
+  })
+
+  describe("describeTable", () => {
+    // Rows as returned by SQLite's PRAGMAs for:
+    // CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    //   slug VARCHAR(80) NOT NULL, status TEXT DEFAULT 'draft')
+    // CREATE UNIQUE INDEX posts_slug_unique ON posts (slug)
+    const pragmas: Record<string, any[]> = {
+      'table_info("posts")': [
+        { cid: 0, name: "id", type: "INTEGER", notnull: 0, dflt_value: null, pk: 1 },
+        { cid: 1, name: "user_id", type: "INTEGER", notnull: 0, dflt_value: null, pk: 0 },
+        { cid: 2, name: "slug", type: "VARCHAR(80)", notnull: 1, dflt_value: null, pk: 0 },
+        { cid: 3, name: "status", type: "TEXT", notnull: 0, dflt_value: "'draft'", pk: 0 },
+      ],
+      'index_list("posts")': [{ seq: 0, name: "posts_slug_unique", unique: 1, origin: "c", partial: 0 }],
+      'index_info("posts_slug_unique")': [{ seqno: 0, cid: 2, name: "slug" }],
+      'foreign_key_list("posts")': [
+        { id: 0, seq: 0, table: "users", from: "user_id", to: "id", on_update: "NO ACTION", on_delete: "CASCADE" },
+      ],
+    }
+
+    beforeEach(() => {
+      ;(driver as any).db = { pragma: jest.fn((pragma: string) => pragmas[pragma] ?? []) }
+    })
+
+    it("should map columns, their types, defaults and the rowid alias", async () => {
+      const posts = await driver.describeTable("posts")
+
+      expect(posts.columns).toEqual([
+        { name: "id", type: "integer", nullable: false, primary: true, autoIncrement: true },
+        { name: "user_id", type: "integer", nullable: true },
+        { name: "slug", type: "varchar(80)", nullable: false },
+        { name: "status", type: "text", nullable: true, default: "'draft'" },
+      ])
+      expect(posts.partitionKeys).toEqual(["id"])
+      expect(posts.clusteringKeys).toEqual([])
+    })
+
+    it("should map indexes and foreign keys", async () => {
+      const posts = await driver.describeTable("posts")
+
+      expect(posts.indexes).toEqual([{ name: "posts_slug_unique", columns: ["slug"], unique: true }])
+      expect(posts.foreignKeys).toEqual([
+        { column: "user_id", references: { table: "users", column: "id" }, onDelete: "cascade" },
+      ])
+    })
+
+    it("should throw for a missing table", async () => {
+      await expect(driver.describeTable("missing")).rejects.toThrow("Table 'missing' does not exist")
+    })
+  })
+})
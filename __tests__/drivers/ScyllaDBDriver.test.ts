@@ -0,0 +1,139 @@
+import { types } from "cassandra-driver"
+import { ScyllaDBDriver } from "@/drivers/ScyllaDBDriver"
+import type { ConnectionConfig } from "@/types"
+
+const { consistencies } = types
+
+describe("ScyllaDBDriver", () => {
+  let client: { execute: jest.Mock; batch: jest.Mock }
+
+  const connect = (config: Partial<ConnectionConfig> = {}) => {
+    const driver = new ScyllaDBDriver({ driver: "scylladb", keyspace: "app", ...config })
+    client = {
+      execute: jest.fn(async () => ({ rows: [], rowLength: 0 })),
+      batch: jest.fn(async () => ({ rows: [], rowLength: 0 })),
+    }
+    ;(driver as any).cassandraModule = { types }
+    ;(driver as any).client = client
+    return driver
+  }
+
+  const executeOptions = () => client.execute.mock.calls[0][2]
+
+  describe("consistency", () => {
+    it("should accept CQL names and cassandra-driver names", async () => {
+      const driver = connect()
+
+      await driver.query("SELECT * FROM users", [], { consistency: "LOCAL_QUORUM", serialConsistency: "LOCAL_SERIAL" })
+      await driver.query("SELECT * FROM users", [], { consistency: "localQuorum", serialConsistency: "localSerial" })
+
+      for (const [, , options] of client.execute.mock.calls) {
+        expect(options.consistency).toBe(consistencies.localQuorum)
+        expect(options.serialConsistency).toBe(consistencies.localSerial)
+      }
+    })
+
+    it("should fall back to the connection's levels and let queries override them", async () => {
+      const driver = connect({ consistency: "quorum", serialConsistency: "serial" })
+
+      await driver.query("SELECT * FROM users")
+      await driver.query("SELECT * FROM users", [], { consistency: "ONE" })
+
+      expect(executeOptions()).toMatchObject({ consistency: consistencies.quorum, serialConsistency: consistencies.serial })
+      expect(client.execute.mock.calls[1][2].consistency).toBe(consistencies.one)
+    })
+
+    it("should leave the level to the client when none is configured", async () => {
+      await connect().query("SELECT * FROM users")
+
+      expect(executeOptions()).not.toHaveProperty("consistency")
+    })
+
+    it("should reject unknown levels before executing", async () => {
+      const driver = connect()
+
+      await expect(driver.query("SELECT * FROM users", [], { consistency: "MOSTLY" as any })).rejects.toThrow(
+        "Unknown consistency level: MOSTLY",
+      )
+      expect(client.execute).not.toHaveBeenCalled()
+    })
+
+    it("should run batches at LOCAL_QUORUM unless told otherwise", async () => {
+      const driver = connect()
+      const statements = [{ query: "UPDATE users SET name = ? WHERE id = ?", params: ["Jane", 1] }]
+
+      await driver.batch(statements)
+      await driver.batch(statements, { consistency: "EACH_QUORUM" })
+
+      expect(client.batch.mock.calls.map(([, options]) => options.consistency)).toEqual([
+        consistencies.localQuorum,
+        consistencies.eachQuorum,
+      ])
+    })
+  })
+
+  it("should pass the timeout as the client read timeout", async () => {
+    await connect().query("SELECT * FROM users", [], { timeout: 2000 })
+
+    expect(executeOptions().readTimeout).toBe(2000)
+  })
+
+  describe("describeTable", () => {
+    const schema: Record<string, any[]> = {
+      "system_schema.columns": [
+        { column_name: "reading", type: "double", kind: "regular", position: -1, clustering_order: "none" },
+        { column_name: "ts", type: "timestamp", kind: "clustering", position: 0, clustering_order: "desc" },
+        { column_name: "day", type: "date", kind: "partition_key", position: 1, clustering_order: "none" },
+        { column_name: "device_id", type: "uuid", kind: "partition_key", position: 0, clustering_order: "none" },
+        { column_name: "tags", type: "frozen<set<text>>", kind: "regular", position: -1, clustering_order: "none" },
+      ],
+      "system_schema.indexes": [{ index_name: "events_tags_idx", options: { target: 'values("tags")' } }],
+      "system_schema.tables": [{ default_time_to_live: 86400, comment: "", gc_grace_seconds: null }],
+    }
+
+    let driver: ScyllaDBDriver
+
+    beforeEach(() => {
+      driver = connect()
+      client.execute.mockImplementation(async (cql: string) => {
+        const rows = schema[/FROM (\S+)/.exec(cql)![1]]
+        return { rows, rowLength: rows.length }
+      })
+    })
+
+    it("should order the key columns by position before the other columns", async () => {
+      const events = await driver.describeTable("events")
+
+      expect(events.columns).toEqual([
+        { name: "device_id", type: "uuid", primary: true, nullable: false },
+        { name: "day", type: "date", primary: true, nullable: false },
+        { name: "ts", type: "timestamp", primary: true, nullable: false },
+        { name: "reading", type: "double", nullable: true },
+        { name: "tags", type: "frozen<set<text>>", nullable: true, frozen: true },
+      ])
+      expect(events.partitionKeys).toEqual(["device_id", "day"])
+      expect(events.clusteringKeys).toEqual(["ts"])
+      expect(events.clusteringOrder).toEqual({ ts: "DESC" })
+    })
+
+    it("should map index targets and keep the table options that are set", async () => {
+      const events = await driver.describeTable("events")
+
+      expect(events.indexes).toEqual([{ name: "events_tags_idx", columns: ["tags"] }])
+      expect(events.tableOptions).toEqual({ default_time_to_live: 86400, comment: "" })
+    })
+
+    it("should read a keyspace-qualified table from that keyspace", async () => {
+      const events = await driver.describeTable("metrics.events")
+
+      expect(events.name).toBe("events")
+      expect(client.execute.mock.calls[0][1]).toEqual(["metrics", "events"])
+    })
+
+    it("should throw for a missing table", async () => {
+      client.execute.mockResolvedValue({ rows: [], rowLength: 0 })
+
+      await expect(driver.describeTable("missing")).rejects.toThrow("Table 'missing' does not exist")
+    })
+  })
+})
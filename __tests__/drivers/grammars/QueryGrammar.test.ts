@@ -0,0 +1,131 @@
+import { PostgreSQLGrammar } from "@/drivers/grammars/PostgreSQLGrammar"
+import { MySQLGrammar } from "@/drivers/grammars/MySQLGrammar"
+import { ScyllaDBGrammar } from "@/drivers/grammars/ScyllaDBGrammar"
+import { MongoDBGrammar } from "@/drivers/grammars/MongoDBGrammar"
+import type { CollectionUpdate } from "@/types"
+
+describe("QueryGrammar", () => {
+  describe("compileGroupLimit", () => {
+    const query = {
+      columns: ["*"],
+      from: "posts",
+      wheres: [{ type: "in", column: "user_id", values: [1, 2], boolean: "and" }],
+      orders: [{ column: "created_at", direction: "desc" }],
+      limit: 10,
+      groupLimit: { column: "user_id", count: 3 },
+    }
+
+    it("should number the rows of each group in the query's order and keep the first ones", () => {
+      expect(new PostgreSQLGrammar().compileSelect(query)).toBe(
+        'SELECT * FROM (SELECT "posts".*, ROW_NUMBER() OVER (PARTITION BY "user_id" ORDER BY "created_at" DESC) AS "scyllinx_row" ' +
+          'FROM "posts" WHERE "user_id" IN (?, ?)) AS "scyllinx_grouped" WHERE "scyllinx_row" <= 3 ORDER BY "scyllinx_row"',
+      )
+    })
+
+    it("should use the grammar's identifier quoting", () => {
+      expect(new MySQLGrammar().compileSelect(query)).toContain("PARTITION BY `user_id` ORDER BY `created_at` DESC")
+    })
+  })
+
+  describe("compileUpdate with increments", () => {
+    const query = {
+      table: "page_views",
+      values: {},
+      increments: { views: 1, shares: -2 },
+      wheres: [{ type: "basic" as const, column: "page", operator: "=", value: "/home", boolean: "and" }],
+    }
+
+    it("should add to counter columns in CQL", () => {
+      expect(new ScyllaDBGrammar().compileUpdate(query)).toBe(
+        "UPDATE page_views SET views = views + ?, shares = shares + ? WHERE page = ?",
+      )
+    })
+
+    it("should add to the columns in SQL next to plain values", () => {
+      expect(new PostgreSQLGrammar().compileUpdate({ ...query, values: { touched_at: 1 } })).toBe(
+        'UPDATE "page_views" SET "touched_at" = ?, "views" = "views" + ?, "shares" = "shares" + ? WHERE "page" = ?',
+      )
+    })
+
+    it("should use $inc on MongoDB", () => {
+      const [, , directive] = new MongoDBGrammar().compileUpdate(query).split(/:(updateMany):/)
+      expect(JSON.parse(directive).update).toEqual({ $inc: { views: 1, shares: -2 } })
+    })
+  })
+
+  describe("compileCollectionUpdate", () => {
+    const updates: CollectionUpdate[] = [
+      { column: "tags", operation: "append", value: ["a"] },
+      { column: "tags", operation: "prepend", value: ["b"] },
+      { column: "tags", operation: "remove", value: ["c"] },
+      { column: "settings", operation: "putEntries", value: { theme: "dark" } },
+      { column: "settings", operation: "removeKeys", value: ["theme"] },
+      { column: "scores", operation: "setIndex", index: 0, value: 10 },
+    ]
+
+    it("should compile every operation to a CQL assignment", () => {
+      const grammar = new ScyllaDBGrammar()
+
+      expect(updates.map((update) => grammar.compileCollectionUpdate(update))).toEqual([
+        "tags = tags + ?",
+        "tags = ? + tags",
+        "tags = tags - ?",
+        "settings = settings + ?",
+        "settings = settings - ?",
+        "scores[?] = ?",
+      ])
+      expect(updates.map((update) => grammar.getCollectionParams(update))).toEqual([
+        [["a"]],
+        [["b"]],
+        [["c"]],
+        [{ theme: "dark" }],
+        [["theme"]],
+        [0, 10],
+      ])
+    })
+
+    it("should compile to JSONB functions with JSON parameters on PostgreSQL", () => {
+      const grammar = new PostgreSQLGrammar()
+
+      expect(grammar.compileCollectionUpdate(updates[0])).toBe(`"tags" = COALESCE("tags", '[]'::jsonb) || ?::jsonb`)
+      expect(grammar.compileCollectionUpdate(updates[5])).toBe(`"scores" = jsonb_set("scores", ?::text[], ?::jsonb)`)
+      expect(updates.map((update) => grammar.getCollectionParams(update))).toEqual([
+        ['["a"]'],
+        ['["b"]'],
+        ['["c"]'],
+        ['{"theme":"dark"}'],
+        [["theme"]],
+        [["0"], "10"],
+      ])
+    })
+
+    it("should keep appended elements unique when they came from a Set", () => {
+      const update: CollectionUpdate = { column: "tags", operation: "append", value: ["a"], unique: true }
+
+      expect(new PostgreSQLGrammar().compileCollectionUpdate(update)).toContain("jsonb_agg(DISTINCT e)")
+    })
+
+    it("should map every operation to a MongoDB update operator", () => {
+      const compile = (update: CollectionUpdate) => {
+        const directive = new MongoDBGrammar().compileUpdate({ table: "users", values: {}, collections: [update] })
+        return JSON.parse(directive.split(":updateMany:")[1]).update
+      }
+
+      expect(updates.map(compile)).toEqual([
+        { $push: { tags: { $each: ["a"] } } },
+        { $push: { tags: { $each: ["b"], $position: 0 } } },
+        { $pull: { tags: { $in: ["c"] } } },
+        { $set: { "settings.theme": "dark" } },
+        { $unset: { "settings.theme": "" } },
+        { $set: { "scores.0": 10 } },
+      ])
+      expect(compile({ ...updates[0], unique: true })).toEqual({ $addToSet: { tags: { $each: ["a"] } } })
+    })
+
+    it("should throw on grammars without collection operators", () => {
+      expect(() => new MySQLGrammar().compileCollectionUpdate(updates[0])).toThrow(
+        "does not support collection operators",
+      )
+    })
+  })
+})
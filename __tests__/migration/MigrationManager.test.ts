@@ -0,0 +1,152 @@
+import { ConnectionManager, DatabaseDriver, Migration, MigrationManager, Schema } from "@/index"
+import type { MigrationRecord } from "@/types"
+import { useFakeScylla } from "../support/fakeScylla"
+
+/** Migration named `name` that logs its down() runs to `log` */
+function migration(name: string, log: string[]): Migration {
+  return new (class extends Migration {
+    getName() {
+      return name
+    }
+    async up() {}
+    async down() {
+      log.push(name)
+    }
+  })()
+}
+
+describe("MigrationManager", () => {
+  const names = ["create_users", "create_posts", "add_index", "create_tags", "create_likes"]
+  let queries: { sql: string; bindings?: any[] }[]
+  let rolledBack: string[]
+  let migrations: Migration[]
+  let driver: DatabaseDriver
+  let manager: MigrationManager
+
+  /** Executed migrations, returned out of order as ScyllaDB does across partitions */
+  const records: MigrationRecord[] = [
+    { migration: "create_tags", batch: 2, executedAt: new Date("2024-01-02T00:00:00Z") },
+    { migration: "create_users", batch: 1, executedAt: new Date("2024-01-01T00:00:00Z") },
+    { migration: "create_likes", batch: 3, executedAt: new Date("2024-01-03T00:00:00Z") },
+    { migration: "add_index", batch: 2, executedAt: new Date("2024-01-02T00:00:00Z") },
+    { migration: "create_posts", batch: 1, executedAt: new Date("2024-01-01T00:00:01Z") },
+  ]
+
+  beforeEach(async () => {
+    const connections = ConnectionManager.getInstance()
+    await connections.clear()
+    await connections.addConnection("default", { driver: "postgresql", database: "app" })
+
+    queries = []
+    rolledBack = []
+    migrations = names.map((name) => migration(name, rolledBack))
+    jest.spyOn(console, "log").mockImplementation(() => {})
+    driver = connections.getConnection().getDriver()
+    driver.query = jest.fn(async (sql: string, bindings?: any[]) => {
+      queries.push({ sql, bindings })
+      const rows = sql.startsWith("SELECT")
+        ? records.map((record) => ({
+            migration: record.migration,
+            batch_number: record.batch,
+            executed_at: record.executedAt,
+          }))
+        : []
+      return { rows, rowCount: rows.length }
+    })
+
+    manager = new MigrationManager(connections, { tableName: "schema_migrations", lock: false })
+  })
+
+  describe("rollback", () => {
+    it("should roll back the whole last batch by default", async () => {
+      await manager.rollback(migrations)
+
+      expect(rolledBack).toEqual(["create_likes"])
+    })
+
+    it("should roll back a number of steps across batches, most recent first", async () => {
+      await manager.rollback(migrations, { steps: 3 })
+
+      expect(rolledBack).toEqual(["create_likes", "create_tags", "add_index"])
+    })
+
+    it("should read a number as steps", async () => {
+      await manager.rollback(migrations, 2)
+
+      expect(rolledBack).toEqual(["create_likes", "create_tags"])
+    })
+
+    it("should order migrations by executed_at, not by the order they are read in", async () => {
+      await manager.rollback(migrations, { batch: 1 })
+
+      expect(rolledBack).toEqual(["create_posts", "create_users"])
+    })
+
+    it("should roll back nothing for zero steps", async () => {
+      await manager.rollback(migrations, { steps: 0 })
+
+      expect(rolledBack).toEqual([])
+    })
+
+    it("should remove the records from the configured table", async () => {
+      await manager.rollback(migrations, { batch: 2 })
+
+      const deletes = queries.filter((query) => query.sql.startsWith("DELETE"))
+      expect(deletes.map((query) => query.bindings)).toEqual([
+        [2, "create_tags"],
+        [2, "add_index"],
+      ])
+      expect(deletes.every((query) => query.sql.includes('"schema_migrations"'))).toBe(true)
+    })
+
+    it("should select the same migrations when pretending, without running them", async () => {
+      driver.listTables = jest.fn(async () => ["schema_migrations"])
+
+      const pretended = await manager.rollback(migrations, { steps: 2, pretend: true })
+
+      expect(pretended.map((entry) => entry.migration)).toEqual(["create_likes", "create_tags"])
+      expect(queries.some((query) => query.sql.startsWith("DELETE"))).toBe(false)
+    })
+  })
+
+  describe("migrate", () => {
+    it("should collect the statements of pending migrations when pretending, without running them", async () => {
+      driver.listTables = jest.fn(async () => ["schema_migrations"])
+      const pending = new (class extends Migration {
+        getName() {
+          return "create_comments"
+        }
+        async up(schema: Schema) {
+          await schema.createTable("comments", (table) => table.id())
+        }
+        async down() {}
+      })()
+
+      const pretended = await manager.migrate([...migrations, pending], { pretend: true })
+
+      expect(pretended).toEqual([
+        { migration: "create_comments", statements: ['CREATE TABLE "comments" ("id" INTEGER NOT NULL PRIMARY KEY)'] },
+      ])
+      expect(queries.every((query) => query.sql.startsWith("SELECT"))).toBe(true)
+    })
+  })
+
+  describe("fresh", () => {
+    it("should drop user-defined types on ScyllaDB when class names are minified", async () => {
+      const scylla = await useFakeScylla()
+      // Minifiers rename classes, so the driver's class name cannot be relied on
+      Object.defineProperty(scylla.driver, "constructor", { value: class {} })
+      scylla.driver.listMaterializedViews = jest.fn(async () => [])
+      scylla.driver.listTables = jest.fn(async () => ["users", "scyllinx_locks"])
+      scylla.driver.listTypes = jest.fn(async () => [{ name: "address", fields: [] }])
+
+      await new MigrationManager(ConnectionManager.getInstance(), { lock: false }).fresh([])
+
+      const drops = scylla.queries.map(({ cql }) => cql).filter((cql) => cql.startsWith("DROP"))
+      expect(drops).toEqual([
+        expect.stringMatching(/^DROP TABLE .*users/),
+        expect.stringMatching(/^DROP TYPE .*address/),
+      ])
+    })
+  })
+})
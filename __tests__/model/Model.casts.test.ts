@@ -0,0 +1,87 @@
+import { Model } from "@/index"
+
+class Account extends Model<any> {
+  protected static table = "accounts"
+  protected static timestamps = false
+  protected static casts = {
+    balance: "decimal:2",
+    rate: "decimal",
+    views: "bigint",
+    population: "varint",
+  }
+}
+
+describe("Model casts", () => {
+  const account = () => new Account()
+  const read = (cast: string, value: any) => (account() as any).castValue(cast, value)
+  const store = (cast: string, value: any) => (account() as any).castValueForStorage(cast, value)
+
+  describe("decimal", () => {
+    it("should round half-up on the decimal digits, not on a double", () => {
+      expect(read("decimal:2", 1.005)).toBe("1.01")
+      expect(read("decimal:2", "2.675")).toBe("2.68")
+      expect(read("decimal:2", "0.999")).toBe("1.00")
+      expect(read("decimal:0", "2.5")).toBe("3")
+    })
+
+    it("should round negative values away from zero and drop the sign of zero", () => {
+      expect(read("decimal:2", "-0.125")).toBe("-0.13")
+      expect(read("decimal:2", "-0.001")).toBe("0.00")
+    })
+
+    it("should pad the fraction to the scale", () => {
+      expect(read("decimal:2", "12.3")).toBe("12.30")
+      expect(read("decimal:3", 7)).toBe("7.000")
+      expect(read("decimal:2", ".5")).toBe("0.50")
+    })
+
+    it("should expand small doubles printed in exponent form", () => {
+      expect(read("decimal:8", 1e-7)).toBe("0.00000010")
+    })
+
+    it("should keep every digit without a scale", () => {
+      expect(read("decimal", "123456789012345678901.123456789")).toBe("123456789012345678901.123456789")
+    })
+
+    it("should reject values that are not decimal numbers", () => {
+      expect(() => read("decimal:2", "abc")).toThrow('Cannot cast "abc" to decimal:2')
+    })
+
+    it("should store scaled decimals as exact strings and unscaled numbers as they are", () => {
+      expect(store("decimal:2", 10.1)).toBe("10.10")
+      expect(store("decimal", "0.30")).toBe("0.30")
+      expect(store("decimal", 0.25)).toBe(0.25)
+    })
+  })
+
+  describe("bigint", () => {
+    it("should read values beyond Number.MAX_SAFE_INTEGER without losing digits", () => {
+      expect(read("bigint", "9007199254740993")).toBe(9007199254740993n)
+      expect(read("varint", 42n)).toBe(42n)
+      expect(read("bigint", 12.7)).toBe(12n)
+    })
+
+    it("should store bigints as strings", () => {
+      expect(store("varint", 2n ** 70n)).toBe("1180591620717411303424")
+      expect(store("bigint", 5)).toBe(5)
+    })
+  })
+
+  it("should round-trip attributes through storage and back", () => {
+    const model = account()
+    model.setAttribute("balance", "19.999")
+    model.setAttribute("rate", "0.0000000001")
+    model.setAttribute("views", 9007199254740993n)
+    model.setAttribute("population", 2n ** 64n)
+
+    expect((model as any).attributes).toEqual({
+      balance: "20.00",
+      rate: "0.0000000001",
+      views: "9007199254740993",
+      population: "18446744073709551616",
+    })
+    expect(model.getAttribute("balance")).toBe("20.00")
+    expect(model.getAttribute("views")).toBe(9007199254740993n)
+    expect(model.getAttribute("population")).toBe(2n ** 64n)
+  })
+})
@@ -0,0 +1,130 @@
+import { ConnectionManager, Model, StaleModelError } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Device extends Model<any> {
+  protected static table = "devices"
+  protected static timestamps = false
+  protected static versionColumn = "version"
+}
+
+/** A device as loaded from the database */
+function stored(attributes: Record<string, any>): Device {
+  const device = new Device()
+  device.setAttributes(attributes)
+  device.setOriginal(attributes)
+  device.setExists(true)
+  return device
+}
+
+describe("Model optimistic locking", () => {
+  describe("on ScyllaDB", () => {
+    let scylla: FakeScylla
+
+    beforeEach(async () => {
+      scylla = await useFakeScylla({ devices: { partitionKeys: ["id"] } })
+    })
+
+    const updates = () => scylla.queries.filter(({ cql }) => cql.startsWith("UPDATE"))
+
+    it("should start the version at 1 and insert only when the row does not exist", async () => {
+      scylla.respond((cql) => (cql.startsWith("INSERT") ? { rows: [], rowCount: 0, lwt: { applied: true } } : undefined))
+      const device = new Device()
+      device.setAttributes({ id: "d1", name: "sensor" })
+      await device.save()
+
+      const [insert] = scylla.queries
+      expect(insert.cql).toBe("INSERT INTO devices (id, name, version) VALUES (?, ?, ?) IF NOT EXISTS")
+      expect(insert.params).toEqual(["d1", "sensor", 1])
+      expect(device.getAttribute("version")).toBe(1)
+    })
+
+    it("should throw StaleModelError when another writer created the row first", async () => {
+      scylla.respond((cql) =>
+        cql.startsWith("INSERT") ? { rows: [], rowCount: 0, lwt: { applied: false, current: { version: 2 } } } : undefined,
+      )
+      const device = new Device()
+      device.setAttributes({ id: "d1", name: "sensor" })
+
+      const error = await device.save().catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(StaleModelError)
+      expect(error.expectedVersion).toBeNull()
+      expect(error.currentVersion).toBe(2)
+      expect(error.message).toBe("Device [d1] is stale: expected no existing row, found 2.")
+    })
+
+    it("should condition the update on the loaded version and increment it", async () => {
+      scylla.respond((cql) => (cql.startsWith("UPDATE") ? { rows: [], rowCount: 0, lwt: { applied: true } } : undefined))
+      const device = stored({ id: "d1", name: "sensor", version: 3 })
+
+      device.setAttribute("name", "thermometer")
+      await device.save()
+
+      expect(updates()[0].cql).toBe("UPDATE devices SET name = ?, version = ? WHERE id = ? IF version = ?")
+      expect(updates()[0].params).toEqual(["thermometer", 4, "d1", 3])
+      expect(device.getAttribute("version")).toBe(4)
+    })
+
+    it("should throw StaleModelError with the stored version when the condition fails", async () => {
+      scylla.respond((cql) =>
+        cql.startsWith("UPDATE") ? { rows: [], rowCount: 0, lwt: { applied: false, current: { version: 5 } } } : undefined,
+      )
+      const device = stored({ id: "d1", name: "sensor", version: 3 })
+
+      device.setAttribute("name", "thermometer")
+      const error = await device.save().catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(StaleModelError)
+      expect(error.expectedVersion).toBe(3)
+      expect(error.currentVersion).toBe(5)
+      expect(device.getAttribute("version")).toBe(3)
+    })
+
+    it("should update rows without a version unconditionally", async () => {
+      const device = stored({ id: "d1", name: "sensor" })
+
+      device.setAttribute("name", "thermometer")
+      await device.save()
+
+      expect(updates()[0].cql).not.toContain("IF")
+      expect(device.getAttribute("version")).toBe(1)
+    })
+  })
+
+  describe("on SQL drivers", () => {
+    let pool: { query: jest.Mock; end: jest.Mock }
+
+    beforeEach(async () => {
+      const manager = ConnectionManager.getInstance()
+      await manager.clear()
+      await manager.addConnection("default", { driver: "postgresql", database: "app" })
+      pool = { query: jest.fn(async () => ({ command: "UPDATE", rows: [], rowCount: 1 })), end: jest.fn() }
+      ;(manager.getConnection().getDriver() as any).pool = pool
+    })
+
+    it("should condition the update on the loaded version in the WHERE clause", async () => {
+      const device = stored({ id: 1, name: "sensor", version: 3 })
+
+      device.setAttribute("name", "thermometer")
+      await device.save()
+
+      const [[sql, params]] = pool.query.mock.calls
+      expect(sql).toMatch(/WHERE "id" = \S+ AND "version" = \S+$/)
+      expect(params).toEqual(["thermometer", 4, 1, 3])
+      expect(device.getAttribute("version")).toBe(4)
+    })
+
+    it("should throw StaleModelError when the update matches no row", async () => {
+      pool.query.mockResolvedValue({ command: "UPDATE", rows: [], rowCount: 0 })
+      const device = stored({ id: 1, name: "sensor", version: 3 })
+
+      device.setAttribute("name", "thermometer")
+      const error = await device.save().catch((caught) => caught)
+
+      expect(error).toBeInstanceOf(StaleModelError)
+      expect(error.expectedVersion).toBe(3)
+      expect(error.currentVersion).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import { QueryBuilder } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+describe("QueryBuilder collection mutations", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla()
+  })
+
+  const user = () => new QueryBuilder<any, { id: string }>("users").where("id", "u1")
+
+  it("should bind the elements before the WHERE values", async () => {
+    await user().append("tags", new Set(["admin", "editor"]))
+
+    expect(scylla.queries[0].cql).toBe("UPDATE users SET tags = tags + ? WHERE id = ?")
+    expect(scylla.queries[0].params).toEqual([["admin", "editor"], "u1"])
+  })
+
+  it("should bind the index before the new element", async () => {
+    await user().setIndex("scores", 2, 120)
+
+    expect(scylla.queries[0].cql).toBe("UPDATE users SET scores[?] = ? WHERE id = ?")
+    expect(scylla.queries[0].params).toEqual([2, 120, "u1"])
+  })
+
+  it("should send map entries and keys as they are", async () => {
+    await user().putEntries("settings", { theme: "dark" })
+    await user().removeKeys("settings", ["lang"])
+
+    expect(scylla.queries.map(({ params }) => params)).toEqual([
+      [{ theme: "dark" }, "u1"],
+      [["lang"], "u1"],
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { Batch, ConnectionManager, Model, QueryBuilder } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class PageView extends Model<any> {
+  protected static table = "page_views"
+  protected static primaryKey = "page"
+  protected static timestamps = false
+}
+
+describe("QueryBuilder counters", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({ page_views: { partitionKeys: ["page"] } })
+  })
+
+  const views = () => new QueryBuilder<any, { page: string; views: number }>("page_views").where("page", "/home")
+
+  it("should bind the increment before the WHERE values", async () => {
+    await views().increment("views", 3)
+
+    expect(scylla.queries[0].cql).toBe("UPDATE page_views SET views = views + ? WHERE page = ?")
+    expect(scylla.queries[0].params).toEqual([3, "/home"])
+  })
+
+  it("should decrement by adding the negated amount", async () => {
+    await views().decrement("views")
+
+    expect(scylla.queries[0].params).toEqual([-1, "/home"])
+  })
+
+  it("should reject amounts that are not finite", async () => {
+    await expect(views().increment("views", Number.NaN)).rejects.toThrow("finite")
+    expect(scylla.queries).toHaveLength(0)
+  })
+
+  it("should keep the model's counter in step with the written increment", async () => {
+    const pageView = new PageView()
+    pageView.setAttributes({ page: "/home", views: 10n })
+    pageView.setOriginal({ page: "/home", views: 10n })
+    pageView.setExists(true)
+
+    await pageView.increment("views", 5)
+
+    expect(pageView.getAttribute("views")).toBe(15n)
+    expect(pageView.isDirty()).toBe(false)
+  })
+
+  describe("in batches", () => {
+    let batchResult: jest.Mock
+
+    beforeEach(() => {
+      batchResult = jest.fn(async () => ({ rows: [], rowCount: 0 }))
+      scylla.driver.batch = batchResult
+    })
+
+    const batch = () => new Batch(ConnectionManager.getInstance().getConnection())
+
+    it("should send a batch of increments as a COUNTER batch", async () => {
+      await batch()
+        .increment("page_views", "views", 1, { page: "/home" })
+        .decrement("page_views", "views", 1, { page: "/" })
+        .execute()
+
+      expect(batchResult).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ type: "counter" }))
+    })
+
+    it("should send a logged batch when other writes are mixed in", async () => {
+      await batch().increment("page_views", "views", 1, { page: "/home" }).insert("pages", { page: "/home" }).execute()
+
+      expect(batchResult).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ type: undefined }))
+    })
+  })
+})
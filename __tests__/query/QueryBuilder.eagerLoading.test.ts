@@ -0,0 +1,100 @@
+import { BelongsTo, HasMany, Model, Relationship } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Comment extends Model<any> {
+  protected static table = "comments"
+  protected static timestamps = false
+}
+
+class Post extends Model<any> {
+  protected static table = "posts"
+  protected static timestamps = false
+
+  commentsRelation(): HasMany<Post, Comment> {
+    return this.hasMany(Comment, "post_id", "id")
+  }
+
+  authorRelation(): BelongsTo<Post, Author> {
+    return this.belongsTo(Author, "author_id", "id")
+  }
+}
+
+class Author extends Model<any> {
+  protected static table = "authors"
+  protected static timestamps = false
+
+  postsRelation(): HasMany<Author, Post> {
+    return this.hasMany(Post, "author_id", "id")
+  }
+}
+
+describe("QueryBuilder eager loading", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({
+      authors: { rows: [{ id: "a1" }, { id: "a2" }, { id: "a3" }] },
+      posts: {
+        rows: [
+          { id: "p1", author_id: "a1" },
+          { id: "p2", author_id: "a1" },
+          { id: "p3", author_id: "a2" },
+        ],
+      },
+      comments: { rows: [{ id: "c1", post_id: "p1" }, { id: "c2", post_id: "p3" }] },
+    })
+  })
+
+  const queriesOf = (table: string) => scylla.queries.filter(({ cql }) => cql.includes(`FROM ${table}`))
+  const idsOf = (models: Model<any>[]) => models.map((model) => model.getAttribute("id"))
+
+  it("should load a relation for every parent with one whereIn query", async () => {
+    const authors = await Author.query().whereIn("id", ["a1", "a2", "a3"]).with("posts").get()
+
+    expect(authors.map((author) => idsOf(author.getAttribute("posts")))).toEqual([["p1", "p2"], ["p3"], []])
+    expect(queriesOf("posts")).toHaveLength(1)
+    expect(queriesOf("posts")[0].cql).toContain("author_id IN (?, ?, ?)")
+  })
+
+  it("should run one query per level of a nested relation", async () => {
+    const authors = await Author.query().whereIn("id", ["a1", "a2"]).with("posts.comments").get()
+
+    const posts: Post[] = authors.flatMap((author) => author.getAttribute("posts"))
+    expect(posts.map((post) => idsOf(post.getAttribute("comments")))).toEqual([["c1"], [], ["c2"]])
+    expect(queriesOf("posts")).toHaveLength(1)
+    expect(queriesOf("comments")).toHaveLength(1)
+  })
+
+  it("should query each distinct key once for belongs-to relations", async () => {
+    const posts = await Post.query().whereIn("id", ["p1", "p2", "p3"]).with("author").get()
+
+    expect(posts.map((post) => post.getAttribute("author").getAttribute("id"))).toEqual(["a1", "a1", "a2"])
+    expect(queriesOf("authors")).toHaveLength(1)
+    expect(queriesOf("authors")[0].params).toEqual(["a1", "a2"])
+  })
+
+  it("should load the relations of a single model through loadEagerFor()", async () => {
+    const author = (await Author.query().where("id", "a1").first())!
+    await Author.query().loadEagerFor(author, ["posts"])
+
+    expect(idsOf(author.getAttribute("posts"))).toEqual(["p1", "p2"])
+  })
+
+  describe("chunking", () => {
+    const chunkSize = Relationship.eagerChunkSize
+
+    afterEach(() => {
+      Relationship.eagerChunkSize = chunkSize
+    })
+
+    it("should split the parent keys into IN lists of eagerChunkSize values", async () => {
+      Relationship.eagerChunkSize = 2
+
+      const authors = await Author.query().whereIn("id", ["a1", "a2", "a3"]).with("posts").get()
+
+      expect(queriesOf("posts").map(({ params }) => params)).toEqual([["a1", "a2"], ["a3"]])
+      expect(authors.map((author) => idsOf(author.getAttribute("posts")))).toEqual([["p1", "p2"], ["p3"], []])
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { ConnectionManager, Model, QueryBuilder } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+
+class Device extends Model<any> {
+  protected static table = "devices"
+  protected static timestamps = false
+}
+
+describe("QueryBuilder write metadata", () => {
+  describe("on ScyllaDB", () => {
+    it("should keep the case of WRITETIME() and TTL() aliases", async () => {
+      const scylla = await useFakeScylla({ devices: { partitionKeys: ["id"] } })
+      scylla.respond(() => ({
+        rows: [{ id: "d1", lastSeen: 5, writetime__lastSeen: 1700000000000000, ttl__lastSeen: 60 }],
+        rowCount: 1,
+      }))
+
+      const device = await Device.query()
+        .select("id", "lastSeen")
+        .where("id", "d1")
+        .selectWritetime("lastSeen")
+        .selectTtl("lastSeen")
+        .first()
+
+      expect(scylla.queries[0].cql).toContain('WRITETIME(lastSeen) AS "writetime__lastSeen"')
+      expect(device?.getWritetime("lastSeen")).toBe(1700000000000000)
+      expect(device?.getTtl("lastSeen")).toBe(60)
+    })
+  })
+
+  describe("on other databases", () => {
+    beforeEach(async () => {
+      const manager = ConnectionManager.getInstance()
+      await manager.clear()
+      await manager.addConnection("default", { driver: "postgresql", database: "app" })
+      manager.getConnection().getDriver().query = jest.fn()
+    })
+
+    it("should reject write timestamps instead of dropping them", async () => {
+      const devices = () => new QueryBuilder<any, { id: string }>("devices").usingTimestamp(1700000000000000)
+
+      await expect(devices().insert({ id: "d1" })).rejects.toThrow("USING TIMESTAMP is only supported on ScyllaDB.")
+      await expect(devices().where("id", "d1").update({ name: "x" })).rejects.toThrow("USING TIMESTAMP")
+      await expect(devices().where("id", "d1").delete()).rejects.toThrow("USING TIMESTAMP")
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { ConnectionManager, Model } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Reading extends Model<any> {
+  protected static table = "readings"
+  protected static timestamps = false
+}
+
+const ids = (readings: Reading[]) => readings.map((reading) => reading.getAttribute("id"))
+
+describe("QueryBuilder paginate", () => {
+  describe("on ScyllaDB", () => {
+    let scylla: FakeScylla
+
+    beforeEach(async () => {
+      scylla = await useFakeScylla({
+        readings: {
+          partitionKeys: ["sensor"],
+          clusteringKeys: ["id"],
+          rows: [1, 2, 3, 4, 5].map((id) => ({ sensor: "s1", id })),
+        },
+      })
+    })
+
+    it("should resume each page from the paging state of the previous one", async () => {
+      const query = () => Reading.query().where("sensor", "s1")
+
+      const first = await query().paginate({ pageSize: 2 })
+      const second = await query().paginate({ pageSize: 2, pageState: first.pageState })
+      const last = await query().paginate({ pageSize: 2, pageState: second.pageState })
+
+      expect([ids(first.data), ids(second.data), ids(last.data)]).toEqual([[1, 2], [3, 4], [5]])
+      expect([first.hasMorePages, second.hasMorePages, last.hasMorePages]).toEqual([true, true, false])
+      expect(last.pageState).toBeNull()
+      expect(scylla.queries.every(({ cql }) => !cql.includes("LIMIT"))).toBe(true)
+    })
+
+    it("should pass the page size and state to the driver", async () => {
+      await Reading.query().where("sensor", "s1").cursor("2", 2)
+
+      expect(scylla.driver.query).toHaveBeenCalledWith(
+        expect.any(String),
+        ["s1"],
+        expect.objectContaining({ fetchSize: 2, pageState: "2" }),
+      )
+    })
+
+    it("should reject a non-positive page size", async () => {
+      await expect(Reading.query().paginate({ pageSize: 0 })).rejects.toThrow("Page size")
+    })
+  })
+
+  describe("on SQL drivers", () => {
+    let pool: { query: jest.Mock; end: jest.Mock }
+
+    beforeEach(async () => {
+      const manager = ConnectionManager.getInstance()
+      await manager.clear()
+      await manager.addConnection("default", { driver: "postgresql", database: "app" })
+
+      const rows = [1, 2, 3, 4, 5].map((id) => ({ id }))
+      pool = {
+        query: jest.fn(async (sql: string) => {
+          const [, limit, offset = "0"] = /LIMIT (\d+)(?: OFFSET (\d+))?/.exec(sql)!
+          return { command: "SELECT", rows: rows.slice(Number(offset), Number(offset) + Number(limit)), rowCount: 0 }
+        }),
+        end: jest.fn(),
+      }
+      ;(manager.getConnection().getDriver() as any).pool = pool
+    })
+
+    it("should round-trip an offset token between pages", async () => {
+      const first = await Reading.query().paginate({ pageSize: 2 })
+      const second = await Reading.query().paginate({ pageSize: 2, pageState: first.pageState })
+      const last = await Reading.query().cursor(second.pageState, 2)
+
+      expect([ids(first.data), ids(second.data), ids(last.data)]).toEqual([[1, 2], [3, 4], [5]])
+      expect(last.hasMorePages).toBe(false)
+      expect(last.pageState).toBeNull()
+      expect(pool.query.mock.calls.map(([sql]) => sql.slice(sql.indexOf("LIMIT")))).toEqual([
+        "LIMIT 3 OFFSET 0",
+        "LIMIT 3 OFFSET 2",
+        "LIMIT 3 OFFSET 4",
+      ])
+    })
+
+    it("should reject a token it did not issue", async () => {
+      await expect(Reading.query().cursor("not-a-token", 2)).rejects.toThrow("Invalid page state token.")
+      await expect(
+        Reading.query().cursor(Buffer.from(JSON.stringify({ offset: -1 })).toString("base64"), 2),
+      ).rejects.toThrow("Invalid page state token.")
+    })
+  })
+})
@@ -0,0 +1,99 @@
+import { QueryBuilder, QueryPlanError } from "@/index"
+import { ScyllaDBDriver } from "@/drivers/ScyllaDBDriver"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+interface Event {
+  device_id: string
+  day: string
+  ts: number
+  status: string
+  tags: string[]
+  labels: Record<string, string>
+  value: number
+}
+
+describe("QueryBuilder query plan validation", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({
+      events: {
+        partitionKeys: ["device_id", "day"],
+        clusteringKeys: ["ts"],
+        indexes: ["status", "values(tags)", "keys(labels)"],
+      },
+    })
+  })
+
+  const events = () => new QueryBuilder<any, Event>("events")
+  const reasonOf = async (query: QueryBuilder<any, Event>) => {
+    try {
+      await query.get()
+      return undefined
+    } catch (error) {
+      if (error instanceof QueryPlanError) {
+        return error.reason
+      }
+      throw error
+    }
+  }
+
+  it("should accept a fully restricted partition with clustering order", async () => {
+    const query = events()
+      .where("device_id", "d1")
+      .where("day", "2024-01-01")
+      .where("ts", ">", 5)
+      .orderBy("ts", "desc")
+
+    expect(await reasonOf(query)).toBeUndefined()
+  })
+
+  it("should require every partition key column", async () => {
+    expect(await reasonOf(events().where("device_id", "d1"))).toBe("missingPartitionKey")
+  })
+
+  it("should reject restrictions on columns without an index", async () => {
+    expect(await reasonOf(events().where("value", ">", 10))).toBe("allowFiltering")
+  })
+
+  it("should accept one equality on an indexed column", async () => {
+    expect(await reasonOf(events().where("status", "failed"))).toBeUndefined()
+  })
+
+  it("should accept CONTAINS on a collection with an index on its values", async () => {
+    expect(await reasonOf(events().where("tags", "CONTAINS", "alert" as any))).toBeUndefined()
+  })
+
+  it("should accept CONTAINS KEY on a map with an index on its keys", async () => {
+    expect(await reasonOf(events().where("labels", "CONTAINS KEY", "env" as any))).toBeUndefined()
+  })
+
+  it("should reject CONTAINS on a map whose keys are indexed", async () => {
+    expect(await reasonOf(events().where("labels", "CONTAINS", "prod" as any))).toBe("allowFiltering")
+  })
+
+  it("should reject ORDER BY outside the clustering columns", async () => {
+    const query = events().where("device_id", "d1").where("day", "2024-01-01").orderBy("value")
+
+    expect(await reasonOf(query)).toBe("clusteringOrder")
+  })
+
+  it("should skip the check with allowFiltering()", async () => {
+    expect(await reasonOf(events().where("value", ">", 10).allowFiltering())).toBeUndefined()
+  })
+
+  it("should read the table metadata once until the schema changes", async () => {
+    const client = (scylla.driver as any).client
+    const getTable = jest.spyOn(client.metadata, "getTable")
+    client.execute = jest.fn(async () => ({ rows: [] }))
+
+    await events().where("status", "failed").get()
+    await events().where("status", "ok").get()
+    expect(getTable).toHaveBeenCalledTimes(1)
+
+    await ScyllaDBDriver.prototype.query.call(scylla.driver, "CREATE INDEX ON events (value)", [])
+    await events().where("status", "failed").get()
+    expect(getTable).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,188 @@
+import { ConnectionManager } from "@/connection/ConnectionManager"
+import { HasMany, Model } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Comment extends Model<any> {
+  protected static table = "comments"
+  protected static timestamps = false
+}
+
+class Post extends Model<any> {
+  protected static table = "posts"
+  protected static timestamps = false
+
+  commentsRelation(): HasMany<Post, Comment> {
+    return this.hasMany(Comment, "post_id", "id")
+  }
+}
+
+class User extends Model<any> {
+  protected static table = "users"
+  protected static timestamps = false
+
+  postsRelation(): HasMany<User, Post> {
+    return this.hasMany(Post, "user_id", "id")
+  }
+}
+
+class Reply extends Model<any> {
+  protected static table = "replies"
+  protected static timestamps = false
+  static softDeletes = true
+}
+
+class Thread extends Model<any> {
+  protected static table = "threads"
+  protected static timestamps = false
+  static softDeletes = true
+
+  repliesRelation(): HasMany<Thread, Reply> {
+    return this.hasMany(Reply, "thread_id", "id")
+  }
+}
+
+describe("QueryBuilder relationship clauses on ScyllaDB", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({
+      users: { rows: [{ id: "u1" }, { id: "u2" }, { id: "u3" }] },
+      posts: { rows: [{ id: "p1", user_id: "u1" }, { id: "p2", user_id: "u2" }] },
+      comments: { rows: [{ id: "c1", post_id: "p1", approved: true }] },
+    })
+  })
+
+  describe("has", () => {
+    it("should resolve nested relations one level at a time", async () => {
+      const users = await User.query().has("posts.comments").get()
+
+      expect(users.map((user) => user.getAttribute("id"))).toEqual(["u1"])
+      for (const { cql, params } of scylla.queries) {
+        expect(cql.match(/\?/g)?.length ?? 0).toBe(params.length)
+      }
+    })
+
+    it("should apply callback constraints at the nested level", async () => {
+      const users = await User.query()
+        .whereHas("posts.comments", (query) => query.where("approved", false))
+        .get()
+
+      expect(users).toHaveLength(0)
+    })
+
+    it("should count the parents that match", async () => {
+      expect(await User.query().has("posts").count()).toBe(2)
+    })
+  })
+
+  describe("with soft deletes", () => {
+    const ids = (threads: Thread[]) => threads.map((thread) => thread.getAttribute("id"))
+
+    beforeEach(async () => {
+      scylla = await useFakeScylla({
+        threads: {
+          rows: [
+            { id: "t1", deleted_at: new Date() },
+            { id: "t2", deleted_at: null },
+            { id: "t3", deleted_at: null },
+            { id: "t4", deleted_at: null },
+          ],
+        },
+        replies: {
+          rows: [
+            { id: "r1", thread_id: "t1", deleted_at: null },
+            { id: "r2", thread_id: "t2", deleted_at: null },
+            { id: "r3", thread_id: "t3", deleted_at: new Date() },
+            { id: "r4", thread_id: "t4", deleted_at: null },
+          ],
+        },
+      })
+    })
+
+    it("should leave trashed parents out before applying limit()", async () => {
+      expect(ids(await Thread.query().has("replies").limit(2).get())).toEqual(["t2", "t4"])
+    })
+
+    it("should not count trashed related rows", async () => {
+      expect(ids(await Thread.query().has("replies").get())).toEqual(["t2", "t4"])
+      expect(ids(await Thread.query().doesntHave("replies").get())).toEqual(["t3"])
+    })
+
+    it("should count trashed related rows when the constraint asks for them", async () => {
+      const threads = await Thread.query().whereHas("replies", (query) => query.onlyTrashed()).get()
+
+      expect(ids(threads)).toEqual(["t3"])
+    })
+  })
+
+  describe("doesntHave", () => {
+    it("should only count the related rows of the parents found", async () => {
+      const users = await User.query().doesntHave("posts").get()
+
+      expect(users.map((user) => user.getAttribute("id"))).toEqual(["u3"])
+      const postQueries = scylla.queries.filter(({ cql }) => cql.includes("FROM posts"))
+      expect(postQueries).toHaveLength(1)
+      expect(postQueries[0].cql).toContain("IN (?, ?, ?)")
+    })
+  })
+
+  describe("limitPerGroup", () => {
+    const commentIds = (post: Post) => post.getAttribute("comments").map((comment: Comment) => comment.getAttribute("id"))
+
+    it("should eager load relations when using PER PARTITION LIMIT", async () => {
+      scylla = await useFakeScylla({
+        posts: { partitionKeys: ["user_id"], rows: [{ id: "p1", user_id: "u1" }, { id: "p2", user_id: "u2" }] },
+        comments: { rows: [{ id: "c1", post_id: "p1" }] },
+      })
+
+      const posts = await Post.query().whereIn("user_id", ["u1", "u2"]).with("comments").limitPerGroup("user_id", 1).get()
+
+      expect(scylla.queries[0].cql).toContain("PER PARTITION LIMIT")
+      expect(posts.map(commentIds)).toEqual([["c1"], []])
+    })
+
+    it("should eager load relations once over every per-value query", async () => {
+      const posts = await Post.query().whereIn("user_id", ["u1", "u2"]).with("comments").limitPerGroup("user_id", 1).get()
+
+      expect(posts.map(commentIds)).toEqual([["c1"], []])
+      expect(scylla.queries.filter(({ cql }) => cql.includes("FROM comments"))).toHaveLength(1)
+    })
+
+    it("should run at most ten per-value queries at a time", async () => {
+      const query = scylla.driver.query as jest.Mock
+      const evaluate = query.getMockImplementation()!
+      let running = 0
+      let peak = 0
+      query.mockImplementation(async (...args: any[]) => {
+        peak = Math.max(peak, ++running)
+        await new Promise((resolve) => setImmediate(resolve))
+        running--
+        return evaluate(...args)
+      })
+
+      const userIds = Array.from({ length: 25 }, (_, i) => `u${i}`)
+      await Post.query().whereIn("user_id", userIds).limitPerGroup("user_id", 1).get()
+
+      expect(scylla.queries.filter(({ cql }) => cql.includes("FROM posts"))).toHaveLength(25)
+      expect(peak).toBe(10)
+    })
+  })
+
+  it("should reject methods that cannot resolve relationship clauses", async () => {
+    await expect(User.query().has("posts").paginate({ pageSize: 10 })).rejects.toThrow("paginate()")
+    await expect(User.query().has("posts").update({ name: "x" })).rejects.toThrow("update()")
+  })
+})
+
+describe("QueryBuilder relationship clauses on SQL drivers", () => {
+  beforeEach(async () => {
+    const manager = ConnectionManager.getInstance()
+    await manager.clear()
+    await manager.addConnection("default", { driver: "postgresql", database: "app" })
+  })
+
+  it("should apply the related model's soft delete scope to the subquery", () => {
+    expect(Thread.query().has("replies").toSql()).toContain('"threads"."id" AND ("deleted_at" IS NULL))')
+  })
+})
@@ -0,0 +1,186 @@
+import { ConnectionManager } from "@/connection/ConnectionManager"
+import { HasMany, Model } from "@/index"
+import { EventDispatcher } from "@/observers/EventDispather"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+class Note extends Model<any> {
+  protected static table = "notes"
+  protected static timestamps = false
+  static softDeletes = true
+}
+
+class Owner extends Model<any> {
+  protected static table = "owners"
+  protected static timestamps = false
+
+  notesRelation(): HasMany<Owner, Note> {
+    return this.hasMany(Note, "owner", "id")
+  }
+}
+
+describe("QueryBuilder soft deletes on ScyllaDB", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla({
+      notes: {
+        partitionKeys: ["owner"],
+        clusteringKeys: ["id"],
+        rows: [
+          { owner: "o1", id: 1, deleted_at: new Date() },
+          { owner: "o1", id: 2, deleted_at: null },
+          { owner: "o1", id: 3, deleted_at: new Date() },
+          { owner: "o1", id: 4, deleted_at: null },
+          { owner: "o1", id: 5, deleted_at: null },
+        ],
+      },
+    })
+  })
+
+  const ids = (notes: Note[]) => notes.map((note) => note.getAttribute("id"))
+
+  it("should keep reading pages until limit() is filled", async () => {
+    const notes = await Note.query().where("owner", "o1").limit(2).get()
+
+    expect(ids(notes)).toEqual([2, 4])
+    expect(scylla.queries.every(({ cql }) => !cql.includes("LIMIT"))).toBe(true)
+  })
+
+  it("should find the first row that is not trashed", async () => {
+    const note = await Note.query().where("owner", "o1").first()
+
+    expect(note?.getAttribute("id")).toBe(2)
+  })
+
+  it("should fill pages and resume after the last row kept", async () => {
+    const first = await Note.query().where("owner", "o1").paginate({ pageSize: 2 })
+    const second = await Note.query().where("owner", "o1").paginate({ pageSize: 2, pageState: first.pageState })
+
+    expect(ids(first.data)).toEqual([2, 4])
+    expect(ids(second.data)).toEqual([5])
+    expect(second.hasMorePages).toBe(false)
+  })
+
+  it("should fetch the soft delete column for narrow selects", async () => {
+    const notes = await Note.query().select("id").where("owner", "o1").get()
+
+    expect(ids(notes)).toEqual([2, 4, 5])
+    expect(scylla.queries[0].cql).toContain("deleted_at")
+  })
+
+  it("should count and aggregate only the rows that are not trashed", async () => {
+    const query = () => Note.query().where("owner", "o1")
+
+    expect(await query().count()).toBe(3)
+    expect(await query().onlyTrashed().count()).toBe(2)
+    expect(await query().sum("id")).toBe(11)
+    expect(await query().min("id")).toBe(2)
+    expect(await query().max("id")).toBe(5)
+    expect(await query().avg("id")).toBeCloseTo(11 / 3)
+    expect(await Note.query().where("owner", "o2").sum("id")).toBe(0)
+    expect(scylla.queries.every(({ cql }) => !/COUNT|SUM|MIN|MAX|AVG/.test(cql))).toBe(true)
+  })
+
+  it("should refuse reads that cannot leave trashed rows out", async () => {
+    await expect(Note.query().where("owner", "o1").perPartitionLimit(1).get()).rejects.toThrow("perPartitionLimit()")
+  })
+
+  it("should soft delete a row addressed by its primary key without a condition", async () => {
+    await Note.query().where("owner", "o1").where("id", 2).delete()
+
+    expect(scylla.queries.map(({ cql }) => cql)).toEqual([
+      expect.stringMatching(/^UPDATE notes SET deleted_at = \? WHERE owner = \? AND id = \?$/),
+    ])
+  })
+
+  it("should refuse scoped writes that do not fix the whole primary key", async () => {
+    const query = () => Note.query().where("owner", "o1")
+
+    await expect(query().update({ title: "x" })).rejects.toThrow("update() cannot apply the soft delete scope")
+    await expect(query().delete()).rejects.toThrow("delete() cannot apply the soft delete scope")
+    await expect(query().onlyTrashed().forceDelete()).rejects.toThrow("delete() cannot apply the soft delete scope")
+    expect(scylla.queries).toEqual([])
+  })
+
+  it("should write every matching row with withTrashed()", async () => {
+    await Note.query().withTrashed().where("owner", "o1").forceDelete()
+
+    expect(scylla.queries.map(({ cql }) => cql)).toEqual([expect.stringMatching(/^DELETE FROM notes WHERE owner = \?$/)])
+  })
+
+  it("should run aggregates over every row with withTrashed()", async () => {
+    scylla.respond((cql) => (cql.includes("COUNT") ? { rows: [{ aggregate: 5 }], rowCount: 1 } : undefined))
+
+    expect(await Note.query().withTrashed().where("owner", "o1").count()).toBe(5)
+  })
+
+  it("should check existence without counting", async () => {
+    expect(await Note.query().where("owner", "o1").exists()).toBe(true)
+  })
+
+  it("should restore trashed rows one model at a time and fire their events", async () => {
+    const events: string[] = []
+    const dispatcher = EventDispatcher.getInstance()
+    dispatcher.listen("Note.restoring", (event) => void events.push(`restoring ${event.model.getAttribute("id")}`))
+    dispatcher.listen("Note.restored", (event) => void events.push(`restored ${event.model.getAttribute("id")}`))
+
+    try {
+      expect(await Note.query().where("owner", "o1").restore()).toBe(2)
+    } finally {
+      dispatcher.removeAllListeners("Note.restoring")
+      dispatcher.removeAllListeners("Note.restored")
+    }
+
+    expect(events).toEqual(["restoring 1", "restored 1", "restoring 3", "restored 3"])
+    expect(scylla.queries.filter(({ cql }) => cql.startsWith("UPDATE")).map(({ params }) => params)).toEqual([
+      [null, 1],
+      [null, 3],
+    ])
+  })
+
+  it("should leave the builder's scope unchanged after restore()", async () => {
+    const query = Note.query().where("owner", "o1")
+
+    await query.restore()
+
+    // The fake cluster does not apply the restoring UPDATEs, so rows 1 and 3 are still trashed
+    expect(ids(await query.get())).toEqual([2, 4, 5])
+  })
+})
+
+describe("QueryBuilder soft deletes on SQL drivers", () => {
+  beforeEach(async () => {
+    const manager = ConnectionManager.getInstance()
+    await manager.clear()
+    await manager.addConnection("default", { driver: "postgresql", database: "app" })
+  })
+
+  it("should group OR clauses before applying the scope", () => {
+    const query = Note.query().where("role", "a").orWhere("role", "b")
+
+    expect(query.toSql()).toBe('SELECT * FROM "notes" WHERE ("role" = ? OR "role" = ?) AND "deleted_at" IS NULL')
+    expect(query.toRawSql()).toContain(`WHERE ("role" = 'a' OR "role" = 'b') AND`)
+    expect(Note.query().onlyTrashed().where("role", "a").orWhere("role", "b").toSql()).toContain(
+      'WHERE ("role" = ? OR "role" = ?) AND "deleted_at" IS NOT NULL',
+    )
+  })
+
+  it("should group OR clauses of relationship constraints", () => {
+    const query = Owner.query().whereHas("notes", (notes) => notes.where("role", "a").orWhere("role", "b"))
+
+    expect(query.toSql()).toContain('AND (("role" = ? OR "role" = ?) AND "deleted_at" IS NULL))')
+    expect(query.toRawSql()).toContain(`AND (("role" = 'a' OR "role" = 'b') AND`)
+  })
+
+  it("should only soft delete rows that are not trashed", async () => {
+    const query = Note.query().where("role", "a").orWhere("role", "b")
+    const run = jest.spyOn((query as any).driver, "query").mockResolvedValue({ rows: [], rowCount: 2, affectedRows: 2 })
+
+    expect(await query.delete()).toBe(2)
+
+    const [sql, params] = run.mock.calls[0] as [string, any[]]
+    expect(sql).toBe('UPDATE "notes" SET "deleted_at" = ? WHERE ("role" = ? OR "role" = ?) AND "deleted_at" IS NULL')
+    expect(params).toEqual([expect.any(Date), "a", "b"])
+  })
+})
@@ -0,0 +1,39 @@
+import { QueryBuilder } from "@/index"
+import { useFakeScylla } from "../support/fakeScylla"
+import type { FakeScylla } from "../support/fakeScylla"
+
+const users = () => new QueryBuilder<any, { id: number; version: number }>("users")
+
+describe("QueryBuilder conditional writes", () => {
+  let scylla: FakeScylla
+
+  beforeEach(async () => {
+    scylla = await useFakeScylla()
+    scylla.respond(() => ({ rows: [], rowCount: 1, lwt: { applied: false, current: { version: 4 } } }))
+  })
+
+  it("should keep the row count of update() when the condition fails", async () => {
+    const updated = await users().where("id", 1).if("version", "=", 3).update({ version: 4 })
+
+    expect(updated).toBe(0)
+  })
+
+  it("should resolve updateIf() to the LWT result", async () => {
+    const result = await users().where("id", 1).if("version", "=", 3).updateIf({ version: 4 })
+
+    expect(result).toEqual({ applied: false, current: { version: 4 } })
+    expect(scylla.queries[0].cql).toContain("IF")
+  })
+
+  it("should resolve insertIfNotExists() to the LWT result", async () => {
+    const result = await users().insertIfNotExists({ id: 1 })
+
+    expect(result.applied).toBe(false)
+    expect(scylla.queries[0].cql).toContain("IF NOT EXISTS")
+  })
+
+  it("should require an if() condition for updateIf() and deleteIf()", async () => {
+    await expect(users().where("id", 1).updateIf({ version: 4 })).rejects.toThrow("if()")
+    await expect(users().where("id", 1).deleteIf()).rejects.toThrow("if()")
+  })
+})
@@ -0,0 +1,51 @@
+import { TokenRangeScanner } from "@/query/TokenRangeScanner"
+
+/** Query stub streaming `rowsPerRange` rows for every token range, after a varying delay */
+function fakeQuery(rowsPerRange: number) {
+  let calls = 0
+  return () =>
+    ({
+      whereTokenRange() {
+        return this
+      },
+      async *stream() {
+        await new Promise((resolve) => setTimeout(resolve, (calls++ % 3) * 5))
+        for (let i = 0; i < rowsPerRange; i++) {
+          yield { i }
+        }
+      },
+    }) as any
+}
+
+describe("TokenRangeScanner", () => {
+  describe("splitRing", () => {
+    it("should cover the whole token ring with contiguous ranges", () => {
+      const ranges = TokenRangeScanner.splitRing(4)
+
+      expect(ranges).toHaveLength(4)
+      expect(ranges[0].start).toBe("-9223372036854775808")
+      expect(ranges[3].end).toBe("9223372036854775807")
+      for (let i = 1; i < ranges.length; i++) {
+        expect(ranges[i].start).toBe(ranges[i - 1].end)
+      }
+    })
+
+    it("should reject a non-positive split count", () => {
+      expect(() => TokenRangeScanner.splitRing(0)).toThrow("positive integer")
+    })
+  })
+
+  describe("scan", () => {
+    it("should count every row when ranges complete out of order", async () => {
+      const scanner = new TokenRangeScanner(fakeQuery(3), ["device_id"])
+      const seen: unknown[] = []
+
+      const total = await scanner.scan({ splits: 12, concurrency: 4 }, (row) => {
+        seen.push(row)
+      })
+
+      expect(seen).toHaveLength(36)
+      expect(total).toBe(36)
+    })
+  })
+})
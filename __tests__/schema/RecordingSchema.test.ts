@@ -0,0 +1,57 @@
+import { ConnectionManager, RecordingSchema } from "@/index"
+import type { DatabaseDriver } from "@/index"
+
+describe("RecordingSchema", () => {
+  let driver: DatabaseDriver
+  let query: jest.Mock
+  let schema: RecordingSchema
+
+  beforeEach(async () => {
+    const connections = ConnectionManager.getInstance()
+    await connections.clear()
+    await connections.addConnection("default", { driver: "postgresql", database: "app" })
+
+    driver = connections.getConnection().getDriver()
+    query = jest.fn(async () => ({ rows: [], rowCount: 0 }))
+    driver.query = query
+    schema = new RecordingSchema(driver)
+  })
+
+  it("should record schema changes without executing them", async () => {
+    await schema.createTable("users", (table) => {
+      table.id()
+      table.string("email").unique()
+    })
+    await schema.dropTable("sessions")
+
+    expect(schema.getStatements()).toEqual([
+      'CREATE TABLE "users" ("id" INTEGER NOT NULL PRIMARY KEY, "email" VARCHAR(255) UNIQUE)',
+      'DROP TABLE "sessions"',
+    ])
+    expect(query).not.toHaveBeenCalled()
+  })
+
+  it("should still read the current schema from the database", async () => {
+    query.mockResolvedValue({ rows: [{ exists: 1 }], rowCount: 1 })
+
+    if (!(await schema.hasTable("users"))) {
+      await schema.createTable("users", (table) => table.id())
+    }
+
+    expect(query).toHaveBeenCalledTimes(1)
+    expect(schema.getStatements()).toEqual([])
+  })
+
+  it("should append the bindings of a raw statement as a comment", async () => {
+    await schema.raw("  UPDATE settings SET value = ? WHERE key = ?  ", ["on", "flag"])
+
+    expect(schema.getStatements()).toEqual(['UPDATE settings SET value = ? WHERE key = ? -- bindings: ["on","flag"]'])
+  })
+
+  it("should hand out a copy of the statements", async () => {
+    await schema.raw("DROP TABLE logs")
+    schema.getStatements().pop()
+
+    expect(schema.getStatements()).toEqual(["DROP TABLE logs"])
+  })
+})
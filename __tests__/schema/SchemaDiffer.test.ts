@@ -0,0 +1,164 @@
+import { ScyllaDBDriver, SchemaDiffer } from "@/index"
+import type { ColumnDefinition, TableDefinition } from "@/types"
+
+function table(name: string, columns: ColumnDefinition[], keys: Partial<TableDefinition> = {}): TableDefinition {
+  return { name, columns, partitionKeys: [], clusteringKeys: [], clusteringOrder: {}, ...keys }
+}
+
+/** Readings of a device per day, newest first */
+const readings = table(
+  "readings",
+  [
+    { name: "device_id", type: "uuid", primary: true },
+    { name: "ts", type: "timestamp", primary: true },
+    { name: "value", type: "double" },
+  ],
+  { partitionKeys: ["device_id"], clusteringKeys: ["ts"], clusteringOrder: { ts: "DESC" } },
+)
+
+describe("SchemaDiffer", () => {
+  let live: Record<string, TableDefinition>
+  let differ: SchemaDiffer
+
+  beforeEach(() => {
+    live = {}
+    const driver = new ScyllaDBDriver({ driver: "scylladb", keyspace: "app" })
+    driver.listTables = jest.fn(async () => Object.keys(live))
+    driver.describeTable = jest.fn(async (name: string) => live[name])
+    differ = new SchemaDiffer(driver)
+  })
+
+  /** Live readings table as describeTable() reports it, with CQL types */
+  const liveReadings = (columns: ColumnDefinition[] = [], keys: Partial<TableDefinition> = {}) =>
+    table(
+      "readings",
+      [
+        { name: "device_id", type: "uuid", primary: true },
+        { name: "ts", type: "timestamp", primary: true },
+        ...columns,
+      ],
+      { partitionKeys: ["device_id"], clusteringKeys: ["ts"], clusteringOrder: { ts: "DESC" }, ...keys },
+    )
+
+  describe("diff", () => {
+    it("should create a missing table with all its columns", async () => {
+      const diff = await differ.diff(readings)
+
+      expect(diff.create).toBe(true)
+      expect(diff.addedColumns.map((column) => column.name)).toEqual(["device_id", "ts", "value"])
+    })
+
+    it("should report added and dropped columns", async () => {
+      live.readings = liveReadings([{ name: "unit", type: "text" }])
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.create).toBe(false)
+      expect(diff.addedColumns.map((column) => column.name)).toEqual(["value"])
+      expect(diff.droppedColumns).toEqual(["unit"])
+      expect(diff.requiresCopy).toBe(false)
+    })
+
+    it("should compare column types as CQL types", async () => {
+      live.readings = liveReadings([{ name: "value", type: "float" }])
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.changedColumns).toEqual([{ name: "value", from: "float", to: "double" }])
+      expect(diff.requiresCopy).toBe(false)
+    })
+
+    it("should report nothing when the table matches", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }])
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.addedColumns).toEqual([])
+      expect(diff.droppedColumns).toEqual([])
+      expect(diff.changedColumns).toEqual([])
+      expect(diff.requiresCopy).toBe(false)
+    })
+
+    it("should require a copy when the partition key changes", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }], {
+        partitionKeys: ["device_id", "ts"],
+        clusteringKeys: [],
+      })
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.requiresCopy).toBe(true)
+      expect(diff.copyReasons).toEqual([
+        "partition key changes from (device_id, ts) to (device_id)",
+        "clustering key changes from () to (ts)",
+      ])
+    })
+
+    it("should require a copy when the clustering order changes", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }], { clusteringOrder: {} })
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.copyReasons).toEqual(["clustering order of 'ts' changes from ASC to DESC"])
+    })
+
+    it("should require a copy when a primary key column changes type", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }])
+      live.readings.columns[0].type = "text"
+
+      const diff = await differ.diff(readings)
+
+      expect(diff.copyReasons).toEqual(["primary key column 'device_id' changes type from text to uuid"])
+    })
+  })
+
+  describe("generateMigration", () => {
+    it("should return null when the schema is up to date", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }])
+
+      expect(await differ.generateMigration("SyncReadings", [readings])).toBeNull()
+    })
+
+    it("should create missing tables and drop them on down()", async () => {
+      const source = await differ.generateMigration("CreateReadings", [readings])
+
+      expect(source).toContain("export class CreateReadings extends Migration {")
+      expect(source).toContain(
+        [
+          "    await schema.createTable('readings', (table) => {",
+          "      table.uuid('device_id').primary();",
+          "      table.timestamp('ts').primary();",
+          "      table.double('value');",
+          "      table.partitionKey('device_id');",
+          "      table.clusteringKey('ts');",
+          "      table.clusteringOrder('ts', 'DESC');",
+          "    });",
+        ].join("\n"),
+      )
+      expect(source).toContain("    await schema.dropTable('readings');")
+    })
+
+    it("should add missing columns and comment out dropping unknown ones", async () => {
+      live.readings = liveReadings([{ name: "unit", type: "text" }])
+
+      const source = await differ.generateMigration("AddValueToReadings", [readings])
+
+      expect(source).toContain(
+        ["    await schema.alterTable('readings', (table) => {", "      table.double('value');", "    });"].join("\n"),
+      )
+      expect(source).toContain("    // await schema.raw('ALTER TABLE readings DROP unit');")
+      expect(source).toContain("    await schema.raw('ALTER TABLE readings DROP value');")
+    })
+
+    it("should create a copy of a table whose primary key changes", async () => {
+      live.readings = liveReadings([{ name: "value", type: "double" }], { clusteringOrder: { ts: "ASC" } })
+
+      const source = await differ.generateMigration("ReverseReadings", [readings])
+
+      expect(source).toContain("// 'readings' needs a table copy: clustering order of 'ts' changes from ASC to DESC.")
+      expect(source).toContain("await schema.createTable('readings_new', (table) => {")
+      expect(source).toContain("await schema.dropTable('readings_new');")
+      expect(source).not.toContain("schema.dropTable('readings')")
+    })
+  })
+})
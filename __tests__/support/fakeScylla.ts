@@ -0,0 +1,94 @@
+import { ConnectionManager } from "@/connection/ConnectionManager"
+import type { ScyllaDBDriver } from "@/drivers/ScyllaDBDriver"
+import type { QueryOptions, QueryResult } from "@/types"
+
+/** Table served by the fake cluster: key layout for the metadata, rows for SELECTs */
+export interface FakeTable {
+  partitionKeys?: string[]
+  clusteringKeys?: string[]
+  /** Secondary index targets, e.g. `email` or `values(tags)` */
+  indexes?: string[]
+  rows?: Record<string, any>[]
+}
+
+export interface FakeScylla {
+  driver: ScyllaDBDriver
+  /** Every statement sent through `driver.query()`, in order */
+  queries: { cql: string; params: any[] }[]
+  /** Overrides the result of statements the in-memory SELECT evaluator does not handle */
+  respond: (handler: (cql: string, params: any[]) => QueryResult | undefined) => void
+}
+
+/**
+ * Registers a ScyllaDB connection named "default" whose client never connects.
+ * SELECTs restricted with `col = ?` / `col IN (?, ...)` are answered from the tables' rows,
+ * one page at a time when a fetch size is given;
+ * anything else returns an empty result unless a `respond` handler answers it.
+ */
+export async function useFakeScylla(tables: Record<string, FakeTable> = {}): Promise<FakeScylla> {
+  const manager = ConnectionManager.getInstance()
+  await manager.clear()
+  await manager.addConnection("default", {
+    driver: "scylladb",
+    hosts: ["127.0.0.1"],
+    keyspace: "app",
+    localDataCenter: "datacenter1",
+  })
+
+  const driver = manager.getConnection().getDriver() as ScyllaDBDriver
+  const queries: FakeScylla["queries"] = []
+  let handler: (cql: string, params: any[]) => QueryResult | undefined = () => undefined
+
+  ;(driver as any).client = {
+    metadata: {
+      getTable: async (_keyspace: string, name: string) => {
+        const table = tables[name]
+        return (
+          table && {
+            partitionKeys: (table.partitionKeys ?? []).map((column) => ({ name: column })),
+            clusteringKeys: (table.clusteringKeys ?? []).map((column) => ({ name: column })),
+            indexes: (table.indexes ?? []).map((target) => ({ target })),
+          }
+        )
+      },
+    },
+  }
+
+  driver.query = jest.fn(async (cql: string, params: any[] = [], options: QueryOptions = {}) => {
+    queries.push({ cql, params })
+    return handler(cql, params) ?? page(select(tables, cql, params), options)
+  }) as any
+
+  return { driver, queries, respond: (next) => (handler = next) }
+}
+
+/** Evaluates `SELECT * FROM t [WHERE a = ? AND b IN (?, ?)]` against the fake rows */
+function select(tables: Record<string, FakeTable>, cql: string, params: any[]): QueryResult {
+  const from = /^SELECT .* FROM "?(\w+)"?/i.exec(cql)
+  if (!from) {
+    return { rows: [], rowCount: 0 }
+  }
+
+  const where = /WHERE (.*?)(?: ALLOW FILTERING| LIMIT| ORDER BY|$)/.exec(cql)?.[1] ?? ""
+  const filters: ((row: Record<string, any>) => boolean)[] = []
+  let index = 0
+  for (const [, column, operator, list] of where.matchAll(/"?(\w+)"? (=|IN) (\?|\([?, ]+\))/g)) {
+    const values = operator === "=" ? [params[index++]] : list.split("?").slice(1).map(() => params[index++])
+    filters.push((row) => values.some((value) => String(value) === String(row[column])))
+  }
+
+  const rows = (tables[from[1]]?.rows ?? []).filter((row) => filters.every((filter) => filter(row)))
+  return { rows: rows.map((row) => ({ ...row })), rowCount: rows.length }
+}
+
+/** Cuts a page of `fetchSize` rows; the page state is the index of the next row */
+function page(result: QueryResult, options: QueryOptions): QueryResult {
+  if (!options.fetchSize) {
+    return result
+  }
+
+  const start = Number(options.pageState ?? 0)
+  const end = start + options.fetchSize
+  const rows = result.rows.slice(start, end)
+  return { rows, rowCount: rows.length, pageState: end < result.rows.length ? String(end) : null }
+}
@@ -0,0 +1,595 @@
+import { existsSync, mkdirSync, readdirSync, writeFileSync } from "fs"
+import path from "path"
+import { pathToFileURL } from "url"
+import { ConnectionManager } from "@/connection/ConnectionManager"
+import { MigrationManager } from "@/migration/MigrationManager"
+import type { Migration } from "@/migration/Migration"
+import { SeederRunner } from "@/seeder/Seeder"
+import type { Seeder } from "@/seeder/Seeder"
+import type { DatabaseConfig, MigrationsConfig, PretendedMigration } from "@/types/index"
+import { factoryStub, migrationStub, modelStub, seederStub } from "./stubs"
+
+/** Parsed command line: the command, its positional arguments and `--options` */
+interface CliInput {
+  command: string
+  args: string[]
+  options: Record<string, string | boolean>
+}
+
+/** Config file names looked up in the working directory, in order */
+const CONFIG_FILES = ["scyllinx.config.ts", "scyllinx.config.js", "scyllinx.config.mjs", "scyllinx.config.cjs"]
+
+/**
+ * Command line interface behind `bin/scyllinx`.
+ * Loads `scyllinx.config.ts` from the working directory, discovers migration and seeder
+ * classes from the configured directories and runs them through `MigrationManager`
+ * and `SeederRunner`. TypeScript files are loaded through `tsx`, which must be installed
+ * in the project.
+ *
+ * @example
+ *
+ * // scyllinx.config.ts
+ * export default {
+ *   default: 'scylla',
+ *   connections: {
+ *     scylla: { driver: 'scylladb', hosts: ['127.0.0.1'], keyspace: 'app', localDataCenter: 'datacenter1' }
+ *   },
+ *   migrations: { directory: 'src/database/migrations', tableName: 'migrations' }
+ * } satisfies DatabaseConfig;
+ *
+ * // shell
+ * // npx scyllinx make:migration create_users_table
+ * // npx scyllinx migrate
+ * // npx scyllinx migrate:rollback --step=2
+ * // npx scyllinx db:seed --class=UserSeeder
+ *
+ */
+export class Cli {
+  private cwd: string
+  private typeScriptReady = false
+
+  /**
+   * Creates a new Cli instance.
+   *
+   * @param cwd - Project directory holding the config file; paths are resolved against it
+   */
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd
+  }
+
+  /**
+   * Runs a command.
+   *
+   * @param argv - Command line arguments without the node and script paths
+   * @returns Promise resolving to the process exit code
+   *
+   * @example
+   *
+   * process.exitCode = await new Cli().run(process.argv.slice(2));
+   *
+   */
+  public async run(argv: string[]): Promise<number> {
+    const input = this.parse(argv)
+
+    try {
+      switch (input.command) {
+        case "migrate":
+          await this.withMigrations(input, (manager, migrations) => this.migrate(manager, migrations, input))
+          break
+        case "migrate:rollback":
+          await this.withMigrations(input, (manager, migrations) => this.rollback(manager, migrations, input))
+          break
+        case "migrate:status":
+          await this.withMigrations(input, (manager, migrations) => this.status(manager, migrations))
+          break
+        case "migrate:fresh":
+          await this.withMigrations(input, async (manager, migrations) => {
+            await manager.fresh(migrations)
+            if (input.options.seed) {
+              await this.seed(input)
+            }
+          })
+          break
+        case "db:seed":
+          await this.withConnection(input, () => this.seed(input))
+          break
+        case "make:migration":
+          await this.makeMigration(input)
+          break
+        case "make:model":
+          await this.makeModel(input)
+          break
+        case "make:seeder":
+          await this.makeSeeder(input)
+          break
+        case "make:factory":
+          await this.makeFactory(input)
+          break
+        case "":
+        case "help":
+        case "--help":
+          this.help()
+          break
+        default:
+          console.error(`Unknown command '${input.command}'.`)
+          this.help()
+          return 1
+      }
+      return 0
+    } catch (error: any) {
+      console.error(error?.message ?? error)
+      return 1
+    }
+  }
+
+  /**
+   * Splits arguments into command, positionals and options.
+   * Options are `--name=value`, `--name value` or boolean `--flag`.
+   *
+   * @private
+   * @param argv - Command line arguments
+   * @returns Parsed input
+   */
+  private parse(argv: string[]): CliInput {
+    const [command = "", ...rest] = argv
+    const args: string[] = []
+    const options: Record<string, string | boolean> = {}
+
+    for (let i = 0; i < rest.length; i++) {
+      const arg = rest[i]
+      if (!arg.startsWith("--")) {
+        args.push(arg)
+        continue
+      }
+
+      const [name, value] = arg.slice(2).split(/=(.*)/s)
+      if (value !== undefined) {
+        options[name] = value
+      } else if (rest[i + 1] !== undefined && !rest[i + 1].startsWith("--") && name !== "pretend" && name !== "seed") {
+        options[name] = rest[++i]
+      } else {
+        options[name] = true
+      }
+    }
+
+    return { command, args, options }
+  }
+
+  /**
+   * Runs `migrate`, printing the statements instead with `--pretend`.
+   *
+   * @private
+   */
+  private async migrate(manager: MigrationManager, migrations: Migration[], input: CliInput): Promise<void> {
+    if (input.options.pretend) {
+      this.printPretended(await manager.migrate(migrations, { pretend: true }))
+      return
+    }
+    await manager.migrate(migrations)
+  }
+
+  /**
+   * Runs `migrate:rollback` with `--step`, `--batch` and `--pretend`.
+   *
+   * @private
+   */
+  private async rollback(manager: MigrationManager, migrations: Migration[], input: CliInput): Promise<void> {
+    const options = {
+      steps: input.options.step !== undefined ? this.integerOption(input, "step") : undefined,
+      batch: input.options.batch !== undefined ? this.integerOption(input, "batch") : undefined,
+    }
+
+    if (input.options.pretend) {
+      this.printPretended(await manager.rollback(migrations, { ...options, pretend: true }))
+      return
+    }
+    await manager.rollback(migrations, options)
+  }
+
+  /**
+   * Prints a table of executed and pending migrations.
+   *
+   * @private
+   */
+  private async status(manager: MigrationManager, migrations: Migration[]): Promise<void> {
+    const rows = (await manager.status(migrations)).map((migration) => [
+      migration.executed ? "Ran" : "Pending",
+      migration.batch !== undefined ? String(migration.batch) : "",
+      migration.name,
+      migration.executedAt ? migration.executedAt.toISOString() : "",
+    ])
+
+    const header = ["Status", "Batch", "Migration", "Executed at"]
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)))
+    for (const row of [header, ...rows]) {
+      console.log(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+    }
+  }
+
+  /**
+   * Runs seeders: the one named by `--class`, else `DatabaseSeeder` when it exists, else all of them.
+   * Factories are loaded first so seeders can use them.
+   *
+   * @private
+   */
+  private async seed(input: CliInput): Promise<void> {
+    const { config } = await this.loadConfig(input)
+    const migrations = this.migrationsConfig(config)
+
+    await this.loadDirectory(this.resolve(migrations.factoriesDirectory!))
+    const seeders = await this.loadClasses<new () => Seeder>(
+      this.resolve(migrations.seedersDirectory!),
+      (value) => typeof value.prototype?.run === "function",
+    )
+
+    const name = input.options.class
+    if (typeof name === "string") {
+      const seeder = seeders.find((s) => s.name === name)
+      if (!seeder) {
+        throw new Error(`Seeder '${name}' not found in ${migrations.seedersDirectory}`)
+      }
+      await SeederRunner.runOne(seeder)
+      return
+    }
+
+    const databaseSeeder = seeders.find((s) => s.name === "DatabaseSeeder")
+    await SeederRunner.run(databaseSeeder ? [databaseSeeder] : seeders)
+  }
+
+  /**
+   * Writes a timestamped migration file.
+   * `create_x_table` names get a createTable skeleton and `..._to_x_table` names an
+   * alterTable one, unless `--create` or `--table` is given.
+   *
+   * @private
+   */
+  private async makeMigration(input: CliInput): Promise<void> {
+    const name = this.snake(this.requireName(input, "make:migration create_users_table"))
+    const { config } = await this.loadConfig(input, false)
+    const directory = this.resolve(this.migrationsConfig(config).directory)
+
+    const create = typeof input.options.create === "string" ? input.options.create : name.match(/^create_(\w+)_table$/)?.[1]
+    const table =
+      typeof input.options.table === "string" ? input.options.table : name.match(/_(?:to|from|in)_(\w+)_table$/)?.[1]
+
+    const file = path.join(directory, `${this.timestamp()}_${name}.ts`)
+    this.writeFile(file, migrationStub(this.studly(name), create ? { create } : { table }))
+  }
+
+  /**
+   * Writes a model file to `--path` (default `src/models`).
+   *
+   * @private
+   */
+  private async makeModel(input: CliInput): Promise<void> {
+    const name = this.studly(this.requireName(input, "make:model Post"))
+    const directory = this.resolve(typeof input.options.path === "string" ? input.options.path : "src/models")
+    const table = typeof input.options.table === "string" ? input.options.table : `${this.snake(name)}s`
+
+    this.writeFile(path.join(directory, `${name}.ts`), modelStub(name, table))
+  }
+
+  /**
+   * Writes a seeder file to the seeders directory.
+   *
+   * @private
+   */
+  private async makeSeeder(input: CliInput): Promise<void> {
+    const name = this.studly(this.requireName(input, "make:seeder UserSeeder"))
+    const { config } = await this.loadConfig(input, false)
+    const directory = this.resolve(this.migrationsConfig(config).seedersDirectory!)
+
+    this.writeFile(path.join(directory, `${name}.ts`), seederStub(name))
+  }
+
+  /**
+   * Writes a factory file to the factories directory for `--model` (default: the name without `Factory`).
+   * The model is imported from `--models` (default `src/models`).
+   *
+   * @private
+   */
+  private async makeFactory(input: CliInput): Promise<void> {
+    const name = this.studly(this.requireName(input, "make:factory UserFactory --model=User"))
+    const model = typeof input.options.model === "string" ? input.options.model : name.replace(/Factory$/, "")
+    const { config } = await this.loadConfig(input, false)
+    const directory = this.resolve(this.migrationsConfig(config).factoriesDirectory!)
+    const models = this.resolve(typeof input.options.models === "string" ? input.options.models : "src/models")
+
+    let modelImport = path.relative(directory, path.join(models, model)).split(path.sep).join("/")
+    if (!modelImport.startsWith(".")) {
+      modelImport = `./${modelImport}`
+    }
+
+    this.writeFile(path.join(directory, `${name}.ts`), factoryStub(name, model, modelImport))
+  }
+
+  /**
+   * Connects, loads the migrations and runs a callback with a MigrationManager, then disconnects.
+   *
+   * @private
+   */
+  private async withMigrations(
+    input: CliInput,
+    callback: (manager: MigrationManager, migrations: Migration[]) => Promise<void>,
+  ): Promise<void> {
+    await this.withConnection(input, async (config) => {
+      const migrationsConfig = this.migrationsConfig(config)
+      const migrations = (
+        await this.loadClasses<new () => Migration>(
+          this.resolve(migrationsConfig.directory),
+          (value) => typeof value.prototype?.up === "function" && typeof value.prototype?.down === "function",
+        )
+      ).map((MigrationClass) => new MigrationClass())
+
+      await callback(new MigrationManager(ConnectionManager.getInstance(), migrationsConfig), migrations)
+    })
+  }
+
+  /**
+   * Connects the connection named by `--connection` (the config's default otherwise) around a callback.
+   * It becomes the default connection, so migrations and seeders run against it;
+   * the other configured connections are registered but not connected.
+   *
+   * @private
+   */
+  private async withConnection(input: CliInput, callback: (config: DatabaseConfig) => Promise<void>): Promise<void> {
+    const { config } = await this.loadConfig(input)
+    const connections = ConnectionManager.getInstance()
+    const name = typeof input.options.connection === "string" ? input.options.connection : config.default
+
+    await connections.initialize(config)
+    try {
+      if (!connections.hasConnection(name)) {
+        throw new Error(`Connection '${name}' is not configured.`)
+      }
+      connections.setDefaultConnection(name)
+      await connections.getConnection(name).connect()
+      await callback(config)
+    } finally {
+      await connections.disconnectAll()
+    }
+  }
+
+  /**
+   * Loads the config file named by `--config`, or the first `scyllinx.config.*` in the project.
+   * The config is the default export, or a `config` export.
+   *
+   * @private
+   * @param input - Parsed command line
+   * @param required - Whether a missing config file is an error; make commands fall back to defaults
+   * @returns The database config
+   */
+  private async loadConfig(input: CliInput, required = true): Promise<{ config: DatabaseConfig }> {
+    const file =
+      typeof input.options.config === "string"
+        ? this.resolve(input.options.config)
+        : CONFIG_FILES.map((name) => this.resolve(name)).find((candidate) => existsSync(candidate))
+
+    if (!file || !existsSync(file)) {
+      if (!required) {
+        return { config: { default: "default", connections: {} } }
+      }
+      throw new Error(`No config file found; create ${CONFIG_FILES[0]} or pass --config <path>.`)
+    }
+
+    const exports = await this.importFile(file)
+    const config = exports.default?.connections ? exports.default : exports.config ?? exports.default?.default
+    if (!config?.connections) {
+      throw new Error(`${file} must export a DatabaseConfig as its default export.`)
+    }
+    return { config }
+  }
+
+  /**
+   * Fills in the directories of the migrations config.
+   *
+   * @private
+   */
+  private migrationsConfig(config: DatabaseConfig): MigrationsConfig {
+    const directory = config.migrations?.directory ?? "src/database/migrations"
+    return {
+      tableName: "migrations",
+      ...config.migrations,
+      directory,
+      seedersDirectory: config.migrations?.seedersDirectory ?? path.join(path.dirname(directory), "seeders"),
+      factoriesDirectory: config.migrations?.factoriesDirectory ?? path.join(path.dirname(directory), "factories"),
+    }
+  }
+
+  /**
+   * Imports every file of a directory in file name order and collects the exported classes that match.
+   *
+   * @private
+   * @param directory - Absolute directory path
+   * @param isMatch - Whether an export is one of the wanted classes
+   * @returns Matching classes, in file order
+   */
+  private async loadClasses<T>(directory: string, isMatch: (value: any) => boolean): Promise<T[]> {
+    const classes: T[] = []
+
+    for (const exports of await this.loadDirectory(directory)) {
+      for (const value of Object.values(exports)) {
+        if (typeof value === "function" && isMatch(value) && !classes.includes(value as T)) {
+          classes.push(value as T)
+        }
+      }
+    }
+
+    return classes
+  }
+
+  /**
+   * Imports every script of a directory in file name order.
+   * Timestamped migration file names make this the order they were created in.
+   *
+   * @private
+   * @param directory - Absolute directory path; a missing directory loads nothing
+   * @returns Exports of each file
+   */
+  private async loadDirectory(directory: string): Promise<Record<string, any>[]> {
+    if (!existsSync(directory)) {
+      return []
+    }
+
+    const files = readdirSync(directory)
+      .filter((file) => /\.(ts|js|mjs|cjs)$/.test(file) && !file.endsWith(".d.ts"))
+      .sort()
+
+    const modules: Record<string, any>[] = []
+    for (const file of files) {
+      modules.push(await this.importFile(path.join(directory, file)))
+    }
+    return modules
+  }
+
+  /**
+   * Imports a script, registering the `tsx` loader first for TypeScript files.
+   *
+   * @private
+   * @param file - Absolute file path
+   * @returns Module exports
+   */
+  private async importFile(file: string): Promise<Record<string, any>> {
+    if (/\.[cm]?ts$/.test(file) && !this.typeScriptReady) {
+      // Resolved at runtime from the project, tsx is not a dependency of scyllinx
+      const loader = "tsx/esm/api"
+      try {
+        const { register } = await import(loader)
+        register()
+      } catch {
+        throw new Error(`Loading ${path.basename(file)} needs the 'tsx' package: npm install --save-dev tsx`)
+      }
+      this.typeScriptReady = true
+    }
+
+    return await import(pathToFileURL(file).href)
+  }
+
+  /**
+   * Writes a generated file, refusing to overwrite an existing one.
+   *
+   * @private
+   */
+  private writeFile(file: string, contents: string): void {
+    if (existsSync(file)) {
+      throw new Error(`${path.relative(this.cwd, file)} already exists.`)
+    }
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, contents)
+    console.log(`Created ${path.relative(this.cwd, file)}`)
+  }
+
+  /**
+   * Prints the statements of a pretend run, one block per migration.
+   *
+   * @private
+   */
+  private printPretended(pretended: PretendedMigration[]): void {
+    if (pretended.length === 0) {
+      console.log("Nothing to run.")
+    }
+    for (const { migration, statements } of pretended) {
+      console.log(`-- ${migration}`)
+      for (const statement of statements) {
+        console.log(`${statement};`)
+      }
+      console.log("")
+    }
+  }
+
+  /**
+   * Reads a positive integer option.
+   *
+   * @private
+   * @throws {Error} When the value is not a positive integer
+   */
+  private integerOption(input: CliInput, name: string): number {
+    const value = Number(input.options[name])
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`--${name} must be a positive integer.`)
+    }
+    return value
+  }
+
+  /**
+   * Gets the name argument of a make command.
+   *
+   * @private
+   * @throws {Error} When no name is given
+   */
+  private requireName(input: CliInput, usage: string): string {
+    const [name] = input.args
+    if (!name) {
+      throw new Error(`Missing name. Usage: scyllinx ${usage}`)
+    }
+    return name
+  }
+
+  /**
+   * Current UTC time as `YYYY_MM_DD_HHMMSS`, the migration file name prefix.
+   *
+   * @private
+   */
+  private timestamp(): string {
+    const iso = new Date().toISOString()
+    return `${iso.slice(0, 10).replace(/-/g, "_")}_${iso.slice(11, 19).replace(/:/g, "")}`
+  }
+
+  /**
+   * Converts a name to snake_case (`CreateUsersTable` → `create_users_table`).
+   *
+   * @private
+   */
+  private snake(name: string): string {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[-\s]+/g, "_")
+      .toLowerCase()
+  }
+
+  /**
+   * Converts a name to StudlyCase (`create_users_table` → `CreateUsersTable`).
+   *
+   * @private
+   */
+  private studly(name: string): string {
+    return name
+      .split(/[_\-\s]+/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join("")
+  }
+
+  /**
+   * Resolves a path against the project directory.
+   *
+   * @private
+   */
+  private resolve(target: string): string {
+    return path.resolve(this.cwd, target)
+  }
+
+  /**
+   * Prints the available commands.
+   *
+   * @private
+   */
+  private help(): void {
+    console.log(`Usage: scyllinx <command> [options]
+
+Commands:
+  migrate                   Run pending migrations (--pretend prints the statements)
+  migrate:rollback          Roll back the last batch (--step=N, --batch=N, --pretend)
+  migrate:status            Show executed and pending migrations
+  migrate:fresh             Drop all tables and run every migration (--seed to seed afterwards)
+  db:seed                   Run DatabaseSeeder, or every seeder (--class=Name for one)
+  make:migration <name>     Create a timestamped migration (--create=table, --table=table)
+  make:model <Name>         Create a model (--table=name, --path=src/models)
+  make:seeder <Name>        Create a seeder
+  make:factory <Name>       Create a factory (--model=Name, --models=src/models)
+
+Options:
+  --config <path>           Config file (default: ${CONFIG_FILES[0]})
+  --connection <name>       Connection to run against (default: the config's default connection)`)
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Source templates for the `make:*` commands of the CLI.
+ * Generated files import from the published package and follow the style of the guide's examples.
+ */
+
+/**
+ * Migration class source.
+ * A `create` table gets a `createTable()`/`dropTable()` pair, a `table` an `alterTable()` skeleton.
+ *
+ * @param className - Migration class name
+ * @param options - Table to create or alter
+ * @returns TypeScript source
+ */
+export function migrationStub(className: string, options: { create?: string; table?: string } = {}): string {
+  let up = "    // Add your migration logic here"
+  let down = "    // Add your rollback logic here"
+
+  if (options.create) {
+    up = [
+      `    await schema.createTable('${options.create}', (table) => {`,
+      "      table.uuid('id').primary();",
+      "      table.timestamps();",
+      "    });",
+    ].join("\n")
+    down = `    await schema.dropTable('${options.create}');`
+  } else if (options.table) {
+    up = [`    await schema.alterTable('${options.table}', (table) => {`, "      // table.text('column');", "    });"].join("\n")
+  }
+
+  return `import { Migration, Schema } from 'scyllinx';
+
+export class ${className} extends Migration {
+  async up(schema: Schema): Promise<void> {
+${up}
+  }
+
+  async down(schema: Schema): Promise<void> {
+${down}
+  }
+}
+`
+}
+
+/**
+ * Model class source with an attributes interface.
+ *
+ * @param className - Model class name
+ * @param table - Table name
+ * @returns TypeScript source
+ */
+export function modelStub(className: string, table: string): string {
+  return `import { Model } from 'scyllinx';
+
+export interface ${className}Attributes {
+  id: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export class ${className} extends Model<${className}Attributes> {
+  protected static table = '${table}';
+  protected static primaryKey = 'id';
+  protected static fillable: string[] = [];
+}
+`
+}
+
+/**
+ * Seeder class source.
+ *
+ * @param className - Seeder class name
+ * @returns TypeScript source
+ */
+export function seederStub(className: string): string {
+  return `import { ModelFactory, Seeder } from 'scyllinx';
+
+export class ${className} extends Seeder {
+  async run(): Promise<void> {
+    // await this.factory(() => ModelFactory.for('User')).times(10).create();
+  }
+}
+`
+}
+
+/**
+ * Factory definition source, registered under the model name with `defineFactory()`.
+ * The model is registered too, since factories look their model up in the ModelRegistry.
+ *
+ * @param factoryName - Exported constant name
+ * @param modelName - Model class the factory creates
+ * @param modelImport - Import path of the model, relative to the factory file
+ * @returns TypeScript source
+ */
+export function factoryStub(factoryName: string, modelName: string, modelImport: string): string {
+  return `import { ModelRegistry, defineFactory } from 'scyllinx';
+import { ${modelName}, ${modelName}Attributes } from '${modelImport}';
+
+ModelRegistry.getInstance().register('${modelName}', ${modelName});
+
+export const ${factoryName} = defineFactory<${modelName}, ${modelName}Attributes>('${modelName}', {
+  // name: (faker) => faker.person.fullName(),
+  created_at: () => new Date(),
+  updated_at: () => new Date(),
+});
+`
+}
@@ -0,0 +1,345 @@
+import { QueryBuilder } from "@/query/QueryBuilder"
+import { ScyllaDBGrammar } from "@/drivers/grammars/ScyllaDBGrammar"
+import type { ScyllaDBDriver } from "@/drivers/ScyllaDBDriver"
+import type { Connection } from "./Connection"
+import type { Model } from "@/model/Model"
+import type { BatchOptions, BatchStatement, QueryResult } from "@/types/index"
+
+/**
+ * A recorded batch statement, with the partition it targets when known.
+ */
+interface RecordedStatement extends BatchStatement {
+  table?: string
+  keys?: Record<string, any>
+  counter?: boolean
+  conditional?: boolean
+}
+
+/**
+ * Collects writes and sends them to the database as one batch.
+ * Created by `Connection.batch()`; query builder writes and model saves routed
+ * through it are recorded instead of executed.
+ *
+ * @example
+ * 
+ * await connection.batch((b) => {
+ *   b.insert('events', { device_id: 'd1', ts: now, value: 42 });
+ *   b.update('devices', { last_seen: now }, { id: 'd1' });
+ *   b.delete('alerts', { device_id: 'd1', id: alertId });
+ *   b.save(device);
+ * }, { type: 'unlogged' });
+ * 
+ */
+export class Batch {
+  /** Statements recorded so far */
+  private statements: RecordedStatement[] = []
+
+  /** Writes still compiling their statements */
+  private pending: Promise<unknown>[] = []
+
+  /** Callbacks run with the batch result once it executes */
+  private checks: ((result: QueryResult) => void)[] = []
+
+  /**
+   * Creates a new Batch instance.
+   *
+   * @param connection - Connection the batch will be executed on
+   */
+  constructor(private connection: Connection) {}
+
+  /**
+   * Creates a query builder whose writes are recorded in this batch.
+   * Await (or return) its insert/update/delete calls inside the batch callback.
+   *
+   * @param table - Table to write to
+   * @returns QueryBuilder bound to the batch
+   *
+   * @example
+   * 
+   * const result = await connection.batch(async (b) => {
+   *   await b.table('users').where('id', id).if('version', '=', 3).update({ version: 4 });
+   * });
+   *
+   * // Conditional batches are applied as a whole or not at all
+   * if (!result.lwt?.applied) {
+   *   console.log('Version changed, current:', result.lwt?.current?.version);
+   * }
+   * 
+   */
+  public table(table: string): QueryBuilder<any, any> {
+    return new QueryBuilder<any, any>(table, this.connection.getName()).inBatch(this)
+  }
+
+  /**
+   * Records an INSERT.
+   *
+   * @param table - Table to insert into
+   * @param values - Column values
+   * @returns Batch instance for method chaining
+   */
+  public insert(table: string, values: Record<string, any>): this {
+    return this.track(this.table(table).insert(values))
+  }
+
+  /**
+   * Records an UPDATE of the rows matching the given column values.
+   *
+   * @param table - Table to update
+   * @param values - Column values to set
+   * @param where - Column values identifying the rows
+   * @returns Batch instance for method chaining
+   */
+  public update(table: string, values: Record<string, any>, where: Record<string, any>): this {
+    return this.track(this.table(table).where(where).update(values))
+  }
+
+  /**
+   * Records a counter increment of the rows matching the given column values.
+   * A batch made only of increments is sent as a COUNTER batch.
+   *
+   * @param table - Table to update
+   * @param column - Counter column
+   * @param amount - Amount to add
+   * @param where - Column values identifying the rows
+   * @returns Batch instance for method chaining
+   *
+   * @example
+   * 
+   * await connection.batch((b) => {
+   *   b.increment('page_views', 'views', 1, { page: '/home' });
+   *   b.decrement('stock_levels', 'available', 2, { sku: 'A-1' });
+   * });
+   * 
+   */
+  public increment(table: string, column: string, amount: number, where: Record<string, any>): this {
+    return this.track(this.table(table).where(where).increment(column, amount))
+  }
+
+  /**
+   * Records a counter decrement of the rows matching the given column values.
+   *
+   * @param table - Table to update
+   * @param column - Counter column
+   * @param amount - Amount to subtract
+   * @param where - Column values identifying the rows
+   * @returns Batch instance for method chaining
+   */
+  public decrement(table: string, column: string, amount: number, where: Record<string, any>): this {
+    return this.track(this.table(table).where(where).decrement(column, amount))
+  }
+
+  /**
+   * Records a DELETE of the rows matching the given column values.
+   *
+   * @param table - Table to delete from
+   * @param where - Column values identifying the rows
+   * @returns Batch instance for method chaining
+   */
+  public delete(table: string, where: Record<string, any>): this {
+    return this.track(this.table(table).where(where).delete())
+  }
+
+  /**
+   * Records the write performed by saving a model.
+   * Model events fire immediately; the row is only written when the batch executes.
+   *
+   * @param model - Model instance to save
+   * @returns Batch instance for method chaining
+   */
+  public save(model: Model<any>): this {
+    return this.track(model.save({ batch: this }))
+  }
+
+  /**
+   * Records a raw CQL statement.
+   *
+   * @param query - CQL statement
+   * @param params - Statement parameters
+   * @returns Batch instance for method chaining
+   */
+  public raw(query: string, params: any[] = []): this {
+    this.statements.push({ query, params })
+    return this
+  }
+
+  /**
+   * Records a compiled statement. Used by query builders bound to the batch.
+   *
+   * @param query - Compiled statement
+   * @param params - Statement parameters
+   * @param table - Target table, used to detect multi-partition batches
+   * @param keys - Column values the statement is restricted to
+   * @param counter - Whether the statement only increments counter columns
+   * @param conditional - Whether the statement carries `if()` / `ifNotExists()` conditions
+   */
+  public add(
+    query: string,
+    params: any[],
+    table?: string,
+    keys?: Record<string, any>,
+    counter = false,
+    conditional = false,
+  ): void {
+    this.statements.push({ query, params, table, keys, counter, conditional })
+  }
+
+  /**
+   * Registers a callback run with the batch result once it executes.
+   * A callback that throws makes `execute()` reject with its error.
+   *
+   * @param check - Callback receiving the batch result
+   * @returns Batch instance for method chaining
+   *
+   * @example
+   * 
+   * batch.afterExecute(({ lwt }) => {
+   *   if (lwt && !lwt.applied) throw new Error('Condition failed');
+   * });
+   * 
+   */
+  public afterExecute(check: (result: QueryResult) => void): this {
+    this.checks.push(check)
+    return this
+  }
+
+  /**
+   * Gets the recorded statements.
+   *
+   * @returns Array of statements in recording order
+   */
+  public getStatements(): BatchStatement[] {
+    return this.statements.map(({ query, params }) => ({ query, params }))
+  }
+
+  /**
+   * Waits for the writes still recording their statements and drops everything recorded.
+   * Used when the batch callback fails, so no write is left running or rejecting unobserved.
+   *
+   * @returns Promise that resolves once every pending write has settled
+   */
+  public async discard(): Promise<void> {
+    await Promise.allSettled(this.pending)
+    this.pending = []
+    this.statements = []
+    this.checks = []
+  }
+
+  /**
+   * Executes the recorded statements.
+   * ScyllaDB receives a single BATCH (a COUNTER batch when every statement is an
+   * increment and no type is given); other drivers run the statements in a transaction.
+   * As on ScyllaDB, conditional statements are applied together or not at all: on other
+   * drivers a conditional statement that affects no rows rolls the transaction back and
+   * the result reports `lwt.applied` as false.
+   *
+   * @param options - Batch type, consistency level and write timestamp
+   * @returns Promise resolving to the batch result
+   * @throws {Error} When a callback registered with `afterExecute()` throws
+   * @throws {Error} When a write timestamp is given and the database is not ScyllaDB
+   */
+  public async execute(options: BatchOptions = {}): Promise<QueryResult> {
+    await Promise.all(this.pending)
+
+    if (!this.statements.length) {
+      return { rows: [], rowCount: 0 }
+    }
+
+    const result = await this.run(options)
+    for (const check of this.checks) {
+      check(result)
+    }
+    return result
+  }
+
+  /**
+   * Sends the recorded statements to the database.
+   *
+   * @param options - Batch type, consistency level and write timestamp
+   * @returns Promise resolving to the batch result
+   */
+  private async run(options: BatchOptions): Promise<QueryResult> {
+    const driver = this.connection.getDriver() as ScyllaDBDriver
+    if (driver.getGrammar() instanceof ScyllaDBGrammar) {
+      this.warnOnMultiplePartitions(await this.partitionsOf((table) => driver.getPartitionKeys(table)))
+      const counter = this.statements.every((statement) => statement.counter)
+      return await driver.batch(this.getStatements(), { type: counter ? "counter" : undefined, ...options })
+    }
+    if (options.timestamp !== undefined) {
+      throw new Error("Batch write timestamps are only supported on ScyllaDB.")
+    }
+
+    const conditional = this.statements.some((statement) => statement.conditional)
+    const notApplied = new Error("A conditional batch statement affected no rows.")
+    try {
+      return await this.connection.transaction(async (trx) => {
+        for (const statement of this.statements) {
+          const result = await trx.query(statement.query, statement.params)
+          if (statement.conditional && !(result.affectedRows ?? result.rowCount)) {
+            throw notApplied
+          }
+        }
+        return { rows: [], rowCount: this.statements.length, lwt: conditional ? { applied: true } : undefined }
+      })
+    } catch (error) {
+      if (error === notApplied) {
+        return { rows: [], rowCount: 0, lwt: { applied: false } }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Tracks a write that records its statement asynchronously.
+   *
+   * @param write - Pending write
+   * @returns Batch instance for method chaining
+   */
+  private track(write: Promise<unknown>): this {
+    // Observed right away so a write failing before execute() awaits it is not an unhandled
+    // rejection; execute() still rejects with its error
+    write.catch(() => {})
+    this.pending.push(write)
+    return this
+  }
+
+  /**
+   * Collects the distinct partitions targeted by the recorded statements.
+   * Statements whose partition key values are unknown are skipped.
+   *
+   * @param partitionKeysOf - Resolves the partition key columns of a table
+   * @returns Promise resolving to the set of partition identifiers
+   */
+  private async partitionsOf(partitionKeysOf: (table: string) => Promise<string[]>): Promise<Set<string>> {
+    const partitions = new Set<string>()
+    const partitionKeys = new Map<string, string[]>()
+
+    for (const { table, keys } of this.statements) {
+      if (!table || !keys) continue
+
+      if (!partitionKeys.has(table)) {
+        partitionKeys.set(table, await partitionKeysOf(table))
+      }
+      const columns = partitionKeys.get(table)!
+      if (!columns.length || columns.some((column) => !(column in keys))) continue
+
+      partitions.add(JSON.stringify([table, ...columns.map((column) => String(keys[column]))]))
+    }
+
+    return partitions
+  }
+
+  /**
+   * Warns when a batch writes to more than one partition, which forces the
+   * coordinator to contact several replica sets and defeats the purpose of batching.
+   *
+   * @param partitions - Distinct partitions targeted by the batch
+   */
+  private warnOnMultiplePartitions(partitions: Set<string>): void {
+    if (partitions.size > 1) {
+      console.warn(
+        `Batch spans ${partitions.size} partitions. Multi-partition batches put extra load on the coordinator; ` +
+          "prefer single-partition batches or concurrent writes.",
+      )
+    }
+  }
+}
@@ -1,5 +1,7 @@
 import type { DatabaseDriver } from "@/drivers/DatabaseDriver"
-import type { ConnectionConfig, QueryResult } from "@/types/index"
+import type { BatchOptions, ConnectionConfig, QueryResult } from "@/types/index"
+import { Transaction } from "./Transaction"
+import { Batch } from "./Batch"
 
 /**
  * Represents a database connection with its associated driver and configuration.
@@ -155,6 +157,77 @@ export class Connection {
     return await this.driver.query(query, params)
   }
 
+  /**
+   * Runs a callback inside a transaction on a dedicated physical connection.
+   * The transaction is committed when the callback resolves and rolled back when it throws.
+   * Use `trx.transaction()` inside the callback for nested savepoints.
+   *
+   * @param callback - Work to run inside the transaction
+   * @returns Promise resolving to the callback's result
+   *
+   * @throws {Error} When the connection is not established or the driver has no transactions
+   *
+   * @example
+   * 
+   * const order = await connection.transaction(async (trx) => {
+   *   const order = new Order({ total: 100 });
+   *   await order.save({ trx });
+   *   await Stock.query({ trx }).where('sku', 'A-1').update({ reserved: true });
+   *   return order;
+   * });
+   * 
+   */
+  public async transaction<T>(callback: (trx: Transaction) => Promise<T>): Promise<T> {
+    if (!this.connected) {
+      throw new Error(`Connection '${this.name}' is not connected`)
+    }
+
+    const session = await this.driver.beginTransactionSession()
+    return await new Transaction(this, session).run(callback)
+  }
+
+  /**
+   * Records the writes made in a callback and executes them as one batch.
+   * On ScyllaDB this is a single BATCH statement (a warning is logged when it spans
+   * several partitions); other drivers run the statements in a transaction.
+   *
+   * @param callback - Records writes through the batch builder
+   * @param options - Batch type (logged, unlogged, counter), consistency level and write timestamp
+   * @returns Promise resolving to the batch result
+   *
+   * @throws {Error} When the connection is not established or the batch fails
+   *
+   * @example
+   * 
+   * await connection.batch((b) => {
+   *   b.insert('events', { device_id: 'd1', ts: new Date(), value: 42 });
+   *   b.update('devices', { last_seen: new Date() }, { id: 'd1' });
+   *   b.save(device);
+   * }, { type: 'unlogged', consistency: 'localOne' });
+   *
+   * await connection.batch((b) => {
+   *   b.raw('UPDATE page_views SET views = views + 1 WHERE page = ?', ['/home']);
+   * }, { type: 'counter' });
+   * 
+   */
+  public async batch(
+    callback: (batch: Batch) => void | Promise<void>,
+    options: BatchOptions = {},
+  ): Promise<QueryResult> {
+    if (!this.connected) {
+      throw new Error(`Connection '${this.name}' is not connected`)
+    }
+
+    const batch = new Batch(this)
+    try {
+      await callback(batch)
+    } catch (error) {
+      await batch.discard()
+      throw error
+    }
+    return await batch.execute(options)
+  }
+
   /**
    * Begins a database transaction.
    * Note: ScyllaDB has limited transaction support compared to traditional RDBMS.
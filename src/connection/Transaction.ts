@@ -0,0 +1,198 @@
+import { DatabaseDriver } from "@/drivers/DatabaseDriver"
+import type { Connection } from "./Connection"
+import type { QueryOptions, QueryResult, TransactionSession } from "@/types/index"
+
+/**
+ * A database transaction bound to a single physical connection.
+ * Created by `Connection.transaction()`; pass it to `Model.query({ trx })`,
+ * `model.save({ trx })` or `QueryBuilder.transacting(trx)` to run queries inside it.
+ * Nested transactions are implemented with savepoints.
+ *
+ * @example
+ * 
+ * await connection.transaction(async (trx) => {
+ *   const account = await Account.query({ trx }).where('id', 1).first();
+ *   account.balance -= 100;
+ *   await account.save({ trx });
+ *
+ *   // Rolled back to a savepoint on failure, without aborting the outer transaction
+ *   await trx.transaction(async (nested) => {
+ *     await AuditLog.query({ trx: nested }).insert({ account_id: 1, amount: -100 });
+ *   }).catch(() => {});
+ * });
+ * 
+ */
+export class Transaction {
+  /** Driver view that routes queries through this transaction */
+  private driver?: DatabaseDriver
+
+  /** Whether the transaction has been committed or rolled back */
+  private completed = false
+
+  /**
+   * Creates a new Transaction instance.
+   *
+   * @param connection - Connection the transaction was started on
+   * @param session - Driver transaction session pinned to one physical connection
+   * @param savepoint - Savepoint name when this is a nested transaction
+   * @param depth - Nesting depth (0 for the outermost transaction)
+   */
+  constructor(
+    private connection: Connection,
+    private session: TransactionSession,
+    private savepoint?: string,
+    private depth = 0,
+  ) {}
+
+  /**
+   * Gets the connection the transaction was started on.
+   *
+   * @returns The owning connection
+   */
+  public getConnection(): Connection {
+    return this.connection
+  }
+
+  /**
+   * Gets a driver that executes every query inside this transaction.
+   * It shares grammar, features and configuration with the connection's driver.
+   *
+   * @returns DatabaseDriver bound to the transaction
+   */
+  public getDriver(): DatabaseDriver {
+    if (!this.driver) {
+      const driver = Object.create(this.connection.getDriver()) as DatabaseDriver
+      driver.query = (sql: string, bindings?: any[], options?: any) => this.query(sql, bindings, options)
+      driver.getLastInsertId = () => this.getLastInsertId()
+      // Native cursors use their own connections; buffer through the transaction instead
+      driver.stream = DatabaseDriver.prototype.stream
+      this.driver = driver
+    }
+    return this.driver
+  }
+
+  /**
+   * Executes a raw query inside the transaction.
+   *
+   * @param sql - SQL/CQL query string to execute
+   * @param bindings - Optional parameters for the query
+   * @param options - Optional execution options
+   * @returns Promise resolving to query results
+   * @throws {Error} When the transaction has already completed
+   */
+  public async query(sql: string, bindings?: any[], options?: QueryOptions): Promise<QueryResult> {
+    this.assertActive()
+    return await this.session.query(sql, bindings, options)
+  }
+
+  /**
+   * Gets the ID generated by the last insert made inside the transaction.
+   *
+   * @returns Promise resolving to the last insert ID
+   * @throws {Error} When the transaction has already completed
+   */
+  public async getLastInsertId(): Promise<string | number> {
+    this.assertActive()
+    return await this.session.getLastInsertId()
+  }
+
+  /**
+   * Runs a callback in a nested transaction backed by a savepoint.
+   * The savepoint is released when the callback resolves and rolled back when it throws.
+   *
+   * @param callback - Work to run inside the nested transaction
+   * @returns Promise resolving to the callback's result
+   *
+   * @example
+   * 
+   * await trx.transaction(async (nested) => {
+   *   await Order.query({ trx: nested }).insert(order);
+   * });
+   * 
+   */
+  public async transaction<T>(callback: (trx: Transaction) => Promise<T>): Promise<T> {
+    this.assertActive()
+
+    const name = `scyllinx_sp_${this.depth + 1}`
+    await this.session.savepoint(name)
+
+    return await new Transaction(this.connection, this.session, name, this.depth + 1).run(callback)
+  }
+
+  /**
+   * Runs a callback in this transaction, committing when it resolves
+   * and rolling back when it throws.
+   *
+   * @param callback - Work to run inside the transaction
+   * @returns Promise resolving to the callback's result
+   */
+  public async run<T>(callback: (trx: Transaction) => Promise<T>): Promise<T> {
+    let result: T
+    try {
+      result = await callback(this)
+    } catch (error) {
+      if (!this.completed) {
+        await this.rollback()
+      }
+      throw error
+    }
+
+    if (!this.completed) {
+      await this.commit()
+    }
+    return result
+  }
+
+  /**
+   * Commits the transaction (or releases its savepoint when nested).
+   *
+   * @throws {Error} When the transaction has already completed
+   */
+  public async commit(): Promise<void> {
+    this.assertActive()
+    this.completed = true
+
+    if (this.savepoint) {
+      await this.session.releaseSavepoint(this.savepoint)
+    } else {
+      await this.session.commit()
+    }
+  }
+
+  /**
+   * Rolls back the transaction (or to its savepoint when nested).
+   *
+   * @throws {Error} When the transaction has already completed
+   */
+  public async rollback(): Promise<void> {
+    this.assertActive()
+    this.completed = true
+
+    if (this.savepoint) {
+      await this.session.rollbackToSavepoint(this.savepoint)
+      await this.session.releaseSavepoint(this.savepoint)
+    } else {
+      await this.session.rollback()
+    }
+  }
+
+  /**
+   * Checks whether the transaction has been committed or rolled back.
+   *
+   * @returns True if the transaction is no longer active
+   */
+  public isCompleted(): boolean {
+    return this.completed
+  }
+
+  /**
+   * Ensures the transaction can still be used.
+   *
+   * @throws {Error} When the transaction has already completed
+   */
+  private assertActive(): void {
+    if (this.completed) {
+      throw new Error("Transaction has already been committed or rolled back.")
+    }
+  }
+}
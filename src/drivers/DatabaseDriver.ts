@@ -1,4 +1,14 @@
-import type { ConnectionConfig, PreparedStatement, QueryResult } from "@/types/index"
+import type {
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  MaterializedViewDefinition,
+  PreparedStatement,
+  QueryOptions,
+  QueryResult,
+  TableDefinition,
+  TransactionSession,
+  UserTypeDefinition,
+} from "@/types/index"
 import type { QueryGrammar } from "./grammars/QueryGrammar"
 
 /**
@@ -73,6 +83,28 @@ export abstract class DatabaseDriver {
    */
   abstract query(sql: string, bindings?: any[], options?: any): Promise<QueryResult>
 
+  /**
+   * Streams the rows of a query one at a time.
+   * The base implementation buffers the full result set; drivers override it
+   * with a native cursor so rows are only pulled from the server as they are consumed.
+   *
+   * @param sql - The SQL query to execute
+   * @param bindings - Optional parameter bindings for the query
+   * @param options - Optional execution options, passed through to `query()`
+   * @returns Async iterator over raw result rows
+   *
+   * @example
+   * 
+   * for await (const row of driver.stream('SELECT * FROM events')) {
+   *   console.log(row);
+   * }
+   * 
+   */
+  async *stream(sql: string, bindings?: any[], options?: QueryOptions): AsyncGenerator<Record<string, any>> {
+    const result = await this.query(sql, bindings, options)
+    yield* result.rows
+  }
+
   /**
    * Prepares a SQL statement for repeated execution.
    * Must be implemented by concrete driver classes.
@@ -114,6 +146,79 @@ export abstract class DatabaseDriver {
    */
   abstract rollback(): Promise<void>
 
+  /**
+   * Starts a transaction pinned to a single physical connection.
+   * Statements run through the returned session belong to the transaction,
+   * while regular `query()` calls keep using the shared connection.
+   * Drivers without multi-statement transactions reject the call.
+   *
+   * @returns Promise resolving to the transaction session
+   * @throws {Error} When the driver does not support transactions
+   *
+   * @example
+   * 
+   * const session = await driver.beginTransactionSession();
+   * try {
+   *   await session.query('UPDATE accounts SET balance = balance - 10 WHERE id = ?', [1]);
+   *   await session.commit();
+   * } catch (error) {
+   *   await session.rollback();
+   *   throw error;
+   * }
+   * 
+   */
+  async beginTransactionSession(): Promise<TransactionSession> {
+    throw new Error(`${this.constructor.name} does not support transactions.`)
+  }
+
+  /**
+   * Tries once to take a named lock for `owner`.
+   * The lock is held for `leaseMs` unless renewed, so a crashed holder cannot keep it forever.
+   * Drivers without distributed locks reject the call.
+   *
+   * @param name - Lock name
+   * @param owner - Unique identifier of the process taking the lock
+   * @param leaseMs - Lease length in milliseconds
+   * @returns Promise resolving to true when the lock was taken
+   * @throws {Error} When the driver does not support locks
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    throw new Error(`${this.constructor.name} does not support locks.`)
+  }
+
+  /**
+   * Extends the lease of a lock held by `owner`.
+   *
+   * @param name - Lock name
+   * @param owner - Identifier the lock was taken with
+   * @param leaseMs - New lease length in milliseconds
+   * @returns Promise resolving to false when the lock is no longer held by `owner`
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    throw new Error(`${this.constructor.name} does not support locks.`)
+  }
+
+  /**
+   * Releases a lock if it is still held by `owner`.
+   *
+   * @param name - Lock name
+   * @param owner - Identifier the lock was taken with
+   * @returns Promise that resolves when the lock is released
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    throw new Error(`${this.constructor.name} does not support locks.`)
+  }
+
+  /**
+   * Removes a lock regardless of its holder.
+   *
+   * @param name - Lock name
+   * @returns Promise that resolves when the lock is removed
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    throw new Error(`${this.constructor.name} does not support locks.`)
+  }
+
   /**
    * Gets the ID of the last inserted record.
    * Must be implemented by concrete driver classes.
@@ -153,6 +258,62 @@ export abstract class DatabaseDriver {
    */
   abstract supportsFeature(feature: string): boolean
 
+  /**
+   * Reads the structure of a table from the database catalog.
+   * Column types are the database's own type names (`text`, `frozen<address>`, `character varying`).
+   * Drivers without schema introspection reject the call.
+   *
+   * @param table - Table or collection name
+   * @returns Promise resolving to the table definition
+   * @throws {Error} When the table does not exist
+   * @throws {Error} When the driver does not support schema introspection
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    throw new Error(`${this.constructor.name} does not support schema introspection.`)
+  }
+
+  /**
+   * Lists the tables of the current keyspace, schema or database.
+   * Drivers without schema introspection reject the call.
+   *
+   * @returns Promise resolving to the table names
+   * @throws {Error} When the driver does not support schema introspection
+   */
+  async listTables(): Promise<string[]> {
+    throw new Error(`${this.constructor.name} does not support schema introspection.`)
+  }
+
+  /**
+   * Lists the user-defined types of the current keyspace or schema.
+   * Drivers without user-defined types return an empty list.
+   *
+   * @returns Promise resolving to the types with their fields
+   */
+  async listTypes(): Promise<UserTypeDefinition[]> {
+    return []
+  }
+
+  /**
+   * Lists the materialized views of the current keyspace or schema.
+   * Drivers without materialized views return an empty list.
+   *
+   * @returns Promise resolving to the views
+   */
+  async listMaterializedViews(): Promise<MaterializedViewDefinition[]> {
+    return []
+  }
+
+  /**
+   * Maps a catalog referential action (`CASCADE`, `SET NULL`, `NO ACTION`) to a foreign key action.
+   *
+   * @param rule - Action as reported by the database
+   * @returns The matching action, or undefined for the default behaviour
+   */
+  protected toReferentialAction(rule?: string): ForeignKeyDefinition["onDelete"] {
+    const action = String(rule ?? "").toLowerCase()
+    return action === "cascade" || action === "set null" || action === "restrict" ? action : undefined
+  }
+
   /**
    * Checks if the driver is currently connected to the database.
    *
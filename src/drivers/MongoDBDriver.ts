@@ -1,6 +1,15 @@
 import { DatabaseDriver } from "./DatabaseDriver"
 import { MongoDBGrammar } from "./grammars/MongoDBGrammar"
-import { ConnectionConfig, PreparedStatement, QueryResult } from "@/types"
+import {
+  ColumnDefinition,
+  ConnectionConfig,
+  IndexDefinition,
+  PreparedStatement,
+  QueryOptions,
+  QueryResult,
+  TableDefinition,
+  TransactionSession,
+} from "@/types"
 
 /**
  * MongoDB driver implementation.
@@ -77,6 +86,20 @@ export class MongoDBDriver extends DatabaseDriver {
    * driver.query("users:insertOne", { name: "Ali" }, true)
    */
   async query(operation: string, operationPayload?: any, raw?: boolean): Promise<QueryResult> {
+    return await this.execute(operation, operationPayload, raw === true)
+  }
+
+  /**
+   * Executes a directive, optionally inside a client session (transaction).
+   *
+   * @param operation - The directive string in "collection:method:payload" format.
+   * @param operationPayload - Optional pre-parsed payload used only when `raw` is true.
+   * @param raw - Whether to use `operationPayload` instead of parsing the directive payload.
+   * @param session - Optional client session the operation belongs to.
+   * @returns Promise resolving to query results
+   * @throws {Error} When query execution fails
+   */
+  private async execute(operation: string, operationPayload?: any, raw?: boolean, session?: any): Promise<QueryResult> {
     try {
       const firstColon = operation.indexOf(":");
       const secondColon = operation.indexOf(":", firstColon + 1);
@@ -108,43 +131,43 @@ export class MongoDBDriver extends DatabaseDriver {
 
       switch (method) {
         case "find":
-          result = await collection.find(payload.filter || {}, payload.options || {}).toArray()
+          result = await collection.find(payload.filter || {}, { ...(payload.options || {}), session }).toArray()
           return { rows: result, rowCount: result.length }
 
         case "findOne":
-          result = await collection.findOne(payload.filter || {}, payload.options || {})
+          result = await collection.findOne(payload.filter || {}, { ...(payload.options || {}), session })
           return { rows: result ? [result] : [], rowCount: result ? 1 : 0 }
 
         case "insertOne":
-          result = await collection.insertOne(payload)
+          result = await collection.insertOne(payload, { session })
           return { rows: [], rowCount: 1, insertId: result.insertedId, affectedRows: 1 }
 
         case "insertMany":
-          result = await collection.insertMany(payload)
+          result = await collection.insertMany(payload, { session })
           return { rows: [], rowCount: result.insertedCount, affectedRows: result.insertedCount }
 
         case "updateOne":
-          result = await collection.updateOne(payload.filter, payload.update, payload.options || {})
+          result = await collection.updateOne(payload.filter, payload.update, { ...(payload.options || {}), session })
           return { rows: [], rowCount: result.modifiedCount, affectedRows: result.modifiedCount }
 
         case "updateMany":
-          result = await collection.updateMany(payload.filter, payload.update, payload.options || {})
+          result = await collection.updateMany(payload.filter, payload.update, { ...(payload.options || {}), session })
           return { rows: [], rowCount: result.modifiedCount, affectedRows: result.modifiedCount }
 
         case "deleteOne":
-          result = await collection.deleteOne(payload.filter)
+          result = await collection.deleteOne(payload.filter, { session })
           return { rows: [], rowCount: result.deletedCount, affectedRows: result.deletedCount }
 
         case "deleteMany":
-          result = await collection.deleteMany(payload.filter)
+          result = await collection.deleteMany(payload.filter, { session })
           return { rows: [], rowCount: result.deletedCount, affectedRows: result.deletedCount }
 
         case "countDocuments":
-          result = await collection.countDocuments(payload.filter || {})
+          result = await collection.countDocuments(payload.filter || {}, { session })
           return { rows: [{ count: result }], rowCount: 1 }
 
         case "aggregate":
-          result = await collection.aggregate(payload.pipeline, payload.options || {}).toArray()
+          result = await collection.aggregate(this.pipelineOf(payload), { ...(payload.options || {}), session }).toArray()
           return { rows: result, rowCount: result.length }
 
         case "createCollection":
@@ -163,6 +186,58 @@ export class MongoDBDriver extends DatabaseDriver {
     }
   }
 
+  /**
+   * Streams the documents of a `find` or `aggregate` directive through a cursor stream.
+   * Documents are fetched in batches as the consumer reads them.
+   *
+   * @param operation - The directive string in "collection:method:payload" format.
+   * @param operationPayload - Unused; streaming directives always carry a JSON payload.
+   * @param options - Optional execution options (fetchSize sets the cursor batch size).
+   * @returns Async iterator over documents
+   * @throws {Error} When the directive is not a find or aggregate
+   *
+   * @example
+   * for await (const doc of driver.stream('users:find:{"filter":{"active":true}}')) {
+   *   console.log(doc._id)
+   * }
+   */
+  async *stream(operation: string, operationPayload?: any, options: QueryOptions = {}): AsyncGenerator<Record<string, any>> {
+    const firstColon = operation.indexOf(":")
+    const secondColon = operation.indexOf(":", firstColon + 1)
+
+    const collection = this.db.collection(operation.substring(0, firstColon))
+    const method = operation.substring(firstColon + 1, secondColon)
+    const rawPayload = operation.substring(secondColon + 1)
+
+    let payload: any
+    try {
+      payload = rawPayload ? JSON.parse(rawPayload) : {}
+    } catch (err) {
+      throw new Error(`Invalid JSON payload in directive: ${rawPayload}`)
+    }
+
+    const batchSize = options.fetchSize ?? 1000
+    let cursor: any
+    switch (method) {
+      case "find":
+        cursor = collection.find(payload.filter || {}, { ...(payload.options || {}), batchSize })
+        break
+      case "aggregate":
+        cursor = collection.aggregate(this.pipelineOf(payload), { ...(payload.options || {}), batchSize })
+        break
+      default:
+        throw new Error(`Unsupported MongoDB stream operation: ${method}`)
+    }
+
+    try {
+      for await (const doc of cursor.stream()) {
+        yield doc
+      }
+    } finally {
+      await cursor.close()
+    }
+  }
+
   /**
    * Prepares a MongoDB operation for later execution.
    * MongoDB does not support parameterized statements natively,
@@ -203,6 +278,40 @@ export class MongoDBDriver extends DatabaseDriver {
     this.inTransaction = false
   }
 
+  /**
+   * Starts a multi-document transaction in a client session.
+   * Requires a replica set or sharded cluster. MongoDB has no savepoints,
+   * so nested transactions are rejected.
+   *
+   * @returns Promise<TransactionSession>
+   */
+  async beginTransactionSession(): Promise<TransactionSession> {
+    const session = this.client.startSession()
+    session.startTransaction()
+
+    const finish = async (action: () => Promise<void>) => {
+      try {
+        await action()
+      } finally {
+        await session.endSession()
+      }
+    }
+    const noSavepoints = async () => {
+      throw new Error("MongoDB transactions do not support savepoints.")
+    }
+
+    return {
+      query: (operation: string, operationPayload?: any, raw?: any) =>
+        this.execute(operation, operationPayload, raw === true, session),
+      getLastInsertId: () => this.getLastInsertId(),
+      commit: () => finish(() => session.commitTransaction()),
+      rollback: () => finish(() => session.abortTransaction()),
+      savepoint: noSavepoints,
+      rollbackToSavepoint: noSavepoints,
+      releaseSavepoint: noSavepoints,
+    }
+  }
+
   /**
    * Retrieves the last inserted document ID.
    * For MongoDB, this is included in the result of insert operations.
@@ -253,6 +362,125 @@ export class MongoDBDriver extends DatabaseDriver {
     return supported.includes(feature)
   }
 
+  /**
+   * Describes a collection from its `$jsonSchema` validator and `listIndexes()`.
+   * Collections without a validator only report `_id`.
+   *
+   * @param table - Collection name.
+   * @returns TableDefinition with the validated fields and secondary indexes.
+   * @throws Error when the collection does not exist.
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    const [info] = await this.db.listCollections({ name: table }).toArray()
+    if (!info) {
+      throw new Error(`Collection '${table}' does not exist`)
+    }
+
+    const schema = info.options?.validator?.$jsonSchema ?? {}
+    const required: string[] = schema.required ?? []
+    const columns: ColumnDefinition[] = [{ name: "_id", type: "objectId", primary: true, nullable: false }]
+    for (const [name, prop] of Object.entries<any>(schema.properties ?? {})) {
+      if (name === "_id") continue
+      columns.push({
+        name,
+        type: [].concat(prop.bsonType ?? "mixed").join("|"),
+        required: required.includes(name) || undefined,
+        nullable: prop.nullable === false ? false : !required.includes(name),
+        allowed: prop.enum,
+        minLength: prop.minLength,
+        maxLength: prop.maxLength,
+        minimum: prop.minimum,
+        maximum: prop.maximum,
+        comment: prop.description,
+      })
+    }
+
+    const indexes: IndexDefinition[] = (await this.db.collection(table).listIndexes().toArray())
+      .filter((index: any) => index.name !== "_id_")
+      .map((index: any) => ({ name: index.name, columns: Object.keys(index.key), unique: !!index.unique }))
+
+    return {
+      name: table,
+      columns,
+      indexes,
+      foreignKeys: [],
+      partitionKeys: ["_id"],
+      clusteringKeys: [],
+      clusteringOrder: {},
+    }
+  }
+
+  /**
+   * Lists the collections of the database, without views.
+   *
+   * @returns Collection names.
+   */
+  async listTables(): Promise<string[]> {
+    const collections = await this.db.listCollections({ type: "collection" }, { nameOnly: true }).toArray()
+    return collections.map((collection: any) => collection.name).sort()
+  }
+
+  /**
+   * Tries once to take a named lock as a document in the `scyllinx_locks` collection.
+   * An expired lock (or one already held by `owner`) is taken over; a live one makes
+   * the upsert hit the unique `_id` and fail.
+   *
+   * @param name - Lock name, used as the document `_id`.
+   * @param owner - Unique identifier of the process taking the lock.
+   * @param leaseMs - Lease length in milliseconds.
+   * @returns True when the lock was taken.
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const now = new Date()
+    try {
+      await this.db.collection("scyllinx_locks").updateOne(
+        { _id: name, $or: [{ expiresAt: { $lte: now } }, { owner }] },
+        { $set: { owner, acquiredAt: now, expiresAt: new Date(now.getTime() + leaseMs) } },
+        { upsert: true },
+      )
+      return true
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Moves the expiry of a lock document held by `owner`.
+   *
+   * @param name - Lock name.
+   * @param owner - Identifier the lock was taken with.
+   * @param leaseMs - New lease length in milliseconds.
+   * @returns False when the document is gone or belongs to another owner.
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const result = await this.db
+      .collection("scyllinx_locks")
+      .updateOne({ _id: name, owner }, { $set: { expiresAt: new Date(Date.now() + leaseMs) } })
+    return result.matchedCount === 1
+  }
+
+  /**
+   * Deletes a lock document if it is still held by `owner`.
+   *
+   * @param name - Lock name.
+   * @param owner - Identifier the lock was taken with.
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    await this.db.collection("scyllinx_locks").deleteOne({ _id: name, owner })
+  }
+
+  /**
+   * Deletes a lock document regardless of its owner.
+   *
+   * @param name - Lock name.
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    await this.db.collection("scyllinx_locks").deleteOne({ _id: name })
+  }
+
   /**
    * Builds the MongoDB connection URI.
    *
@@ -276,6 +504,17 @@ export class MongoDBDriver extends DatabaseDriver {
     return uri
   }
 
+  /**
+   * Gets the pipeline of an aggregate directive payload.
+   * Grouped selects compile to a bare pipeline array, relation lookups to `{ pipeline }`.
+   *
+   * @param payload - Parsed directive payload.
+   * @returns Aggregation pipeline stages.
+   */
+  private pipelineOf(payload: any): any[] {
+    return Array.isArray(payload) ? payload : payload.pipeline || []
+  }
+
   /**
    * Returns the MongoDB collection instance by name.
    *
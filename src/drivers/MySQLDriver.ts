@@ -1,6 +1,16 @@
 import { DatabaseDriver } from "./DatabaseDriver"
 import { MySQLGrammar } from "./grammars/MySQLGrammar"
-import type { ConnectionConfig, QueryResult, PreparedStatement } from "@/types/index"
+import type {
+  ColumnDefinition,
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  QueryOptions,
+  QueryResult,
+  PreparedStatement,
+  TableDefinition,
+  TransactionSession,
+} from "@/types/index"
 
 /**
  * MySQL/MariaDB database driver implementation using `mysql2`.
@@ -31,6 +41,9 @@ export class MySQLDriver extends DatabaseDriver {
   /** SQL grammar instance */
   private grammar: MySQLGrammar
 
+  /** Dedicated connections holding named locks, by lock name */
+  private lockConnections: Map<string, any> = new Map()
+
   /**
    * Creates a new MySQLDriver instance.
    *
@@ -51,14 +64,7 @@ export class MySQLDriver extends DatabaseDriver {
     this.mysqlModule = await import("mysql2/promise")
     const { createConnection } = this.mysqlModule
 
-    this.mysqlConnection = await createConnection({
-      host: this.config.host,
-      port: this.config.port ?? 3306,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
-      ...this.config,
-    })
+    this.mysqlConnection = await createConnection(this.connectionOptions())
 
     this.mysqlConnection.connect()
     this.connection = this.mysqlConnection; // For shared abstraction
@@ -87,17 +93,86 @@ export class MySQLDriver extends DatabaseDriver {
    * const result = await driver.query('SELECT * FROM users WHERE active = ?', [1]);
    */
   async query(sql: string, bindings: any[] = []): Promise<QueryResult> {
+    return await this.executeOn(this.connection, sql, bindings)
+  }
+
+  /**
+   * Executes a statement on the given connection and normalizes the result.
+   *
+   * @param connection - mysql2 connection to run the statement on
+   * @param sql - The SQL query to execute
+   * @param bindings - Parameter bindings
+   * @returns Promise resolving to query results
+   * @throws {Error} When query execution fails
+   */
+  private async executeOn(connection: any, sql: string, bindings: any[] = []): Promise<QueryResult> {
     try {
-      const [rows]: any = await this.connection.execute(sql, bindings)
+      const [rows]: any = await connection.execute(sql, bindings)
       return {
         rows,
         rowCount: Array.isArray(rows) ? rows.length : 0,
+        affectedRows: Array.isArray(rows) ? undefined : rows?.affectedRows,
       }
     } catch (error: any) {
       throw new Error(`MySQL query failed: ${error.message}`)
     }
   }
 
+  /**
+   * Builds mysql2 connection options from the driver configuration.
+   *
+   * @returns Connection options
+   */
+  private connectionOptions(): Record<string, any> {
+    return {
+      host: this.config.host,
+      port: this.config.port ?? 3306,
+      user: this.config.username,
+      password: this.config.password,
+      database: this.config.database,
+      ...this.config,
+    }
+  }
+
+  /**
+   * Streams the rows of a query without buffering the full result set.
+   * Each stream runs on its own connection, which is paused whenever the consumer falls behind
+   * and destroyed if the consumer stops early, so the shared connection is never left mid-result.
+   *
+   * @param sql - The SQL query to execute
+   * @param bindings - Optional parameter bindings
+   * @param options - Optional execution options (fetchSize sets the stream high-water mark)
+   * @returns Async iterator over result rows
+   *
+   * @example
+   * for await (const row of driver.stream('SELECT * FROM events')) {
+   *   console.log(row.id);
+   * }
+   */
+  async *stream(sql: string, bindings: any[] = [], options: QueryOptions = {}): AsyncGenerator<Record<string, any>> {
+    const connection = await this.mysqlModule.createConnection(this.connectionOptions())
+    // Row streaming is only exposed on the callback connection wrapped by mysql2/promise
+    const rows = connection.connection.query(sql, bindings).stream({ highWaterMark: options.fetchSize ?? 1000 })
+    let completed = false
+
+    try {
+      for await (const row of rows) {
+        yield row
+      }
+      completed = true
+    } catch (error: any) {
+      throw new Error(`MySQL stream failed: ${error.message}`)
+    } finally {
+      if (completed) {
+        await connection.end()
+      } else {
+        // The server keeps sending the rest of the result, so drop the connection instead of draining it
+        rows.destroy()
+        connection.destroy()
+      }
+    }
+  }
+
   /**
    * Prepares a SQL statement for repeated execution.
    *
@@ -144,6 +219,53 @@ export class MySQLDriver extends DatabaseDriver {
     this.inTransaction = false
   }
 
+  /**
+   * Starts a transaction on a dedicated connection, so statements outside
+   * the transaction never share its session. The connection is closed on
+   * commit or rollback.
+   *
+   * @returns Promise resolving to the transaction session
+   * @throws {Error} When the transaction cannot be started
+   */
+  async beginTransactionSession(): Promise<TransactionSession> {
+    const connection = await this.mysqlModule.createConnection(this.connectionOptions())
+
+    try {
+      await connection.beginTransaction()
+    } catch (error: any) {
+      await connection.end()
+      throw new Error(`MySQL transaction failed to start: ${error.message}`)
+    }
+
+    const finish = async (action: () => Promise<void>) => {
+      try {
+        await action()
+      } finally {
+        await connection.end()
+      }
+    }
+
+    // Savepoint statements are not supported by the prepared statement protocol
+    return {
+      query: (sql: string, bindings?: any[]) => this.executeOn(connection, sql, bindings),
+      getLastInsertId: async () => {
+        const [rows]: any = await connection.query("SELECT LAST_INSERT_ID() AS id")
+        return rows?.[0]?.id ?? ""
+      },
+      commit: () => finish(() => connection.commit()),
+      rollback: () => finish(() => connection.rollback()),
+      savepoint: async (name: string) => {
+        await connection.query(`SAVEPOINT ${name}`)
+      },
+      rollbackToSavepoint: async (name: string) => {
+        await connection.query(`ROLLBACK TO SAVEPOINT ${name}`)
+      },
+      releaseSavepoint: async (name: string) => {
+        await connection.query(`RELEASE SAVEPOINT ${name}`)
+      },
+    }
+  }
+
   /**
    * Gets the ID of the last inserted record.
    *
@@ -171,6 +293,232 @@ export class MySQLDriver extends DatabaseDriver {
     return this.mysqlModule.escape(value)
   }
 
+  /**
+   * Reads the structure of a table in the current database from `information_schema`.
+   *
+   * @param table - Table name
+   * @returns Promise resolving to the columns, primary key, indexes, foreign keys and table options
+   * @throws {Error} When the table does not exist
+   *
+   * @example
+   * const users = await driver.describeTable('users');
+   * users.tableOptions; // { engine: 'InnoDB', collation: 'utf8mb4_0900_ai_ci' }
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    const columnRows = (
+      await this.query(
+        `SELECT COLUMN_NAME AS column_name, DATA_TYPE AS data_type, COLUMN_TYPE AS column_type,
+                IS_NULLABLE AS is_nullable, COLUMN_DEFAULT AS column_default, COLUMN_KEY AS column_key,
+                EXTRA AS extra, CHARACTER_MAXIMUM_LENGTH AS max_length, NUMERIC_PRECISION AS numeric_precision,
+                NUMERIC_SCALE AS numeric_scale, COLUMN_COMMENT AS column_comment
+         FROM information_schema.columns
+         WHERE table_schema = DATABASE() AND table_name = ?
+         ORDER BY ORDINAL_POSITION`,
+        [table],
+      )
+    ).rows
+    if (columnRows.length === 0) {
+      throw new Error(`Table '${table}' does not exist`)
+    }
+
+    const indexRows = (
+      await this.query(
+        `SELECT INDEX_NAME AS index_name, COLUMN_NAME AS column_name, NON_UNIQUE AS non_unique
+         FROM information_schema.statistics
+         WHERE table_schema = DATABASE() AND table_name = ?
+         ORDER BY INDEX_NAME, SEQ_IN_INDEX`,
+        [table],
+      )
+    ).rows
+    const primaryKey = indexRows.filter((row) => row.index_name === "PRIMARY").map((row) => row.column_name as string)
+    const indexes: IndexDefinition[] = []
+    for (const row of indexRows.filter((r) => r.index_name !== "PRIMARY")) {
+      const index = indexes.find((i) => i.name === row.index_name)
+      if (index) {
+        index.columns.push(row.column_name)
+      } else {
+        indexes.push({ name: row.index_name, columns: [row.column_name], unique: Number(row.non_unique) === 0 })
+      }
+    }
+
+    const columns: ColumnDefinition[] = columnRows.map((row) => ({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable === "YES",
+      default: row.column_default ?? undefined,
+      primary: primaryKey.includes(row.column_name) || undefined,
+      autoIncrement: String(row.extra).includes("auto_increment") || undefined,
+      unsigned: String(row.column_type).includes("unsigned") || undefined,
+      length: row.max_length ?? undefined,
+      precision: row.data_type === "decimal" ? row.numeric_precision ?? undefined : undefined,
+      scale: row.data_type === "decimal" ? row.numeric_scale ?? undefined : undefined,
+      allowed: row.data_type === "enum" ? this.parseEnumValues(row.column_type) : undefined,
+      comment: row.column_comment || undefined,
+    }))
+
+    const foreignKeys: ForeignKeyDefinition[] = (
+      await this.query(
+        `SELECT k.COLUMN_NAME AS column_name, k.REFERENCED_TABLE_NAME AS foreign_table,
+                k.REFERENCED_COLUMN_NAME AS foreign_column, r.UPDATE_RULE AS update_rule, r.DELETE_RULE AS delete_rule
+         FROM information_schema.key_column_usage k
+         JOIN information_schema.referential_constraints r
+           ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+         WHERE k.TABLE_SCHEMA = DATABASE() AND k.TABLE_NAME = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL`,
+        [table],
+      )
+    ).rows.map((row) => ({
+      column: row.column_name,
+      references: { table: row.foreign_table, column: row.foreign_column },
+      onDelete: this.toReferentialAction(row.delete_rule),
+      onUpdate: this.toReferentialAction(row.update_rule),
+    }))
+
+    const [options] = (
+      await this.query(
+        `SELECT ENGINE AS engine, TABLE_COLLATION AS collation, TABLE_COMMENT AS comment
+         FROM information_schema.tables
+         WHERE table_schema = DATABASE() AND table_name = ?`,
+        [table],
+      )
+    ).rows
+
+    return {
+      name: table,
+      columns,
+      indexes,
+      foreignKeys,
+      partitionKeys: primaryKey,
+      clusteringKeys: [],
+      clusteringOrder: {},
+      tableOptions: {
+        engine: options?.engine,
+        collation: options?.collation,
+        ...(options?.comment ? { comment: options.comment } : {}),
+      },
+    }
+  }
+
+  /**
+   * Lists the tables of the current database.
+   *
+   * @returns Promise resolving to the table names
+   */
+  async listTables(): Promise<string[]> {
+    const result = await this.query(
+      `SELECT TABLE_NAME AS table_name FROM information_schema.tables
+       WHERE table_schema = DATABASE() AND TABLE_TYPE = 'BASE TABLE'
+       ORDER BY TABLE_NAME`,
+    )
+    return result.rows.map((row) => row.table_name)
+  }
+
+  /**
+   * Tries once to take a named lock with `GET_LOCK()` on a dedicated connection.
+   * The lock lives as long as that session, so a crashed holder releases it with its
+   * connection and `leaseMs` is not needed.
+   *
+   * @param name - Lock name, scoped to the current database
+   * @param owner - Unused; the holding session identifies the owner
+   * @param leaseMs - Unused; see above
+   * @returns Promise resolving to true when the lock was taken
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    if (this.lockConnections.has(name)) {
+      return false
+    }
+
+    const connection = await this.mysqlModule.createConnection(this.connectionOptions())
+    try {
+      const result = await this.executeOn(connection, "SELECT GET_LOCK(?, 0) AS locked", [this.lockName(name)])
+      if (Number(result.rows[0]?.locked) === 1) {
+        this.lockConnections.set(name, connection)
+        return true
+      }
+    } catch (error) {
+      await connection.end()
+      throw error
+    }
+    await connection.end()
+    return false
+  }
+
+  /**
+   * Checks that the session holding the lock is still alive.
+   *
+   * @param name - Lock name
+   * @param owner - Unused
+   * @param leaseMs - Unused
+   * @returns Promise resolving to false when the session was lost
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const connection = this.lockConnections.get(name)
+    if (!connection) {
+      return false
+    }
+    try {
+      await connection.query("SELECT 1")
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Releases the lock and closes its connection.
+   *
+   * @param name - Lock name
+   * @param owner - Unused
+   * @returns Promise that resolves when the lock is released
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    const connection = this.lockConnections.get(name)
+    if (!connection) {
+      return
+    }
+    this.lockConnections.delete(name)
+    try {
+      await connection.query("SELECT RELEASE_LOCK(?)", [this.lockName(name)])
+    } finally {
+      await connection.end()
+    }
+  }
+
+  /**
+   * Kills the session of another process holding the lock.
+   *
+   * @param name - Lock name
+   * @returns Promise that resolves when the holder is killed
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    await this.releaseLock(name, "")
+    const result = await this.query("SELECT IS_USED_LOCK(?) AS holder", [this.lockName(name)])
+    const holder = result.rows[0]?.holder
+    if (holder != null) {
+      // KILL is not supported by the prepared statement protocol
+      await this.mysqlConnection.query(`KILL ${Number(holder)}`)
+    }
+  }
+
+  /**
+   * Scopes a lock name to the current database; MySQL lock names are server-wide and at most 64 characters.
+   *
+   * @param name - Lock name
+   * @returns Server-wide lock name
+   */
+  private lockName(name: string): string {
+    return `${this.config.database ?? ""}:${name}`.slice(0, 64)
+  }
+
+  /**
+   * Extracts the allowed values from an enum column type such as `enum('a','b')`.
+   *
+   * @param columnType - The COLUMN_TYPE of the column
+   * @returns The allowed values
+   */
+  private parseEnumValues(columnType: string): string[] {
+    return [...columnType.matchAll(/'((?:[^']|'')*)'/g)].map((match) => match[1].replace(/''/g, "'"))
+  }
+
   /**
    * Gets the SQL grammar instance for this driver.
    *
@@ -199,6 +547,7 @@ export class MySQLDriver extends DatabaseDriver {
       "batch_operations",
       "foreign_keys",
       "auto_increment",
+      "window_functions",
     ]
     return supported.includes(feature)
   }
@@ -1,6 +1,18 @@
 import { DatabaseDriver } from "./DatabaseDriver"
 import { PostgreSQLGrammar } from "./grammars/PostgreSQLGrammar"
-import { ConnectionConfig, PreparedStatement, QueryResult } from "@/types/index"
+import {
+  ColumnDefinition,
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  MaterializedViewDefinition,
+  PreparedStatement,
+  QueryOptions,
+  QueryResult,
+  TableDefinition,
+  TransactionSession,
+  UserTypeDefinition,
+} from "@/types/index"
 
 /**
  * PostgreSQL database driver implementation using `pg`.
@@ -29,6 +41,9 @@ export class PostgreSQLDriver extends DatabaseDriver {
   /** PostgreSQL connection pool instance */
   private pool!: any // pg.Pool
 
+  /** Pooled clients holding advisory locks, by lock name */
+  private lockClients: Map<string, any> = new Map()
+
   /** Query grammar for SQL compilation */
   private grammar: PostgreSQLGrammar
 
@@ -100,16 +115,71 @@ export class PostgreSQLDriver extends DatabaseDriver {
    */
   async query(sql: string, bindings: any[] = []): Promise<QueryResult> {
     try {
-      const result = await this.pool.query(sql, bindings)
-      return {
-        rows: result.rows,
-        rowCount: result.rowCount ? result.rowCount : 0,
-      }
+      return this.toQueryResult(await this.pool.query(sql, bindings))
     } catch (error: any) {
       throw new Error(`PostgreSQL query failed: ${error.message}`)
     }
   }
 
+  /**
+   * Normalizes a pg result; `rowCount` is the number of affected rows for writes.
+   *
+   * @param result - Result returned by pg
+   * @returns Query result
+   */
+  private toQueryResult(result: any): QueryResult {
+    const write = ["INSERT", "UPDATE", "DELETE"].includes(result.command)
+    return {
+      rows: result.rows,
+      rowCount: result.rowCount ? result.rowCount : 0,
+      affectedRows: write ? result.rowCount ?? 0 : undefined,
+    }
+  }
+
+  /**
+   * Streams the rows of a query through a server-side cursor.
+   * A dedicated client is checked out of the pool for the lifetime of the cursor
+   * and rows are fetched in chunks only as the consumer asks for them.
+   *
+   * @param sql - The SQL query to execute
+   * @param bindings - Optional parameter bindings for the query
+   * @param options - Optional execution options (fetchSize defaults to 1000)
+   * @returns Async iterator over result rows
+   *
+   * @example
+   * for await (const row of driver.stream('SELECT * FROM events', [], { fetchSize: 500 })) {
+   *   console.log(row.id);
+   * }
+   */
+  async *stream(sql: string, bindings: any[] = [], options: QueryOptions = {}): AsyncGenerator<Record<string, any>> {
+    const client = await this.pool.connect()
+    const cursor = `scyllinx_cursor_${Math.random().toString(36).substring(2, 15)}`
+    const fetchSize = options.fetchSize ?? 1000
+    let completed = false
+
+    try {
+      await client.query("BEGIN")
+      await client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${sql}`, bindings)
+
+      while (true) {
+        const result = await client.query(`FETCH ${fetchSize} FROM ${cursor}`)
+        if (!result.rows.length) break
+        yield* result.rows
+      }
+
+      await client.query("COMMIT")
+      completed = true
+    } catch (error: any) {
+      throw new Error(`PostgreSQL stream failed: ${error.message}`)
+    } finally {
+      // Consumer stopped early or the cursor failed: discard the cursor transaction
+      if (!completed) {
+        await client.query("ROLLBACK").catch(() => {})
+      }
+      client.release()
+    }
+  }
+
   /**
    * Prepares a SQL statement for repeated execution.
    * Uses named prepared statements under the hood.
@@ -166,6 +236,63 @@ export class PostgreSQLDriver extends DatabaseDriver {
     this.inTransaction = false
   }
 
+  /**
+   * Starts a transaction on a client checked out of the pool.
+   * The client is returned to the pool on commit or rollback.
+   *
+   * @returns Promise resolving to the transaction session
+   * @throws {Error} When the transaction cannot be started
+   *
+   * @example
+   * const session = await driver.beginTransactionSession();
+   * await session.savepoint('before_import');
+   * await session.rollbackToSavepoint('before_import');
+   * await session.commit();
+   */
+  async beginTransactionSession(): Promise<TransactionSession> {
+    const client = await this.pool.connect()
+
+    try {
+      await client.query("BEGIN")
+    } catch (error: any) {
+      client.release()
+      throw new Error(`PostgreSQL transaction failed to start: ${error.message}`)
+    }
+
+    const finish = async (statement: string) => {
+      try {
+        await client.query(statement)
+      } finally {
+        client.release()
+      }
+    }
+
+    return {
+      query: async (sql: string, bindings: any[] = []): Promise<QueryResult> => {
+        try {
+          return this.toQueryResult(await client.query(sql, bindings))
+        } catch (error: any) {
+          throw new Error(`PostgreSQL query failed: ${error.message}`)
+        }
+      },
+      getLastInsertId: async () => {
+        const result = await client.query("SELECT LASTVAL() as id")
+        return result.rows?.[0]?.id ?? ""
+      },
+      commit: () => finish("COMMIT"),
+      rollback: () => finish("ROLLBACK"),
+      savepoint: async (name: string) => {
+        await client.query(`SAVEPOINT ${name}`)
+      },
+      rollbackToSavepoint: async (name: string) => {
+        await client.query(`ROLLBACK TO SAVEPOINT ${name}`)
+      },
+      releaseSavepoint: async (name: string) => {
+        await client.query(`RELEASE SAVEPOINT ${name}`)
+      },
+    }
+  }
+
   /**
    * Gets the ID of the last inserted record.
    * Relies on PostgreSQL's `LASTVAL()` function.
@@ -198,6 +325,248 @@ export class PostgreSQLDriver extends DatabaseDriver {
     return String(value)
   }
 
+  /**
+   * Reads the structure of a table in the current schema from `information_schema` and `pg_catalog`.
+   *
+   * @param table - Table name
+   * @returns Promise resolving to the columns, primary key, indexes and foreign keys
+   * @throws {Error} When the table does not exist
+   *
+   * @example
+   * const users = await driver.describeTable('users');
+   * users.columns.map(c => c.type); // ['integer', 'character varying', ...]
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    const columnRows = (
+      await this.query(
+        `SELECT column_name, data_type, is_nullable, column_default, character_maximum_length, numeric_precision, numeric_scale
+         FROM information_schema.columns
+         WHERE table_schema = current_schema() AND table_name = $1
+         ORDER BY ordinal_position`,
+        [table],
+      )
+    ).rows
+    if (columnRows.length === 0) {
+      throw new Error(`Table '${table}' does not exist`)
+    }
+
+    const primaryKey = (
+      await this.query(
+        `SELECT kcu.column_name
+         FROM information_schema.table_constraints tc
+         JOIN information_schema.key_column_usage kcu
+           ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+         WHERE tc.table_schema = current_schema() AND tc.table_name = $1 AND tc.constraint_type = 'PRIMARY KEY'
+         ORDER BY kcu.ordinal_position`,
+        [table],
+      )
+    ).rows.map((row) => row.column_name as string)
+
+    const columns: ColumnDefinition[] = columnRows.map((row) => ({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable === "YES",
+      default: row.column_default ?? undefined,
+      primary: primaryKey.includes(row.column_name) || undefined,
+      autoIncrement: String(row.column_default ?? "").startsWith("nextval(") || undefined,
+      length: row.character_maximum_length ?? undefined,
+      precision: row.data_type === "numeric" ? row.numeric_precision ?? undefined : undefined,
+      scale: row.data_type === "numeric" ? row.numeric_scale ?? undefined : undefined,
+    }))
+
+    const indexRows = (
+      await this.query(
+        `SELECT i.relname AS index_name, a.attname AS column_name, ix.indisunique AS is_unique
+         FROM pg_class t
+         JOIN pg_index ix ON ix.indrelid = t.oid
+         JOIN pg_class i ON i.oid = ix.indexrelid
+         JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+         WHERE t.relname = $1 AND t.relnamespace = current_schema()::regnamespace AND NOT ix.indisprimary
+         ORDER BY i.relname, array_position(ix.indkey::int2[], a.attnum)`,
+        [table],
+      )
+    ).rows
+    const indexes: IndexDefinition[] = []
+    for (const row of indexRows) {
+      const index = indexes.find((i) => i.name === row.index_name)
+      if (index) {
+        index.columns.push(row.column_name)
+      } else {
+        indexes.push({ name: row.index_name, columns: [row.column_name], unique: row.is_unique })
+      }
+    }
+
+    const foreignKeys: ForeignKeyDefinition[] = (
+      await this.query(
+        `SELECT kcu.column_name, ccu.table_name AS foreign_table, ccu.column_name AS foreign_column,
+                rc.update_rule, rc.delete_rule
+         FROM information_schema.table_constraints tc
+         JOIN information_schema.key_column_usage kcu
+           ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+         JOIN information_schema.constraint_column_usage ccu
+           ON ccu.constraint_name = tc.constraint_name AND ccu.table_schema = tc.table_schema
+         JOIN information_schema.referential_constraints rc
+           ON rc.constraint_name = tc.constraint_name AND rc.constraint_schema = tc.table_schema
+         WHERE tc.table_schema = current_schema() AND tc.table_name = $1 AND tc.constraint_type = 'FOREIGN KEY'`,
+        [table],
+      )
+    ).rows.map((row) => ({
+      column: row.column_name,
+      references: { table: row.foreign_table, column: row.foreign_column },
+      onDelete: this.toReferentialAction(row.delete_rule),
+      onUpdate: this.toReferentialAction(row.update_rule),
+    }))
+
+    return {
+      name: table,
+      columns,
+      indexes,
+      foreignKeys,
+      partitionKeys: primaryKey,
+      clusteringKeys: [],
+      clusteringOrder: {},
+    }
+  }
+
+  /**
+   * Lists the tables of the current schema.
+   *
+   * @returns Promise resolving to the table names
+   */
+  async listTables(): Promise<string[]> {
+    const result = await this.query(
+      `SELECT table_name FROM information_schema.tables
+       WHERE table_schema = current_schema() AND table_type = 'BASE TABLE'
+       ORDER BY table_name`,
+    )
+    return result.rows.map((row) => row.table_name)
+  }
+
+  /**
+   * Lists the composite types of the current schema.
+   *
+   * @returns Promise resolving to the types with their fields
+   */
+  async listTypes(): Promise<UserTypeDefinition[]> {
+    const result = await this.query(
+      `SELECT t.typname AS type_name, a.attname AS field_name, format_type(a.atttypid, a.atttypmod) AS field_type
+       FROM pg_type t
+       JOIN pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+       JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+       WHERE t.typnamespace = current_schema()::regnamespace AND t.typtype = 'c'
+       ORDER BY t.typname, a.attnum`,
+    )
+    const types: UserTypeDefinition[] = []
+    for (const row of result.rows) {
+      const type = types.find((t) => t.name === row.type_name)
+      const field = { name: row.field_name, type: row.field_type }
+      if (type) {
+        type.fields.push(field)
+      } else {
+        types.push({ name: row.type_name, fields: [field] })
+      }
+    }
+    return types
+  }
+
+  /**
+   * Lists the materialized views of the current schema.
+   *
+   * @returns Promise resolving to the views with their defining query
+   */
+  async listMaterializedViews(): Promise<MaterializedViewDefinition[]> {
+    const result = await this.query(
+      `SELECT matviewname, definition FROM pg_matviews WHERE schemaname = current_schema() ORDER BY matviewname`,
+    )
+    return result.rows.map((row) => ({ name: row.matviewname, definition: row.definition }))
+  }
+
+  /**
+   * Tries once to take a session-level advisory lock on a dedicated pooled client.
+   * The lock lives as long as that session, so a crashed holder releases it with its
+   * connection and `leaseMs` is not needed.
+   *
+   * @param name - Lock name, hashed with `hashtext()` into the advisory lock key
+   * @param owner - Unused; the holding session identifies the owner
+   * @param leaseMs - Unused; see above
+   * @returns Promise resolving to true when the lock was taken
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    if (this.lockClients.has(name)) {
+      return false
+    }
+
+    const client = await this.pool.connect()
+    try {
+      const result = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [name])
+      if (result.rows[0]?.locked) {
+        this.lockClients.set(name, client)
+        return true
+      }
+    } catch (error: any) {
+      client.release()
+      throw new Error(`PostgreSQL lock failed: ${error.message}`)
+    }
+    client.release()
+    return false
+  }
+
+  /**
+   * Checks that the session holding the advisory lock is still alive.
+   *
+   * @param name - Lock name
+   * @param owner - Unused
+   * @param leaseMs - Unused
+   * @returns Promise resolving to false when the session was lost
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const client = this.lockClients.get(name)
+    if (!client) {
+      return false
+    }
+    try {
+      await client.query("SELECT 1")
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Releases the advisory lock and returns its client to the pool.
+   *
+   * @param name - Lock name
+   * @param owner - Unused
+   * @returns Promise that resolves when the lock is released
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    const client = this.lockClients.get(name)
+    if (!client) {
+      return
+    }
+    this.lockClients.delete(name)
+    try {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [name])
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Terminates the sessions of other processes holding the advisory lock.
+   *
+   * @param name - Lock name
+   * @returns Promise that resolves when the holders are terminated
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    await this.releaseLock(name, "")
+    await this.query(
+      `SELECT pg_terminate_backend(pid) FROM pg_locks
+       WHERE locktype = 'advisory' AND objid = (hashtext($1)::bigint & 4294967295)::oid AND pid <> pg_backend_pid()`,
+      [name],
+    )
+  }
+
   /**
    * Gets the query grammar instance for this driver.
    *
@@ -226,6 +595,7 @@ export class PostgreSQLDriver extends DatabaseDriver {
       "transactions",
       "serial_primary_key",
       "returning",
+      "window_functions",
     ]
     return supported.includes(feature)
   }
@@ -1,7 +1,19 @@
+import { randomUUID } from "crypto"
+import { linkSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs"
 import { DatabaseDriver } from "./DatabaseDriver"
 import { SQLiteGrammar } from "./grammars/SQLiteGrammar"
 import type { QueryGrammar } from "./grammars/QueryGrammar"
-import { ConnectionConfig, PreparedStatement, QueryResult } from "@/types"
+import {
+  ColumnDefinition,
+  ConnectionConfig,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  PreparedStatement,
+  QueryOptions,
+  QueryResult,
+  TableDefinition,
+  TransactionSession,
+} from "@/types"
 
 /**
  * SQLite driver implementation using better-sqlite3.
@@ -98,6 +110,28 @@ export class SQLiteDriver extends DatabaseDriver {
     }  
   }
 
+  /**
+   * Streams the rows of a query using better-sqlite3's `iterate()`.
+   * Rows are read one at a time; the connection stays busy until iteration ends.
+   *
+   * @param sql - The raw SQL string to execute.
+   * @param bindings - The parameter bindings for the SQL query.
+   * @param options - Unused; SQLite reads rows one at a time.
+   * @returns Async iterator over result rows.
+   */
+  async *stream(sql: string, bindings: any[] = [], options?: QueryOptions): AsyncGenerator<Record<string, any>> {
+    if (!this.db) throw new Error("SQLite connection is not initialized")
+
+    let iterator: IterableIterator<Record<string, any>>
+    try {
+      iterator = this.db.prepare(sql).iterate(bindings || [])
+    } catch (error: any) {
+      throw new Error(`SQLite stream failed: ${error.message}`)
+    }
+
+    yield* iterator
+  }
+
   /**
    * Prepares a SQL statement and returns a PreparedStatement wrapper.
    *
@@ -108,29 +142,73 @@ export class SQLiteDriver extends DatabaseDriver {
     return new SQLitePreparedStatement(this.db!, sql)
   }
 
+  /**
+   * Begins a transaction, or a savepoint when a transaction is already open.
+   */
   async beginTransaction(): Promise<void> {
     if (this.transactionLevel === 0) {
       this.db!.exec("BEGIN TRANSACTION")
+    } else {
+      this.db!.exec(`SAVEPOINT trans_${this.transactionLevel + 1}`)
     }
     this.transactionLevel++
     this.inTransaction = true
   }
 
+  /**
+   * Commits the innermost transaction level (releasing its savepoint when nested).
+   */
   async commit(): Promise<void> {
     if (this.transactionLevel > 0) {
-      this.transactionLevel--
-      if (this.transactionLevel === 0) {
+      if (this.transactionLevel === 1) {
         this.db!.exec("COMMIT")
         this.inTransaction = false
+      } else {
+        this.db!.exec(`RELEASE SAVEPOINT trans_${this.transactionLevel}`)
       }
+      this.transactionLevel--
     }
   }
 
+  /**
+   * Rolls back the innermost transaction level (to its savepoint when nested).
+   */
   async rollback(): Promise<void> {
     if (this.transactionLevel > 0) {
-      this.db!.exec("ROLLBACK")
-      this.transactionLevel = 0
-      this.inTransaction = false
+      if (this.transactionLevel === 1) {
+        this.db!.exec("ROLLBACK")
+        this.inTransaction = false
+      } else {
+        this.db!.exec(`ROLLBACK TO SAVEPOINT trans_${this.transactionLevel}`)
+        this.db!.exec(`RELEASE SAVEPOINT trans_${this.transactionLevel}`)
+      }
+      this.transactionLevel--
+    }
+  }
+
+  /**
+   * Starts a transaction on the database handle.
+   * SQLite has a single connection, so the session shares it and nests
+   * through `transactionLevel` when a transaction is already open.
+   * @returns The transaction session.
+   */
+  async beginTransactionSession(): Promise<TransactionSession> {
+    await this.beginTransaction()
+
+    return {
+      query: (sql: string, bindings?: any[]) => this.query(sql, bindings),
+      getLastInsertId: () => this.getLastInsertId(),
+      commit: () => this.commit(),
+      rollback: () => this.rollback(),
+      savepoint: async (name: string) => {
+        this.db!.exec(`SAVEPOINT ${name}`)
+      },
+      rollbackToSavepoint: async (name: string) => {
+        this.db!.exec(`ROLLBACK TO SAVEPOINT ${name}`)
+      },
+      releaseSavepoint: async (name: string) => {
+        this.db!.exec(`RELEASE SAVEPOINT ${name}`)
+      },
     }
   }
 
@@ -170,6 +248,222 @@ export class SQLiteDriver extends DatabaseDriver {
     return String(value)
   }
 
+  /**
+   * Reads the structure of a table through `PRAGMA table_info`, `index_list` and `foreign_key_list`.
+   *
+   * @param table - Table name.
+   * @returns The columns, primary key, indexes and foreign keys.
+   * @throws {Error} When the table does not exist.
+   * @example
+   * ```ts
+   * const users = await driver.describeTable("users")
+   * users.partitionKeys // => ["id"]
+   * ```
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    if (!this.db) throw new Error("SQLite connection is not initialized")
+    const quoted = `"${table.replace(/"/g, '""')}"`
+
+    const columnRows: any[] = this.db.pragma(`table_info(${quoted})`)
+    if (columnRows.length === 0) {
+      throw new Error(`Table '${table}' does not exist`)
+    }
+
+    const primaryKey = columnRows
+      .filter((row) => row.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((row) => row.name as string)
+
+    const columns: ColumnDefinition[] = columnRows.map((row) => ({
+      name: row.name,
+      type: String(row.type).toLowerCase(),
+      nullable: row.notnull === 0 && row.pk === 0,
+      default: row.dflt_value ?? undefined,
+      primary: row.pk > 0 || undefined,
+      // A lone INTEGER PRIMARY KEY aliases the rowid and is assigned automatically
+      autoIncrement:
+        (primaryKey.length === 1 && row.pk === 1 && String(row.type).toUpperCase() === "INTEGER") || undefined,
+    }))
+
+    const indexes: IndexDefinition[] = this.db
+      .pragma(`index_list(${quoted})`)
+      .filter((row: any) => row.origin !== "pk")
+      .map((row: any) => ({
+        name: row.name,
+        columns: this.db.pragma(`index_info("${String(row.name).replace(/"/g, '""')}")`).map((info: any) => info.name),
+        unique: row.unique === 1,
+      }))
+
+    const foreignKeys: ForeignKeyDefinition[] = this.db.pragma(`foreign_key_list(${quoted})`).map((row: any) => ({
+      column: row.from,
+      references: { table: row.table, column: row.to },
+      onDelete: this.toReferentialAction(row.on_delete),
+      onUpdate: this.toReferentialAction(row.on_update),
+    }))
+
+    return {
+      name: table,
+      columns,
+      indexes,
+      foreignKeys,
+      partitionKeys: primaryKey,
+      clusteringKeys: [],
+      clusteringOrder: {},
+    }
+  }
+
+  /**
+   * Lists the tables of the database, without SQLite's internal tables.
+   *
+   * @returns The table names.
+   */
+  async listTables(): Promise<string[]> {
+    const result = await this.query(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+    )
+    return result.rows.map((row) => row.name)
+  }
+
+  /**
+   * Tries once to take a named lock as a lock file next to the database file.
+   * The file holds the owner and lease expiry; an expired file is taken over.
+   * In-memory databases are private to this process, so the lock is always granted.
+   *
+   * @param name - Lock name.
+   * @param owner - Unique identifier of the process taking the lock.
+   * @param leaseMs - Lease length in milliseconds.
+   * @returns Whether the lock was taken.
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const path = this.lockPath(name)
+    if (!path) return true
+
+    const lease = JSON.stringify({ owner, expiresAt: Date.now() + leaseMs })
+    if (this.createLock(path, lease)) {
+      return true
+    }
+
+    const current = this.readLock(path)
+    if (current && current.owner !== owner && current.expiresAt > Date.now()) {
+      return false
+    }
+
+    // Move the expired lease aside; rename is atomic, so only one process can take it over
+    const stale = `${path}.${randomUUID()}.stale`
+    try {
+      renameSync(path, stale)
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error
+      return this.createLock(path, lease)
+    }
+
+    const moved = this.readLock(stale)
+    if (moved?.owner !== current?.owner || moved?.expiresAt !== current?.expiresAt) {
+      // Another process took the lease over first and this moved its fresh lock; put it back
+      try {
+        linkSync(stale, path)
+      } catch {}
+      rmSync(stale, { force: true })
+      return false
+    }
+
+    rmSync(stale, { force: true })
+    return this.createLock(path, lease)
+  }
+
+  /**
+   * Moves the expiry in the lock file if it is still held by `owner`.
+   * A lease that has already expired counts as lost, since another process
+   * may be taking it over through acquireLock() while this one writes.
+   *
+   * @param name - Lock name.
+   * @param owner - Identifier the lock was taken with.
+   * @param leaseMs - New lease length in milliseconds.
+   * @returns False when the file is gone, has expired or belongs to another owner.
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const path = this.lockPath(name)
+    if (!path) return true
+
+    const current = this.readLock(path)
+    if (current?.owner !== owner || current.expiresAt <= Date.now()) return false
+
+    const lease = { owner, expiresAt: Date.now() + leaseMs }
+    const temp = `${path}.${randomUUID()}.tmp`
+    writeFileSync(temp, JSON.stringify(lease))
+    renameSync(temp, path)
+
+    // Another process may have replaced the file between the read and the rename
+    const renewed = this.readLock(path)
+    return renewed?.owner === owner && renewed.expiresAt === lease.expiresAt
+  }
+
+  /**
+   * Removes the lock file if it is still held by `owner`.
+   *
+   * @param name - Lock name.
+   * @param owner - Identifier the lock was taken with.
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    const path = this.lockPath(name)
+    if (path && this.readLock(path)?.owner === owner) {
+      rmSync(path, { force: true })
+    }
+  }
+
+  /**
+   * Removes the lock file regardless of its owner.
+   *
+   * @param name - Lock name.
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    const path = this.lockPath(name)
+    if (path) {
+      rmSync(path, { force: true })
+    }
+  }
+
+  /**
+   * Creates the lock file unless it exists. The lease is written to a temporary file
+   * that is then hard-linked into place, so other processes never read a partial lease.
+   *
+   * @param path - Lock file path.
+   * @param lease - Serialized lease.
+   * @returns Whether the file was created.
+   */
+  private createLock(path: string, lease: string): boolean {
+    const temp = `${path}.${randomUUID()}.tmp`
+    writeFileSync(temp, lease)
+    try {
+      linkSync(temp, path)
+      return true
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error
+      return false
+    } finally {
+      rmSync(temp, { force: true })
+    }
+  }
+
+  /**
+   * Path of the lock file for a lock name, or null for in-memory databases.
+   */
+  private lockPath(name: string): string | null {
+    const database = this.config.database
+    return database && database !== ":memory:" ? `${database}.${name}.lock` : null
+  }
+
+  /**
+   * Reads a lock file, returning null when it is missing or unreadable.
+   */
+  private readLock(path: string): { owner: string; expiresAt: number } | null {
+    try {
+      return JSON.parse(readFileSync(path, "utf8"))
+    } catch {
+      return null
+    }
+  }
+
   /**
    * Returns the SQLite grammar instance.
    */
@@ -191,6 +485,8 @@ export class SQLiteDriver extends DatabaseDriver {
         return true
       case "prepared-statements":
         return true
+      case "window_functions":
+        return true
       default:
         return false
     }
@@ -1,6 +1,22 @@
 import { DatabaseDriver } from "./DatabaseDriver"
 import { ScyllaDBGrammar } from "./grammars/ScyllaDBGrammar"
-import type { ConnectionConfig, PreparedStatement, QueryResult } from "@/types/index"
+import { TupleValue } from "@/model/TupleValue"
+import type {
+  BatchOptions,
+  BatchStatement,
+  ConnectionConfig,
+  ColumnDefinition,
+  ConsistencyLevel,
+  IndexDefinition,
+  LwtResult,
+  MaterializedViewDefinition,
+  PreparedStatement,
+  QueryOptions,
+  QueryResult,
+  TableDefinition,
+  TableOptions,
+  UserTypeDefinition,
+} from "@/types/index"
 
 /**
  * ScyllaDB database driver implementation.
@@ -36,6 +52,12 @@ export class ScyllaDBDriver extends DatabaseDriver {
   /** Cache for prepared statements */
   private preparedStatements: Map<string, any> = new Map()
 
+  /** Whether the lock table has been created on this connection */
+  private lockTableReady = false
+
+  /** Table metadata per table, cleared when a schema statement runs */
+  private tableMetadata: Map<string, any> = new Map()
+
   /**
    * Creates a new ScyllaDBDriver instance.
    *
@@ -106,6 +128,7 @@ export class ScyllaDBDriver extends DatabaseDriver {
    *
    * @param cql - The CQL query to execute
    * @param params - Optional parameters for the query
+   * @param options - Optional execution options (fetch size, paging state)
    * @returns Promise resolving to query results with mapped rows
    * @throws {Error} When query execution fails
    *
@@ -117,15 +140,56 @@ export class ScyllaDBDriver extends DatabaseDriver {
    * );
    * console.log(`Found ${result.rowCount} users`);
    * result.rows.forEach(user => console.log(user.name));
+   *
+   * // Per-query consistency and timeout
+   * await driver.query('SELECT * FROM users WHERE id = ?', [id], {
+   *   consistency: 'LOCAL_ONE',
+   *   timeout: 2000
+   * });
+   *
+   * // Fetch a single page and resume from the returned token
+   * const page = await driver.query('SELECT * FROM events', [], { fetchSize: 100 });
+   * const next = await driver.query('SELECT * FROM events', [], {
+   *   fetchSize: 100,
+   *   pageState: page.pageState
+   * });
    * 
    */
-  async query(cql: string, params?: any[]): Promise<QueryResult> {
+  async query(cql: string, params?: any[], options: QueryOptions = {}): Promise<QueryResult> {
+    if (/^\s*(CREATE|ALTER|DROP)\s/i.test(cql)) {
+      this.tableMetadata.clear()
+    }
+
     try {
-      const result = await this.client.execute(cql, params || [], { prepare: true })
+      const executeOptions: Record<string, any> = { prepare: true }
+
+      const consistency = options.consistency ?? this.config.consistency
+      if (consistency) {
+        executeOptions.consistency = this.resolveConsistency(consistency)
+      }
+      const serialConsistency = options.serialConsistency ?? this.config.serialConsistency
+      if (serialConsistency) {
+        executeOptions.serialConsistency = this.resolveConsistency(serialConsistency)
+      }
+      if (options.timeout) {
+        executeOptions.readTimeout = options.timeout
+      }
+      if (options.fetchSize) {
+        executeOptions.fetchSize = options.fetchSize
+        executeOptions.autoPage = false
+      }
+      if (options.pageState) {
+        executeOptions.pageState = options.pageState
+      }
+
+      const result = await this.client.execute(cql, this.prepareParams(params), executeOptions)
+      const rows = result.rows?.map((row: any) => this.mapRow(row))
 
       return {
-        rows: result.rows?.map((row: any) => this.mapRow(row)),
+        rows,
         rowCount: result.rowLength || 0,
+        pageState: result.pageState ?? null,
+        lwt: this.extractLwtResult(rows),
         // fields: result.columns?.map((col) => ({
         //   name: col.name,
         //   type: col.type.code.toString(),
@@ -137,6 +201,34 @@ export class ScyllaDBDriver extends DatabaseDriver {
     }
   }
 
+  /**
+   * Streams the rows of a CQL query page by page.
+   * The next page is only requested once the consumer has drained the current one,
+   * so memory stays bounded by the fetch size.
+   *
+   * @param cql - The CQL query to execute
+   * @param params - Optional parameters for the query
+   * @param options - Optional execution options (fetchSize defaults to 1000)
+   * @returns Async iterator over mapped rows
+   *
+   * @example
+   * 
+   * for await (const row of driver.stream('SELECT * FROM events', [], { fetchSize: 500 })) {
+   *   console.log(row.id);
+   * }
+   * 
+   */
+  async *stream(cql: string, params?: any[], options: QueryOptions = {}): AsyncGenerator<Record<string, any>> {
+    const fetchSize = options.fetchSize ?? 1000
+    let pageState = options.pageState
+
+    do {
+      const result = await this.query(cql, params, { ...options, fetchSize, pageState })
+      yield* result.rows
+      pageState = result.pageState ?? undefined
+    } while (pageState)
+  }
+
   /**
    * Prepares a CQL statement for repeated execution.
    * Caches prepared statements to avoid re-preparation overhead.
@@ -155,22 +247,32 @@ export class ScyllaDBDriver extends DatabaseDriver {
   async prepare(cql: string): Promise<PreparedStatement> {
     if (this.preparedStatements.has(cql)) {
       const prepared = this.preparedStatements.get(cql)
-      return new ScyllaDBPreparedStatement(this.client, prepared, this.cassandraModule.types)
+      return new ScyllaDBPreparedStatement(
+        this.client,
+        prepared,
+        this.resolveConsistency(this.config.consistency ?? "localQuorum"),
+      )
     }
 
     const prepared = await this.client.execute(cql, { prepare: true })
     this.preparedStatements.set(cql, prepared)
 
-    return new ScyllaDBPreparedStatement(this.client, prepared, this.cassandraModule.types)
+    return new ScyllaDBPreparedStatement(
+      this.client,
+      prepared,
+      this.resolveConsistency(this.config.consistency ?? "localQuorum"),
+    )
   }
 
   /**
    * Executes multiple queries as a batch operation.
-   * Provides atomicity for related operations and better performance for bulk operations.
+   * Logged batches (the default) are atomic; unlogged batches skip the batch log
+   * and should target a single partition; counter batches may only contain counter updates.
    *
    * @param queries - Array of query objects with CQL and parameters
+   * @param options - Batch type, consistency level and write timestamp
    * @returns Promise resolving to batch execution result
-   * @throws {Error} When batch execution fails
+   * @throws {Error} When batch execution fails or the consistency level is unknown
    *
    * @example
    * 
@@ -178,19 +280,399 @@ export class ScyllaDBDriver extends DatabaseDriver {
    *   { query: 'INSERT INTO users (id, name) VALUES (?, ?)', params: ['1', 'John'] },
    *   { query: 'INSERT INTO profiles (user_id, bio) VALUES (?, ?)', params: ['1', 'Developer'] }
    * ]);
+   *
+   * await driver.batch(statements, { type: 'unlogged', consistency: 'one' });
    * 
    */
-  async batch(queries: Array<{ query: string; params?: any[] }>): Promise<QueryResult> {
-    const batch = queries.map((q) => ({ query: q.query, params: q.params || [] }))
+  async batch(queries: BatchStatement[], options: BatchOptions = {}): Promise<QueryResult> {
+    const { types } = this.cassandraModule
+    const batch = queries.map((q) => ({ query: q.query, params: this.prepareParams(q.params) }))
+    const type = options.type ?? "logged"
 
-    const result = await this.client.batch(batch, {
+    const executeOptions: Record<string, any> = {
       prepare: true,
-      consistency: this.cassandraModule.types?.consistencies.localQuorum,
-    })
+      logged: type === "logged",
+      counter: type === "counter",
+      consistency: this.resolveConsistency(options.consistency ?? this.config.consistency ?? "localQuorum"),
+    }
+    const serialConsistency = options.serialConsistency ?? this.config.serialConsistency
+    if (serialConsistency) {
+      executeOptions.serialConsistency = this.resolveConsistency(serialConsistency)
+    }
+    if (options.timeout) {
+      executeOptions.readTimeout = options.timeout
+    }
+    if (options.timestamp !== undefined) {
+      executeOptions.timestamp =
+        typeof options.timestamp === "bigint" ? types.Long.fromString(options.timestamp.toString()) : options.timestamp
+    }
+
+    const result = await this.client.batch(batch, executeOptions)
+    const rows = result.rows?.map((row: any) => this.mapRow(row)) ?? []
 
     return {
       rows: [],
       rowCount: 0,
+      lwt: this.extractLwtResult(rows),
+    }
+  }
+
+  /**
+   * Gets the partition key columns of a table from the cluster metadata.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the partition key column names (empty when unknown)
+   *
+   * @example
+   * 
+   * await driver.getPartitionKeys('events'); // ['device_id', 'day']
+   * 
+   */
+  async getPartitionKeys(table: string): Promise<string[]> {
+    const metadata = await this.getTableMetadata(table)
+    return metadata?.partitionKeys?.map((column: any) => column.name) ?? []
+  }
+
+  /**
+   * Gets the clustering key columns of a table from the cluster metadata.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the clustering columns in clustering order (empty when unknown)
+   *
+   * @example
+   * 
+   * await driver.getClusteringKeys('events'); // ['ts', 'event_id']
+   * 
+   */
+  async getClusteringKeys(table: string): Promise<string[]> {
+    const metadata = await this.getTableMetadata(table)
+    return metadata?.clusteringKeys?.map((column: any) => column.name) ?? []
+  }
+
+  /**
+   * Gets the secondary index targets of a table: the column name for regular columns,
+   * `values(col)`, `keys(col)`, `entries(col)` or `full(col)` for collections.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the index targets (empty when unknown)
+   *
+   * @example
+   * 
+   * await driver.getIndexTargets('users'); // ['email', 'values(tags)', 'keys(settings)']
+   * 
+   */
+  async getIndexTargets(table: string): Promise<string[]> {
+    const metadata = await this.getTableMetadata(table)
+    return metadata?.indexes?.map((index: any) => String(index.target).replace(/"/g, "")) ?? []
+  }
+
+  /**
+   * Reads the cluster metadata of a table, cached per table until a schema statement runs through this driver.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the driver's table metadata, or undefined when the table is unknown
+   */
+  private async getTableMetadata(table: string): Promise<any> {
+    const cached = this.tableMetadata.get(table)
+    if (cached) {
+      return cached
+    }
+
+    const [keyspace, name] = table.includes(".") ? table.split(".") : [this.config.keyspace, table]
+    const metadata = await this.client.metadata.getTable(keyspace, name)
+    if (metadata) {
+      this.tableMetadata.set(table, metadata)
+    }
+    return metadata ?? undefined
+  }
+
+  /**
+   * Gets the column names of a table from the cluster metadata.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the column names (empty when unknown)
+   *
+   * @example
+   * 
+   * await driver.getColumnNames('users'); // ['id', 'email', 'name']
+   * 
+   */
+  async getColumnNames(table: string): Promise<string[]> {
+    const metadata = await this.getTableMetadata(table)
+    return metadata?.columns?.map((column: any) => column.name) ?? []
+  }
+
+  /**
+   * Reads the structure of a table from `system_schema`.
+   *
+   * @param table - Table name, optionally qualified with a keyspace
+   * @returns Promise resolving to the columns, primary key, clustering order, indexes and table options
+   * @throws {Error} When the table does not exist
+   *
+   * @example
+   * 
+   * const events = await driver.describeTable('events');
+   * events.partitionKeys; // ['device_id', 'day']
+   * events.clusteringOrder; // { ts: 'DESC' }
+   * 
+   */
+  async describeTable(table: string): Promise<TableDefinition> {
+    const [keyspace, name] = table.includes(".") ? table.split(".") : [this.config.keyspace, table]
+    const params = [keyspace, name]
+
+    const columnRows = (
+      await this.query(
+        "SELECT column_name, type, kind, position, clustering_order FROM system_schema.columns WHERE keyspace_name = ? AND table_name = ?",
+        params,
+      )
+    ).rows
+    if (columnRows.length === 0) {
+      throw new Error(`Table '${table}' does not exist`)
+    }
+
+    const keyColumns = (kind: string) =>
+      columnRows
+        .filter((row) => row.kind === kind)
+        .sort((a, b) => a.position - b.position)
+        .map((row) => row.column_name as string)
+    const partitionKeys = keyColumns("partition_key")
+    const clusteringKeys = keyColumns("clustering")
+    const primaryKey = [...partitionKeys, ...clusteringKeys]
+
+    const columns: ColumnDefinition[] = [
+      ...primaryKey.map((column) => columnRows.find((row) => row.column_name === column)),
+      ...columnRows.filter((row) => !primaryKey.includes(row.column_name)),
+    ].map((row) => ({
+      name: row.column_name,
+      type: row.type,
+      primary: primaryKey.includes(row.column_name) || undefined,
+      nullable: !primaryKey.includes(row.column_name),
+      frozen: String(row.type).startsWith("frozen<") || undefined,
+    }))
+
+    const clusteringOrder: Record<string, "ASC" | "DESC"> = {}
+    for (const column of clusteringKeys) {
+      const row = columnRows.find((r) => r.column_name === column)
+      clusteringOrder[column] = String(row.clustering_order).toUpperCase() === "DESC" ? "DESC" : "ASC"
+    }
+
+    const indexRows = (
+      await this.query("SELECT index_name, options FROM system_schema.indexes WHERE keyspace_name = ? AND table_name = ?", params)
+    ).rows
+    const indexes: IndexDefinition[] = indexRows.map((row) => ({
+      name: row.index_name,
+      columns: String(row.options?.target ?? "")
+        .split(",")
+        .map((target) => target.trim().replace(/^\w+\((.*)\)$/, "$1").replace(/"/g, ""))
+        .filter(Boolean),
+    }))
+
+    const [options] = (
+      await this.query("SELECT * FROM system_schema.tables WHERE keyspace_name = ? AND table_name = ?", params)
+    ).rows
+    const tableOptions: TableOptions = {}
+    for (const key of [
+      "bloom_filter_fp_chance",
+      "caching",
+      "comment",
+      "compaction",
+      "compression",
+      "crc_check_chance",
+      "default_time_to_live",
+      "gc_grace_seconds",
+      "speculative_retry",
+    ]) {
+      if (options?.[key] !== undefined && options[key] !== null) {
+        tableOptions[key] = options[key]
+      }
+    }
+
+    return {
+      name,
+      columns,
+      indexes,
+      foreignKeys: [],
+      partitionKeys,
+      clusteringKeys,
+      clusteringOrder,
+      tableOptions,
+    }
+  }
+
+  /**
+   * Lists the tables of the connection's keyspace.
+   *
+   * @returns Promise resolving to the table names
+   */
+  async listTables(): Promise<string[]> {
+    const result = await this.query("SELECT table_name FROM system_schema.tables WHERE keyspace_name = ?", [
+      this.config.keyspace,
+    ])
+    return result.rows.map((row) => row.table_name)
+  }
+
+  /**
+   * Lists the user-defined types of the connection's keyspace.
+   *
+   * @returns Promise resolving to the types with their fields
+   */
+  async listTypes(): Promise<UserTypeDefinition[]> {
+    const result = await this.query(
+      "SELECT type_name, field_names, field_types FROM system_schema.types WHERE keyspace_name = ?",
+      [this.config.keyspace],
+    )
+    return result.rows.map((row) => ({
+      name: row.type_name,
+      fields: (row.field_names ?? []).map((field: string, i: number) => ({ name: field, type: row.field_types[i] })),
+    }))
+  }
+
+  /**
+   * Lists the materialized views of the connection's keyspace.
+   *
+   * @returns Promise resolving to the views with their base table and filter
+   */
+  async listMaterializedViews(): Promise<MaterializedViewDefinition[]> {
+    const result = await this.query(
+      "SELECT view_name, base_table_name, where_clause FROM system_schema.views WHERE keyspace_name = ?",
+      [this.config.keyspace],
+    )
+    return result.rows.map((row) => ({
+      name: row.view_name,
+      baseTable: row.base_table_name,
+      whereClause: row.where_clause,
+    }))
+  }
+
+  /**
+   * Tries once to take a named lock with a lightweight transaction on the `scyllinx_locks` table.
+   * The lease is the TTL of the lock row, so it disappears on its own when the holder stops renewing it.
+   *
+   * @param name - Lock name
+   * @param owner - Unique identifier of the process taking the lock
+   * @param leaseMs - Lease length in milliseconds (rounded up to whole seconds)
+   * @returns Promise resolving to true when the lock was taken
+   *
+   * @example
+   * 
+   * if (await driver.acquireLock('migrations', owner, 60_000)) {
+   *   // ...
+   * }
+   * 
+   */
+  async acquireLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    await this.ensureLockTable()
+    const result = await this.query(
+      `INSERT INTO scyllinx_locks (name, owner, acquired_at) VALUES (?, ?, ?) IF NOT EXISTS USING TTL ${this.leaseSeconds(leaseMs)}`,
+      [name, owner, new Date()],
+    )
+    return result.lwt?.applied === true
+  }
+
+  /**
+   * Extends the TTL of a lock row held by `owner`.
+   *
+   * @param name - Lock name
+   * @param owner - Identifier the lock was taken with
+   * @param leaseMs - New lease length in milliseconds
+   * @returns Promise resolving to false when the row expired or belongs to another owner
+   */
+  async renewLock(name: string, owner: string, leaseMs: number): Promise<boolean> {
+    const result = await this.query(
+      `UPDATE scyllinx_locks USING TTL ${this.leaseSeconds(leaseMs)} SET owner = ?, acquired_at = ? WHERE name = ? IF owner = ?`,
+      [owner, new Date(), name, owner],
+    )
+    return result.lwt?.applied === true
+  }
+
+  /**
+   * Deletes a lock row if it is still held by `owner`.
+   *
+   * @param name - Lock name
+   * @param owner - Identifier the lock was taken with
+   * @returns Promise that resolves when the lock is released
+   */
+  async releaseLock(name: string, owner: string): Promise<void> {
+    await this.ensureLockTable()
+    await this.query("DELETE FROM scyllinx_locks WHERE name = ? IF owner = ?", [name, owner])
+  }
+
+  /**
+   * Deletes a lock row regardless of its owner.
+   *
+   * @param name - Lock name
+   * @returns Promise that resolves when the lock is removed
+   */
+  async forceReleaseLock(name: string): Promise<void> {
+    await this.ensureLockTable()
+    await this.query("DELETE FROM scyllinx_locks WHERE name = ? IF EXISTS", [name])
+  }
+
+  /**
+   * Creates the lock table once per connection.
+   *
+   * @private
+   * @returns Promise that resolves when the table exists
+   */
+  private async ensureLockTable(): Promise<void> {
+    if (this.lockTableReady) {
+      return
+    }
+    await this.query(
+      "CREATE TABLE IF NOT EXISTS scyllinx_locks (name text PRIMARY KEY, owner text, acquired_at timestamp)",
+    )
+    this.lockTableReady = true
+  }
+
+  /**
+   * Converts a lease to a CQL TTL.
+   *
+   * @private
+   * @param leaseMs - Lease length in milliseconds
+   * @returns TTL in whole seconds, at least 1
+   */
+  private leaseSeconds(leaseMs: number): number {
+    return Math.max(1, Math.ceil(leaseMs / 1000))
+  }
+
+  /**
+   * Resolves a consistency level name to the cassandra-driver constant.
+   * Accepts both driver names (`localQuorum`) and CQL names (`LOCAL_QUORUM`).
+   *
+   * @private
+   * @param level - Consistency level name
+   * @returns The cassandra-driver consistency constant
+   * @throws {Error} When the consistency level is unknown
+   */
+  private resolveConsistency(level: ConsistencyLevel): number {
+    const name =
+      level === level.toUpperCase() ? level.toLowerCase().replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()) : level
+    const consistency = this.cassandraModule.types.consistencies[name]
+    if (consistency === undefined) {
+      throw new Error(`Unknown consistency level: ${level}`)
+    }
+    return consistency
+  }
+
+  /**
+   * Extracts the outcome of a lightweight transaction from its result rows.
+   * Conditional writes return an `[applied]` column, followed by the current
+   * values of the row when the condition did not hold.
+   *
+   * @private
+   * @param rows - Mapped result rows
+   * @returns The LWT result, or undefined for unconditional statements
+   */
+  private extractLwtResult(rows?: any[]): LwtResult | undefined {
+    const first = rows?.[0]
+    if (!first || !("[applied]" in first)) {
+      return undefined
+    }
+
+    const { "[applied]": applied, ...current } = first
+    return {
+      applied: Boolean(applied),
+      current: !applied && Object.keys(current).length ? current : undefined,
     }
   }
 
@@ -300,6 +782,7 @@ export class ScyllaDBDriver extends DatabaseDriver {
       "user_defined_types",
       "counters",
       "ttl",
+      "paging_state",
     ]
     return supportedFeatures.includes(feature)
   }
@@ -323,6 +806,9 @@ export class ScyllaDBDriver extends DatabaseDriver {
   /**
    * Maps ScyllaDB values to JavaScript types.
    * Handles UUID, TimeUUID, BigDecimal, Long, Date, and other ScyllaDB-specific types.
+   * bigint/varint/counter and decimal values follow the `valueMapping` connection option;
+   * inet, date, time and duration values become their CQL string form, tuples become arrays
+   * and blobs stay Buffers.
    *
    * @private
    * @param value - The value to map
@@ -333,7 +819,8 @@ export class ScyllaDBDriver extends DatabaseDriver {
    * // Internal usage - converts ScyllaDB types to JS types
    * const uuid = mapValue(scyllaUuid); // Returns string
    * const timestamp = mapValue(scyllaTimestamp); // Returns ISO string
-   * const decimal = mapValue(scyllaBigDecimal); // Returns number
+   * const decimal = mapValue(scyllaBigDecimal); // Returns number, or "19.99" with valueMapping.decimal = "string"
+   * const ip = mapValue(scyllaInetAddress); // Returns "10.0.0.1"
    * 
    */
   private mapValue(value: any): any {
@@ -350,17 +837,120 @@ export class ScyllaDBDriver extends DatabaseDriver {
       return value.toString()
     }
     if (value instanceof types.BigDecimal) {
-      return value.toNumber()
+      return this.mapDecimal(value)
+    }
+    if (typeof value === "bigint" || value instanceof types.Long || value instanceof types.Integer) {
+      return this.mapBigInteger(value)
     }
-    if (value instanceof types.Long) {
-      return value.toNumber()
+    if (
+      value instanceof types.InetAddress ||
+      value instanceof types.LocalDate ||
+      value instanceof types.LocalTime ||
+      value instanceof types.Duration
+    ) {
+      return value.toString()
     }
     if (value instanceof Date) {
       return value.toISOString()
     }
+    if (Buffer.isBuffer(value)) {
+      return value
+    }
+    if (value instanceof types.Tuple) {
+      return this.mapValue(value.values())
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.mapValue(item))
+    }
+    if (Object.getPrototypeOf(value) === Object.prototype) {
+      // map<> columns and UDTs
+      const mapped: Record<string, any> = {}
+      for (const [key, item] of Object.entries(value)) {
+        mapped[key] = this.mapValue(item)
+      }
+      return mapped
+    }
+
+    return value
+  }
+
+  /**
+   * Prepares bound parameters for the driver.
+   * BigInt values are sent as decimal strings, which the driver encodes losslessly
+   * for bigint, counter and varint columns.
+   *
+   * @private
+   * @param params - Bound parameters
+   * @returns Parameters accepted by cassandra-driver
+   */
+  private prepareParams(params?: any[]): any[] {
+    return (params || []).map((param) => this.prepareParam(param))
+  }
 
+  /**
+   * Prepares a single bound value, recursing into arrays and plain objects (maps and UDTs).
+   * TupleValue elements are bound as a driver Tuple; plain arrays stay lists and sets.
+   *
+   * @private
+   * @param value - Bound value
+   * @returns Value accepted by cassandra-driver
+   */
+  private prepareParam(value: any): any {
+    if (typeof value === "bigint") {
+      return value.toString()
+    }
+    if (value instanceof TupleValue) {
+      return this.cassandraModule.types.Tuple.fromArray(value.values.map((item) => this.prepareParam(item)))
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.prepareParam(item))
+    }
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      const prepared: Record<string, any> = {}
+      for (const [key, item] of Object.entries(value)) {
+        prepared[key] = this.prepareParam(item)
+      }
+      return prepared
+    }
     return value
   }
+
+  /**
+   * Converts a bigint, counter or varint value according to `valueMapping.bigint`.
+   *
+   * @private
+   * @param value - Long, Integer, or BigInt when the driver's BigInt encoding is on
+   * @returns number, bigint or decimal string
+   */
+  private mapBigInteger(value: any): number | bigint | string {
+    const digits = value.toString()
+    switch (this.config.valueMapping?.bigint ?? "number") {
+      case "bigint":
+        return BigInt(digits)
+      case "string":
+        return digits
+      default:
+        return Number(digits)
+    }
+  }
+
+  /**
+   * Converts a decimal value according to `valueMapping.decimal`.
+   *
+   * @private
+   * @param value - The driver's BigDecimal
+   * @returns number, decimal string or the BigDecimal itself
+   */
+  private mapDecimal(value: any): any {
+    switch (this.config.valueMapping?.decimal ?? "number") {
+      case "decimal":
+        return value
+      case "string":
+        return value.toString()
+      default:
+        return value.toNumber()
+    }
+  }
 }
 
 /**
@@ -382,11 +972,12 @@ class ScyllaDBPreparedStatement implements PreparedStatement {
    *
    * @param client - The ScyllaDB client instance
    * @param prepared - The native prepared statement
+   * @param consistency - Resolved consistency level used for every execution
    */
   constructor(
     private client: any,
     private prepared: any,
-    private types: any
+    private consistency: number
   ) {}
 
   /**
@@ -404,7 +995,7 @@ class ScyllaDBPreparedStatement implements PreparedStatement {
    */
   async execute(bindings?: any[]): Promise<QueryResult> {
     const result = await this.client.execute(this.prepared, bindings || [], {
-      consistency: this.types.consistencies.localQuorum,
+      consistency: this.consistency,
     })
 
     return {
@@ -1,4 +1,4 @@
-import { TableDefinition } from "@/types"
+import { TableDefinition, CollectionUpdate } from "@/types"
 import { QueryGrammar } from "./QueryGrammar"
 
 /**
@@ -11,8 +11,11 @@ export class MongoDBGrammar extends QueryGrammar {
   compileSelect(query: any): string {
     const hasGroups = Array.isArray(query.groups) && query.groups.length > 0;
     const hasHavings = Array.isArray(query.havings) && query.havings.length > 0;
+    const hasRelations = (query.wheres || []).some((w: any) => w.type === 'has') || query.relationCounts?.length > 0;
 
-    if (hasGroups || hasHavings) {
+    if (hasRelations) {
+      return this.compileLookupSelect(query);
+    } else if (hasGroups || hasHavings) {
       return this.compileAggregateSelect(query);
     } else {
       return this.compileFindSelect(query);
@@ -106,6 +109,122 @@ export class MongoDBGrammar extends QueryGrammar {
     return `${coll}:aggregate:${JSON.stringify(pipeline)}`
   }
 
+  /**
+   * Compiles a SELECT with relationship existence filters or counts into an
+   * aggregation pipeline using $lookup (requires MongoDB 5.0+).
+   *
+   * @param query - Query components including wheres, relationCounts, orders, limit, offset.
+   * @returns {string} - Directive string in the form "collection:aggregate:{pipeline}"
+   */
+  compileLookupSelect(query: any): string {
+    const coll = query.from
+    const pipeline: any[] = this.compileFilterStages(query.wheres || [])
+    const lookupFields = pipeline.filter(stage => stage.$lookup).map(stage => stage.$lookup.as)
+
+    ;(query.relationCounts || []).forEach((count: any, i: number) => {
+      const as = `__count_${i}`
+      lookupFields.push(as)
+      pipeline.push(this.compileRelationLookup(count.relation, as))
+      pipeline.push({ $addFields: { [count.alias]: { $size: `$${as}` } } })
+    })
+
+    const options = this.compileOptions(query)
+    if (options.projection) {
+      for (const count of query.relationCounts || []) {
+        options.projection[count.alias] = 1
+      }
+      pipeline.push({ $project: options.projection })
+    } else if (lookupFields.length) {
+      pipeline.push({ $project: Object.fromEntries(lookupFields.map((f: string) => [f, 0])) })
+    }
+
+    if (options.sort) {
+      pipeline.push({ $sort: options.sort })
+    }
+    if (options.skip) {
+      pipeline.push({ $skip: options.skip })
+    }
+    if (options.limit) {
+      pipeline.push({ $limit: options.limit })
+    }
+
+    return `${coll}:aggregate:${JSON.stringify({ pipeline })}`
+  }
+
+  /**
+   * Builds pipeline stages for a where list: a $match for plain conditions
+   * followed by a $lookup and size check for every relationship existence clause.
+   *
+   * @param wheres - Array of where clause objects.
+   * @returns Array of pipeline stages.
+   */
+  private compileFilterStages(wheres: any[]): any[] {
+    const stages: any[] = [{ $match: this.compileWheres(wheres) }]
+
+    wheres.filter(w => w.type === 'has').forEach((w, i) => {
+      const as = `__has_${i}`
+      stages.push(this.compileRelationLookup(w.relation, as))
+      stages.push({ $match: { $expr: this.compileCountExpression(`$${as}`, w.operator, w.value) } })
+    })
+
+    return stages
+  }
+
+  /**
+   * Compiles a $lookup of related documents, going through the pivot collection for many-to-many.
+   *
+   * @param relation - Relation existence descriptor.
+   * @param as - Output array field.
+   * @returns The $lookup stage.
+   */
+  private compileRelationLookup(relation: any, as: string): any {
+    const pipeline = this.compileFilterStages(relation.wheres || [])
+
+    if (!relation.pivot) {
+      return {
+        $lookup: { from: relation.table, localField: relation.localKey, foreignField: relation.foreignKey, pipeline, as }
+      }
+    }
+
+    return {
+      $lookup: {
+        from: relation.pivot.table,
+        localField: relation.localKey,
+        foreignField: relation.foreignKey,
+        pipeline: [
+          {
+            $lookup: {
+              from: relation.table,
+              localField: relation.pivot.relatedPivotKey,
+              foreignField: relation.pivot.relatedKey,
+              pipeline,
+              as: '__related',
+            }
+          },
+          { $match: { '__related.0': { $exists: true } } },
+        ],
+        as,
+      }
+    }
+  }
+
+  /**
+   * Compiles a comparison between the size of an array field and a count.
+   *
+   * @param field - Array field reference (e.g. "$__has_0").
+   * @param operator - SQL-like comparison operator.
+   * @param count - Count to compare against.
+   * @returns The $expr comparison.
+   */
+  private compileCountExpression(field: string, operator: string, count: number): any {
+    const operators: Record<string, string> = {
+      '=': '$eq', '!=': '$ne', '<>': '$ne', '>': '$gt', '>=': '$gte', '<': '$lt', '<=': '$lte',
+    }
+    const op = operators[operator]
+    if (!op) throw new Error(`Unsupported relationship count operator: ${operator}`)
+    return { [op]: [{ $size: field }, count] }
+  }
+
   /**
    * Parses SQL-like aggregate expressions and compiles into MongoDB accumulators.
    *
@@ -163,27 +282,57 @@ export class MongoDBGrammar extends QueryGrammar {
   }
 
   /**
-   * Converts UPDATE into updateMany directive with $set.
+   * Converts UPDATE into updateMany directive with $set, $inc and collection operators.
    *
-   * @param query - Query components including table, wheres, and values.
+   * @param query - Query components including table, wheres, ifConditions, values, increments and collections.
    * @returns {string} - Directive string for update operation.
    */
   compileUpdate(query: any): string {
     const coll = query.table
-    const filter = this.compileWheres(query.wheres)
-    const update = { $set: query.values }
+    const filter = this.compileWheres([...(query.wheres ?? []), ...(query.ifConditions ?? [])])
+    const update: Record<string, any> = {}
+    if (Object.keys(query.values).length) update.$set = query.values
+    if (Object.keys(query.increments ?? {}).length) update.$inc = query.increments
+    for (const u of query.collections ?? []) {
+      const [operator, fields] = this.compileCollectionOperator(u)
+      update[operator] = { ...update[operator], ...fields }
+    }
     return `${coll}:updateMany:${JSON.stringify({ filter, update })}`
   }
 
+  /**
+   * Maps a collection mutation to a MongoDB update operator.
+   * Elements from a Set are added with $addToSet so they stay unique.
+   *
+   * @param u - Collection mutation
+   * @returns Tuple of update operator and its fields
+   */
+  private compileCollectionOperator(u: CollectionUpdate): [string, Record<string, any>] {
+    switch (u.operation) {
+      case 'append':
+        return [u.unique ? '$addToSet' : '$push', { [u.column]: { $each: u.value } }]
+      case 'prepend':
+        return ['$push', { [u.column]: { $each: u.value, $position: 0 } }]
+      case 'remove':
+        return ['$pull', { [u.column]: { $in: u.value } }]
+      case 'putEntries':
+        return ['$set', Object.fromEntries(Object.entries(u.value).map(([k, v]) => [`${u.column}.${k}`, v]))]
+      case 'removeKeys':
+        return ['$unset', Object.fromEntries(u.value.map((k: any) => [`${u.column}.${k}`, '']))]
+      case 'setIndex':
+        return ['$set', { [`${u.column}.${u.index}`]: u.value }]
+    }
+  }
+
   /**
    * Converts DELETE into deleteMany directive.
    *
-   * @param query - Query components including table and wheres.
+   * @param query - Query components including table, wheres, and ifConditions.
    * @returns {string} - Directive string for delete operation.
    */
   compileDelete(query: any): string {
     const coll = query.table
-    const filter = this.compileWheres(query.wheres)
+    const filter = this.compileWheres([...(query.wheres ?? []), ...(query.ifConditions ?? [])])
     return `${coll}:deleteMany:${JSON.stringify({ filter })}`
   }
 
@@ -216,6 +365,9 @@ export class MongoDBGrammar extends QueryGrammar {
         case 'notNull':
           filter[w.column] = { $ne: null }
           break
+        case 'nested':
+          filter.$and = [...(filter.$and ?? []), this.compileWheres(w.wheres)]
+          break
         default:
           break
       }
@@ -321,11 +473,14 @@ export class MongoDBGrammar extends QueryGrammar {
   switch (type) {
     case "int":
     case "integer":
+    case "smallInteger":
+    case "tinyInteger":
       return "int";
     case "float":
     case "double":
-    case "decimal":
       return "double";
+    case "decimal":
+      return ["decimal", "double", "string"];
     case "string":
       return "string";
     case "bool":
@@ -339,8 +494,12 @@ export class MongoDBGrammar extends QueryGrammar {
     case "object":
       return "object";
     case "json":
+    case "udt":
       return "object";
+    case "tuple":
+      return "array";
     case "uuid":
+    case "binary":
       return "binData";
     default:
       return "string"; // fallback
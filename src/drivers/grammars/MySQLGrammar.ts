@@ -14,10 +14,14 @@ export class MySQLGrammar extends QueryGrammar {
    * Compiles a SELECT query into SQL.
    *
    * @param query - Query components including ctes, columns, from, joins,
-   *                wheres, groups, havings, orders, limit, offset.
+   *                wheres, groups, havings, orders, limit, offset, groupLimit.
    * @returns The compiled SQL SELECT statement.
    */
   compileSelect(query: any): string {
+    if (query.groupLimit) {
+      return this.compileGroupLimit(query)
+    }
+
     const components: string[] = []
 
     // WITH (CTE)
@@ -26,11 +30,7 @@ export class MySQLGrammar extends QueryGrammar {
     }
 
     // SELECT clause
-    components.push(
-      query.columns?.length
-        ? `SELECT ${query.columns.join(', ')}`
-        : 'SELECT *'
-    )
+    components.push(`SELECT ${query.distinct ? 'DISTINCT ' : ''}${this.compileColumns(query)}`)
 
     // FROM clause
     if (query.from) {
@@ -103,18 +103,22 @@ export class MySQLGrammar extends QueryGrammar {
   /**
    * Compiles an UPDATE query into SQL, with optional ORDER BY and LIMIT.
    *
-   * @param query - Contains table, values, wheres, orders, and limit.
+   * @param query - Contains table, values, increments (compiled to `col = col + ?`), wheres, orders, and limit.
    * @returns The compiled SQL UPDATE statement.
    */
   compileUpdate(query: any): string {
     const table = this.wrapTable(query.table)
-    const sets = Object.keys(query.values)
-      .map(c => `${this.wrapColumn(c)} = ?`)
-      .join(', ')
+    const sets = [
+      ...Object.keys(query.values).map(c => `${this.wrapColumn(c)} = ?`),
+      ...Object.keys(query.increments ?? {}).map(c => `${this.wrapColumn(c)} = ${this.wrapColumn(c)} + ?`),
+      ...(query.collections ?? []).map((u: any) => this.compileCollectionUpdate(u)),
+    ].join(', ')
     let sql = `UPDATE ${table} SET ${sets}`
 
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     if (query.orders?.length) {
       const orderStr = query.orders
@@ -138,8 +142,10 @@ export class MySQLGrammar extends QueryGrammar {
   compileDelete(query: any): string {
     let sql = `DELETE FROM ${this.wrapTable(query.table)}`
 
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     if (query.orders?.length) {
       const orderStr = query.orders
@@ -156,7 +162,7 @@ export class MySQLGrammar extends QueryGrammar {
 
   /**
    * Compiles WHERE clauses into SQL.
-   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, and raw.
+   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, relationship existence, nested groups, and raw.
    *
    * @param wheres - Array of where clause objects.
    * @returns The compiled WHERE clause string.
@@ -173,12 +179,74 @@ export class MySQLGrammar extends QueryGrammar {
         case 'notNull':  return `${prefix}${this.wrapColumn(w.column)} IS NOT NULL`
         case 'exists':   return `${prefix}EXISTS (${w.query})`
         case 'notExists':return `${prefix}NOT EXISTS (${w.query})`
+        case 'has':      return `${prefix}${this.compileHas(w)}`
+        case 'nested':   return `${prefix}(${this.compileWheres(w.wheres)})`
         case 'raw':      return `${prefix}${w.sql}`
         default:         return ''
       }
     }).join('')
   }
 
+  /**
+   * Compiles the select list, appending relationship count subqueries.
+   *
+   * @param query - Query components including columns, from and relationCounts.
+   * @returns The compiled select list.
+   */
+  private compileColumns(query: any): string {
+    const columns: string[] = query.columns?.length ? [...query.columns] : ['*']
+    if (!query.relationCounts?.length) return columns.join(', ')
+
+    // Qualify * so it can be combined with other select expressions
+    return [
+      ...columns.map(c => c === '*' ? `${this.wrapTable(query.from)}.*` : c),
+      ...query.relationCounts.map((c: any) =>
+        `(${this.compileRelationSubquery(c.relation, query.from, 'COUNT(*)')}) AS ${this.wrapColumn(c.alias)}`
+      ),
+    ].join(', ')
+  }
+
+  /**
+   * Compiles a relationship existence WHERE clause as EXISTS, NOT EXISTS or a count comparison.
+   *
+   * @param where - Where clause of type 'has'.
+   * @returns The compiled condition.
+   */
+  private compileHas(where: any): string {
+    switch (where.mode) {
+      case 'exists':    return `EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      case 'notExists': return `NOT EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      default:          return `(${this.compileRelationSubquery(where.relation, where.parentTable, 'COUNT(*)')}) ${where.operator} ?`
+    }
+  }
+
+  /**
+   * Compiles a correlated subquery over the related (and pivot) table.
+   *
+   * @param relation - Relation existence descriptor.
+   * @param parentTable - Table of the outer query.
+   * @param select - Select expression for the subquery.
+   * @returns The compiled subquery.
+   */
+  private compileRelationSubquery(relation: any, parentTable: string, select: string): string {
+    let sql = `SELECT ${select} FROM ${this.wrapTable(relation.table)}`
+
+    if (relation.pivot) {
+      const pivotKey = this.wrapColumn(`${relation.pivot.table}.${relation.pivot.relatedPivotKey}`)
+      const relatedKey = this.wrapColumn(`${relation.table}.${relation.pivot.relatedKey}`)
+      sql += ` INNER JOIN ${this.wrapTable(relation.pivot.table)} ON ${pivotKey} = ${relatedKey}`
+    }
+
+    const keyTable = relation.pivot ? relation.pivot.table : relation.table
+    sql += ` WHERE ${this.wrapColumn(`${keyTable}.${relation.foreignKey}`)} = ${this.wrapColumn(`${parentTable}.${relation.localKey}`)}`
+
+    if (relation.wheres?.length) {
+      sql += ` AND (${this.compileWheres(relation.wheres)})`
+    }
+
+    return sql
+  }
+
   /**
    * Compiles JOIN clauses into SQL.
    *
@@ -250,6 +318,9 @@ export class MySQLGrammar extends QueryGrammar {
       case 'bigIncrements':
       case 'integer':    return 'INT'
       case 'bigInteger': return 'BIGINT'
+      case 'smallInteger': return 'SMALLINT'
+      case 'tinyInteger': return 'TINYINT'
+      case 'varint':     return 'DECIMAL(65,0)'
       case 'string':     return column.length ? `VARCHAR(${column.length})` : 'VARCHAR(255)'
       case 'text':       return 'TEXT'
       case 'boolean':    return 'TINYINT(1)'
@@ -262,8 +333,13 @@ export class MySQLGrammar extends QueryGrammar {
       case 'timestamp':
       case 'dateTime':   return 'DATETIME'
       case 'time':       return 'TIME'
-      case 'binary':     return 'BLOB'
-      case 'json':       return 'JSON'
+      case 'binary':
+      case 'blob':       return 'BLOB'
+      case 'inet':       return 'VARCHAR(45)'
+      case 'duration':   return 'VARCHAR(64)'
+      case 'json':
+      case 'udt':
+      case 'tuple':      return 'JSON'
       case 'uuid':       return 'CHAR(36)'
       default:           return 'TEXT'
     }
@@ -1,4 +1,4 @@
-import { TableDefinition, ColumnDefinition } from "@/types"
+import { TableDefinition, ColumnDefinition, CollectionUpdate } from "@/types"
 import { QueryGrammar } from "./QueryGrammar"
 
 /**
@@ -14,10 +14,14 @@ export class PostgreSQLGrammar extends QueryGrammar {
    * Compiles a SELECT query into SQL.
    *
    * @param query - Query components including ctes, columns, from, joins,
-   *                wheres, groups, havings, orders, limit, offset.
+   *                wheres, groups, havings, orders, limit, offset, groupLimit.
    * @returns The compiled SQL SELECT statement.
    */
   compileSelect(query: any): string {
+    if (query.groupLimit) {
+      return this.compileGroupLimit(query)
+    }
+
     const components: string[] = []
 
     // WITH (CTE)
@@ -26,11 +30,7 @@ export class PostgreSQLGrammar extends QueryGrammar {
     }
 
     // SELECT clause
-    components.push(
-      query.columns?.length
-        ? `SELECT ${query.columns.join(', ')}`
-        : 'SELECT *'
-    )
+    components.push(`SELECT ${query.distinct ? 'DISTINCT ' : ''}${this.compileColumns(query)}`)
 
     // FROM clause
     if (query.from) {
@@ -103,18 +103,22 @@ export class PostgreSQLGrammar extends QueryGrammar {
   /**
    * Compiles an UPDATE query into SQL with optional RETURNING.
    *
-   * @param query - Contains table, values, wheres, and optional returning columns.
+   * @param query - Contains table, values, increments (compiled to `col = col + ?`), collections, wheres, and optional returning columns.
    * @returns The compiled SQL UPDATE statement.
    */
   compileUpdate(query: any): string {
     const table = this.wrapTable(query.table)
-    const sets = Object.keys(query.values)
-      .map(c => `${this.wrapColumn(c)} = ?`)
-      .join(', ')
+    const sets = [
+      ...Object.keys(query.values).map(c => `${this.wrapColumn(c)} = ?`),
+      ...Object.keys(query.increments ?? {}).map(c => `${this.wrapColumn(c)} = ${this.wrapColumn(c)} + ?`),
+      ...(query.collections ?? []).map((u: CollectionUpdate) => this.compileCollectionUpdate(u)),
+    ].join(', ')
     let sql = `UPDATE ${table} SET ${sets}`
 
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     if (query.returning?.length) {
       sql += ` RETURNING ${query.returning.join(', ')}`
@@ -123,6 +127,51 @@ export class PostgreSQLGrammar extends QueryGrammar {
     return sql
   }
 
+  /**
+   * Compiles an in-place collection mutation on a JSONB column.
+   * Lists and sets are stored as JSON arrays, maps as JSON objects.
+   *
+   * @param update - Collection mutation
+   * @returns SQL SET assignment
+   */
+  compileCollectionUpdate(update: CollectionUpdate): string {
+    const c = this.wrapColumn(update.column)
+
+    switch (update.operation) {
+      case 'append':
+        return update.unique
+          ? `${c} = COALESCE((SELECT jsonb_agg(DISTINCT e) FROM jsonb_array_elements(COALESCE(${c}, '[]'::jsonb) || ?::jsonb) e), '[]'::jsonb)`
+          : `${c} = COALESCE(${c}, '[]'::jsonb) || ?::jsonb`
+      case 'prepend':
+        return `${c} = ?::jsonb || COALESCE(${c}, '[]'::jsonb)`
+      case 'remove':
+        return `${c} = COALESCE((SELECT jsonb_agg(e) FROM jsonb_array_elements(${c}) e WHERE NOT ?::jsonb @> jsonb_build_array(e)), '[]'::jsonb)`
+      case 'putEntries':
+        return `${c} = COALESCE(${c}, '{}'::jsonb) || ?::jsonb`
+      case 'removeKeys':
+        return `${c} = ${c} - ?::text[]`
+      case 'setIndex':
+        return `${c} = jsonb_set(${c}, ?::text[], ?::jsonb)`
+    }
+  }
+
+  /**
+   * Encodes collection mutation parameters as JSON for the JSONB functions.
+   *
+   * @param update - Collection mutation
+   * @returns Parameter values
+   */
+  getCollectionParams(update: CollectionUpdate): any[] {
+    switch (update.operation) {
+      case 'removeKeys':
+        return [update.value.map(String)]
+      case 'setIndex':
+        return [[String(update.index)], JSON.stringify(update.value)]
+      default:
+        return [JSON.stringify(update.value)]
+    }
+  }
+
   /**
    * Compiles a DELETE query into SQL with optional RETURNING.
    *
@@ -132,8 +181,10 @@ export class PostgreSQLGrammar extends QueryGrammar {
   compileDelete(query: any): string {
     let sql = `DELETE FROM ${this.wrapTable(query.table)}`
 
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     if (query.returning?.length) {
       sql += ` RETURNING ${query.returning.join(', ')}`
@@ -144,7 +195,7 @@ export class PostgreSQLGrammar extends QueryGrammar {
 
   /**
    * Compiles WHERE clauses into SQL.
-   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, and raw.
+   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, relationship existence, nested groups, and raw.
    *
    * @param wheres - Array of where clause objects.
    * @returns The compiled WHERE clause string.
@@ -161,12 +212,74 @@ export class PostgreSQLGrammar extends QueryGrammar {
         case 'notNull':  return `${prefix}${this.wrapColumn(w.column)} IS NOT NULL`
         case 'exists':   return `${prefix}EXISTS (${w.query})`
         case 'notExists':return `${prefix}NOT EXISTS (${w.query})`
+        case 'has':      return `${prefix}${this.compileHas(w)}`
+        case 'nested':   return `${prefix}(${this.compileWheres(w.wheres)})`
         case 'raw':      return `${prefix}${w.sql}`
         default:         return ''
       }
     }).join('')
   }
 
+  /**
+   * Compiles the select list, appending relationship count subqueries.
+   *
+   * @param query - Query components including columns, from and relationCounts.
+   * @returns The compiled select list.
+   */
+  private compileColumns(query: any): string {
+    const columns: string[] = query.columns?.length ? [...query.columns] : ['*']
+    if (!query.relationCounts?.length) return columns.join(', ')
+
+    // Qualify * so it can be combined with other select expressions
+    return [
+      ...columns.map(c => c === '*' ? `${this.wrapTable(query.from)}.*` : c),
+      ...query.relationCounts.map((c: any) =>
+        `(${this.compileRelationSubquery(c.relation, query.from, 'COUNT(*)')}) AS ${this.wrapColumn(c.alias)}`
+      ),
+    ].join(', ')
+  }
+
+  /**
+   * Compiles a relationship existence WHERE clause as EXISTS, NOT EXISTS or a count comparison.
+   *
+   * @param where - Where clause of type 'has'.
+   * @returns The compiled condition.
+   */
+  private compileHas(where: any): string {
+    switch (where.mode) {
+      case 'exists':    return `EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      case 'notExists': return `NOT EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      default:          return `(${this.compileRelationSubquery(where.relation, where.parentTable, 'COUNT(*)')}) ${where.operator} ?`
+    }
+  }
+
+  /**
+   * Compiles a correlated subquery over the related (and pivot) table.
+   *
+   * @param relation - Relation existence descriptor.
+   * @param parentTable - Table of the outer query.
+   * @param select - Select expression for the subquery.
+   * @returns The compiled subquery.
+   */
+  private compileRelationSubquery(relation: any, parentTable: string, select: string): string {
+    let sql = `SELECT ${select} FROM ${this.wrapTable(relation.table)}`
+
+    if (relation.pivot) {
+      const pivotKey = this.wrapColumn(`${relation.pivot.table}.${relation.pivot.relatedPivotKey}`)
+      const relatedKey = this.wrapColumn(`${relation.table}.${relation.pivot.relatedKey}`)
+      sql += ` INNER JOIN ${this.wrapTable(relation.pivot.table)} ON ${pivotKey} = ${relatedKey}`
+    }
+
+    const keyTable = relation.pivot ? relation.pivot.table : relation.table
+    sql += ` WHERE ${this.wrapColumn(`${keyTable}.${relation.foreignKey}`)} = ${this.wrapColumn(`${parentTable}.${relation.localKey}`)}`
+
+    if (relation.wheres?.length) {
+      sql += ` AND (${this.compileWheres(relation.wheres)})`
+    }
+
+    return sql
+  }
+
   /**
    * Compiles JOIN clauses into SQL.
    *
@@ -243,6 +356,9 @@ export class PostgreSQLGrammar extends QueryGrammar {
       case 'bigserial':   return 'BIGSERIAL'
       case 'integer':     return 'INTEGER'
       case 'bigInteger':  return 'BIGINT'
+      case 'smallInteger':
+      case 'tinyInteger': return 'SMALLINT'
+      case 'varint':      return 'NUMERIC'
       case 'string':      return column.length ? `VARCHAR(${column.length})` : 'VARCHAR'
       case 'text':        return 'TEXT'
       case 'boolean':     return 'BOOLEAN'
@@ -255,11 +371,16 @@ export class PostgreSQLGrammar extends QueryGrammar {
       case 'timestamp':   return 'TIMESTAMP'
       case 'timestamptz': return 'TIMESTAMPTZ'
       case 'time':        return 'TIME'
-      case 'interval':    return 'INTERVAL'
+      case 'interval':
+      case 'duration':    return 'INTERVAL'
+      case 'inet':        return 'INET'
       case 'json':        return 'JSON'
-      case 'jsonb':       return 'JSONB'
+      case 'jsonb':
+      case 'udt':
+      case 'tuple':       return 'JSONB'
       case 'uuid':        return 'UUID'
-      case 'binary':      return 'BYTEA'
+      case 'binary':
+      case 'blob':        return 'BYTEA'
       default:            return 'TEXT'
     }
   }
@@ -1,4 +1,7 @@
-import type { TableDefinition } from "@/types"
+import type { CollectionUpdate, TableDefinition } from "@/types"
+
+/** Alias of the row number column added by compileGroupLimit() */
+export const GROUP_ROW_COLUMN = "scyllinx_row"
 
 /**
  * Abstract base class for query grammars.
@@ -44,6 +47,47 @@ export abstract class QueryGrammar {
    */
   abstract compileSelect(query: any): string
 
+  /**
+   * Compiles a SELECT that keeps the first `groupLimit.count` rows of each value of
+   * `groupLimit.column`, numbered with ROW_NUMBER() in the query's order.
+   * The rows carry an extra `scyllinx_row` column. Used by SQL grammars for `limitPerGroup()`.
+   *
+   * @param query - Query components object with a groupLimit
+   * @returns Compiled SELECT SQL string
+   *
+   * @example
+   *
+   * grammar.compileGroupLimit({
+   *   from: 'posts',
+   *   wheres: [{ type: 'in', column: 'user_id', values: [1, 2] }],
+   *   orders: [{ column: 'created_at', direction: 'desc' }],
+   *   groupLimit: { column: 'user_id', count: 3 }
+   * });
+   * // SELECT * FROM (SELECT "posts".*, ROW_NUMBER() OVER (PARTITION BY "user_id" ORDER BY "created_at" DESC) AS "scyllinx_row"
+   * //   FROM "posts" WHERE "user_id" IN (?, ?)) AS "scyllinx_grouped" WHERE "scyllinx_row" <= 3 ORDER BY "scyllinx_row"
+   *
+   */
+  compileGroupLimit(query: any): string {
+    const { column, count } = query.groupLimit
+    const orders = query.orders?.length
+      ? ` ORDER BY ${query.orders.map((o: any) => `${this.wrapColumn(o.column)} ${o.direction.toUpperCase()}`).join(', ')}`
+      : ''
+    const columns = (query.columns?.length ? query.columns : ['*']).map((c: string) =>
+      c === '*' ? `${this.wrapTable(query.from)}.*` : c
+    )
+    const row = this.wrapColumn(GROUP_ROW_COLUMN)
+
+    const inner = this.compileSelect({
+      ...query,
+      columns: [...columns, `ROW_NUMBER() OVER (PARTITION BY ${this.wrapColumn(column)}${orders}) AS ${row}`],
+      orders: [],
+      limit: undefined,
+      offset: undefined,
+      groupLimit: undefined,
+    })
+    return `SELECT * FROM (${inner}) AS ${this.wrapTable('scyllinx_grouped')} WHERE ${row} <= ${Number(count)} ORDER BY ${row}`
+  }
+
   /**
    * Compiles an INSERT query into SQL.
    * Must be implemented by concrete grammar classes.
@@ -83,6 +127,29 @@ export abstract class QueryGrammar {
    */
   abstract compileUpdate(query: any): string
 
+  /**
+   * Compiles an in-place collection mutation into a SET assignment.
+   * Grammars without collection support throw.
+   *
+   * @param update - Collection mutation
+   * @returns SET assignment, e.g. "tags = tags + ?"
+   *
+   * @throws {Error} When the database has no collection operators
+   */
+  compileCollectionUpdate(update: CollectionUpdate): string {
+    throw new Error(`${this.constructor.name} does not support collection operators (${update.operation}).`)
+  }
+
+  /**
+   * Gets the parameters bound by a compiled collection mutation, in placeholder order.
+   *
+   * @param update - Collection mutation
+   * @returns Parameter values
+   */
+  getCollectionParams(update: CollectionUpdate): any[] {
+    return update.operation === "setIndex" ? [update.index, update.value] : [update.value]
+  }
+
   /**
    * Compiles a DELETE query into SQL.
    * Must be implemented by concrete grammar classes.
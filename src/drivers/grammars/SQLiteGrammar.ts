@@ -13,10 +13,14 @@ export class SQLiteGrammar extends QueryGrammar {
    * Compiles a SELECT query into SQL.
    *
    * @param query - Query components including ctes, columns, from, joins,
-   *                wheres, groups, havings, orders, limit, offset.
+   *                wheres, groups, havings, orders, limit, offset, groupLimit.
    * @returns The compiled SQL SELECT statement.
    */
   compileSelect(query: any): string {
+    if (query.groupLimit) {
+      return this.compileGroupLimit(query)
+    }
+
     const components: string[] = []
 
     // WITH (CTE)
@@ -25,11 +29,7 @@ export class SQLiteGrammar extends QueryGrammar {
     }
 
     // SELECT clause
-    components.push(
-      query.columns?.length
-        ? `SELECT ${query.columns.join(', ')}`
-        : 'SELECT *'
-    )
+    components.push(`SELECT ${query.distinct ? 'DISTINCT ' : ''}${this.compileColumns(query)}`)
 
     // FROM clause
     if (query.from) components.push(`FROM ${this.wrapTable(query.from)}`)
@@ -84,18 +84,22 @@ export class SQLiteGrammar extends QueryGrammar {
   /**
    * Compiles an UPDATE query into SQL.
    *
-   * @param query - Contains table, values, and wheres clauses.
+   * @param query - Contains table, values, increments (compiled to `col = col + ?`), and wheres clauses.
    * @returns The compiled SQL UPDATE statement.
    */
   compileUpdate(query: any): string {
     const table = this.wrapTable(query.table)
-    const sets = Object.keys(query.values)
-      .map(c => `${this.wrapColumn(c)} = ?`)
-      .join(', ')
+    const sets = [
+      ...Object.keys(query.values).map(c => `${this.wrapColumn(c)} = ?`),
+      ...Object.keys(query.increments ?? {}).map(c => `${this.wrapColumn(c)} = ${this.wrapColumn(c)} + ?`),
+      ...(query.collections ?? []).map((u: any) => this.compileCollectionUpdate(u)),
+    ].join(', ')
 
     let sql = `UPDATE ${table} SET ${sets}`
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     return sql
   }
@@ -108,15 +112,17 @@ export class SQLiteGrammar extends QueryGrammar {
    */
   compileDelete(query: any): string {
     let sql = `DELETE FROM ${this.wrapTable(query.table)}`
-    if (query.wheres?.length) {
-      sql += ` WHERE ${this.compileWheres(query.wheres)}`
+    // IF conditions become plain WHERE predicates outside of CQL
+    const wheres = [...(query.wheres ?? []), ...(query.ifConditions ?? [])]
+    if (wheres.length) {
+      sql += ` WHERE ${this.compileWheres(wheres)}`
     }
     return sql
   }
 
   /**
    * Compiles WHERE clauses into SQL.
-   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, and raw.
+   * Supports basic, IN, NOT IN, BETWEEN, NULL checks, EXISTS, relationship existence, nested groups, and raw.
    *
    * @param wheres - Array of where clause objects.
    * @returns Compiled WHERE clause string.
@@ -133,12 +139,74 @@ export class SQLiteGrammar extends QueryGrammar {
         case 'notNull':  return `${prefix}${this.wrapColumn(w.column)} IS NOT NULL`
         case 'exists':   return `${prefix}EXISTS (${w.query})`
         case 'notExists':return `${prefix}NOT EXISTS (${w.query})`
+        case 'has':      return `${prefix}${this.compileHas(w)}`
+        case 'nested':   return `${prefix}(${this.compileWheres(w.wheres)})`
         case 'raw':      return `${prefix}${w.sql}`
         default:         return ''
       }
     }).join('')
   }
 
+  /**
+   * Compiles the select list, appending relationship count subqueries.
+   *
+   * @param query - Query components including columns, from and relationCounts.
+   * @returns The compiled select list.
+   */
+  private compileColumns(query: any): string {
+    const columns: string[] = query.columns?.length ? [...query.columns] : ['*']
+    if (!query.relationCounts?.length) return columns.join(', ')
+
+    // Qualify * so it can be combined with other select expressions
+    return [
+      ...columns.map(c => c === '*' ? `${this.wrapTable(query.from)}.*` : c),
+      ...query.relationCounts.map((c: any) =>
+        `(${this.compileRelationSubquery(c.relation, query.from, 'COUNT(*)')}) AS ${this.wrapColumn(c.alias)}`
+      ),
+    ].join(', ')
+  }
+
+  /**
+   * Compiles a relationship existence WHERE clause as EXISTS, NOT EXISTS or a count comparison.
+   *
+   * @param where - Where clause of type 'has'.
+   * @returns The compiled condition.
+   */
+  private compileHas(where: any): string {
+    switch (where.mode) {
+      case 'exists':    return `EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      case 'notExists': return `NOT EXISTS (${this.compileRelationSubquery(where.relation, where.parentTable, '*')})`
+      default:          return `(${this.compileRelationSubquery(where.relation, where.parentTable, 'COUNT(*)')}) ${where.operator} ?`
+    }
+  }
+
+  /**
+   * Compiles a correlated subquery over the related (and pivot) table.
+   *
+   * @param relation - Relation existence descriptor.
+   * @param parentTable - Table of the outer query.
+   * @param select - Select expression for the subquery.
+   * @returns The compiled subquery.
+   */
+  private compileRelationSubquery(relation: any, parentTable: string, select: string): string {
+    let sql = `SELECT ${select} FROM ${this.wrapTable(relation.table)}`
+
+    if (relation.pivot) {
+      const pivotKey = this.wrapColumn(`${relation.pivot.table}.${relation.pivot.relatedPivotKey}`)
+      const relatedKey = this.wrapColumn(`${relation.table}.${relation.pivot.relatedKey}`)
+      sql += ` INNER JOIN ${this.wrapTable(relation.pivot.table)} ON ${pivotKey} = ${relatedKey}`
+    }
+
+    const keyTable = relation.pivot ? relation.pivot.table : relation.table
+    sql += ` WHERE ${this.wrapColumn(`${keyTable}.${relation.foreignKey}`)} = ${this.wrapColumn(`${parentTable}.${relation.localKey}`)}`
+
+    if (relation.wheres?.length) {
+      sql += ` AND (${this.compileWheres(relation.wheres)})`
+    }
+
+    return sql
+  }
+
   /**
    * Compiles JOIN clauses into SQL.
    *
@@ -207,17 +275,21 @@ export class SQLiteGrammar extends QueryGrammar {
    */
   private getColumnType(column: ColumnDefinition): string {
     switch (column.type) {
-      case 'integer':    return 'INTEGER'
+      case 'integer':
+      case 'smallInteger':
+      case 'tinyInteger': return 'INTEGER'
       case 'string':     return 'TEXT'
       case 'text':       return 'TEXT'
       case 'boolean':    return 'INTEGER'
+      case 'varint':     return 'NUMERIC'
       case 'decimal':
       case 'float':
       case 'double':     return 'REAL'
       case 'date':
       case 'dateTime':
       case 'timestamp':  return 'TEXT'
-      case 'binary':     return 'BLOB'
+      case 'binary':
+      case 'blob':       return 'BLOB'
       case 'json':       return 'TEXT'
       case 'uuid':       return 'TEXT'
       default:           return 'TEXT'
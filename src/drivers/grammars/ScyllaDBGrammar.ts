@@ -1,5 +1,5 @@
 import { QueryGrammar } from "./QueryGrammar"
-import type { WhereClause, QueryComponent, OrderClause, ColumnDefinition, TableDefinition } from "@/types"
+import type { CollectionUpdate, WhereClause, QueryComponent, OrderClause, ColumnDefinition, TableDefinition } from "@/types"
 
 /**
  * ScyllaDB-specific query grammar implementation.
@@ -23,9 +23,11 @@ import type { WhereClause, QueryComponent, OrderClause, ColumnDefinition, TableD
 export class ScyllaDBGrammar extends QueryGrammar {
   /**
    * Compiles a SELECT query into CQL.
+   * DISTINCT and GROUP BY are validated against the table's keys when `partitionKeys` is given.
    *
    * @param query - Query components object
    * @returns Compiled CQL SELECT statement
+   * @throws {Error} When DISTINCT or GROUP BY do not follow the primary key
    *
    * @example
    * 
@@ -39,14 +41,23 @@ export class ScyllaDBGrammar extends QueryGrammar {
    *   limit: 10,
    *   allowFiltering: true
    * });
+   *
+   * // First 5 events per device, in clustering order
+   * grammar.compileSelect({ from: 'events', perPartitionLimit: 5 });
+   * // SELECT * FROM events PER PARTITION LIMIT 5
    * 
    */
   compileSelect(query: QueryComponent): string {
     const components: string[] = []
+    const columns = query.columns?.filter((col) => col !== "*") ?? []
 
     // SELECT clause
-    if (query.columns && query.columns.length > 0) {
-      components.push(`SELECT ${query.columns.map((col) => this.wrapColumn(col)).join(", ")}`)
+    if (query.distinct) {
+      const distinct = columns.length ? columns : query.partitionKeys ?? []
+      this.validateDistinct(distinct, query)
+      components.push(`SELECT DISTINCT ${distinct.map((col) => this.wrapColumn(col)).join(", ")}`)
+    } else if (columns.length > 0) {
+      components.push(`SELECT ${columns.map((col) => this.wrapColumn(col)).join(", ")}`)
     } else {
       components.push("SELECT *")
     }
@@ -61,6 +72,12 @@ export class ScyllaDBGrammar extends QueryGrammar {
       components.push(`WHERE ${this.compileWheres(query.wheres)}`)
     }
 
+    // GROUP BY clause
+    if (query.groups && query.groups.length > 0) {
+      this.validateGroupBy(query.groups, query)
+      components.push(`GROUP BY ${query.groups.map((col) => this.wrapColumn(col)).join(", ")}`)
+    }
+
     // ORDER BY clause
     if (query.orders && query.orders.length > 0) {
       const orderBy = query.orders
@@ -69,6 +86,11 @@ export class ScyllaDBGrammar extends QueryGrammar {
       components.push(`ORDER BY ${orderBy}`)
     }
 
+    // PER PARTITION LIMIT clause
+    if (query.perPartitionLimit) {
+      components.push(`PER PARTITION LIMIT ${query.perPartitionLimit}`)
+    }
+
     // LIMIT clause
     if (query.limit) {
       components.push(`LIMIT ${query.limit}`)
@@ -82,6 +104,60 @@ export class ScyllaDBGrammar extends QueryGrammar {
     return components.join(" ")
   }
 
+  /**
+   * Checks that a DISTINCT query selects the whole partition key and no clustering columns.
+   * Skipped when the table's keys are unknown.
+   *
+   * @private
+   * @param columns - Selected columns
+   * @param query - Query components carrying the table's keys
+   * @throws {Error} When the selection is not valid for SELECT DISTINCT
+   */
+  private validateDistinct(columns: string[], query: QueryComponent): void {
+    if (!columns.length) {
+      throw new Error("SELECT DISTINCT requires the partition key columns to be selected.")
+    }
+    if (!query.partitionKeys?.length) {
+      return
+    }
+
+    const missing = query.partitionKeys.filter((col) => !columns.includes(col))
+    if (missing.length) {
+      throw new Error(`SELECT DISTINCT must select every partition key column; missing ${missing.join(", ")}.`)
+    }
+    const clustering = columns.filter((col) => query.clusteringKeys?.includes(col))
+    if (clustering.length) {
+      throw new Error(
+        `SELECT DISTINCT can only select partition key and static columns; ${clustering.join(", ")} is a clustering column.`,
+      )
+    }
+  }
+
+  /**
+   * Checks that GROUP BY columns are a prefix of the primary key covering the whole partition key.
+   * Skipped when the table's keys are unknown.
+   *
+   * @private
+   * @param groups - GROUP BY columns
+   * @param query - Query components carrying the table's keys
+   * @throws {Error} When the grouping is not a primary key prefix
+   */
+  private validateGroupBy(groups: string[], query: QueryComponent): void {
+    if (!query.partitionKeys?.length) {
+      return
+    }
+
+    const primaryKey = [...query.partitionKeys, ...(query.clusteringKeys ?? [])]
+    const isPrefix = groups.every((col, i) => primaryKey[i] === col)
+    if (!isPrefix || groups.length < query.partitionKeys.length) {
+      throw new Error(
+        `GROUP BY ${groups.join(", ")} is not a primary key prefix; group by ${query.partitionKeys.join(", ")} ` +
+          "followed by clustering columns in order" +
+          (query.clusteringKeys?.length ? ` (${query.clusteringKeys.join(", ")}).` : "."),
+      )
+    }
+  }
+
   /**
    * Compiles an INSERT query into CQL.
    * Supports ScyllaDB-specific features like TTL and IF NOT EXISTS.
@@ -95,15 +171,17 @@ export class ScyllaDBGrammar extends QueryGrammar {
    *   table: 'users',
    *   values: { id: '123', name: 'John', email: 'john@example.com' },
    *   ttl: 3600,
+   *   timestamp: 1700000000000000,
    *   ifNotExists: true
    * });
-   * // Returns: "INSERT INTO users (id, name, email) VALUES (?, ?, ?) USING TTL 3600 IF NOT EXISTS"
+   * // Returns: "INSERT INTO users (id, name, email) VALUES (?, ?, ?) USING TTL 3600 AND TIMESTAMP 1700000000000000 IF NOT EXISTS"
    * 
    */
   compileInsert(query: {
     table: string
     values: Record<string, any>
     ttl?: number
+    timestamp?: number | bigint
     ifNotExists?: boolean
   }): string {
     const table = this.wrapTable(query.table)
@@ -111,10 +189,7 @@ export class ScyllaDBGrammar extends QueryGrammar {
     const values = Object.values(query.values).map(() => "?")
 
     let cql = `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${values.join(", ")})`
-
-    if (query.ttl) {
-      cql += ` USING TTL ${query.ttl}`
-    }
+    cql += this.compileUsing(query.ttl, query.timestamp)
 
     if (query.ifNotExists) {
       cql += " IF NOT EXISTS"
@@ -126,6 +201,7 @@ export class ScyllaDBGrammar extends QueryGrammar {
   /**
    * Compiles an UPDATE query into CQL.
    * Supports ScyllaDB-specific features like TTL and conditional updates.
+   * Columns in `increments` compile to `c = c + ?`, as required for counters.
    *
    * @param query - Update query components
    * @returns Compiled CQL UPDATE statement
@@ -139,24 +215,35 @@ export class ScyllaDBGrammar extends QueryGrammar {
    *   ttl: 7200,
    *   ifConditions: [{ type: 'basic', column: 'version', operator: '=', value: 1 }]
    * });
+   *
+   * const counter = grammar.compileUpdate({
+   *   table: 'page_views',
+   *   values: {},
+   *   increments: { views: 1 },
+   *   wheres: [{ type: 'basic', column: 'page', operator: '=', value: '/home' }]
+   * });
+   * // UPDATE page_views SET views = views + ? WHERE page = ?
    * 
    */
   compileUpdate(query: {
     table: string
     values: Record<string, any>
+    increments?: Record<string, number>
+    collections?: CollectionUpdate[]
     wheres?: WhereClause[]
     ttl?: number
+    timestamp?: number | bigint
     ifConditions?: WhereClause[]
   }): string {
     const table = this.wrapTable(query.table)
-    const sets = Object.keys(query.values).map((col) => `${this.wrapColumn(col)} = ?`)
+    const sets = [
+      ...Object.keys(query.values).map((col) => `${this.wrapColumn(col)} = ?`),
+      ...Object.keys(query.increments ?? {}).map((col) => `${this.wrapColumn(col)} = ${this.wrapColumn(col)} + ?`),
+      ...(query.collections ?? []).map((update) => this.compileCollectionUpdate(update)),
+    ]
 
     let cql = `UPDATE ${table}`
-
-    if (query.ttl) {
-      cql += ` USING TTL ${query.ttl}`
-    }
-
+    cql += this.compileUsing(query.ttl, query.timestamp)
     cql += ` SET ${sets.join(", ")}`
 
     if (query.wheres && query.wheres.length > 0) {
@@ -170,6 +257,37 @@ export class ScyllaDBGrammar extends QueryGrammar {
     return cql
   }
 
+  /**
+   * Compiles an in-place collection mutation into a CQL assignment.
+   *
+   * @param update - Collection mutation
+   * @returns CQL SET assignment
+   *
+   * @example
+   * 
+   * grammar.compileCollectionUpdate({ column: 'tags', operation: 'append', value: ['a'] });
+   * // tags = tags + ?
+   * grammar.compileCollectionUpdate({ column: 'scores', operation: 'setIndex', index: 0, value: 10 });
+   * // scores[?] = ?
+   * 
+   */
+  compileCollectionUpdate(update: CollectionUpdate): string {
+    const column = this.wrapColumn(update.column)
+
+    switch (update.operation) {
+      case "append":
+      case "putEntries":
+        return `${column} = ${column} + ?`
+      case "prepend":
+        return `${column} = ? + ${column}`
+      case "remove":
+      case "removeKeys":
+        return `${column} = ${column} - ?`
+      case "setIndex":
+        return `${column}[?] = ?`
+    }
+  }
+
   /**
    * Compiles a DELETE query into CQL.
    * Supports partial column deletion and conditional deletes.
@@ -191,6 +309,7 @@ export class ScyllaDBGrammar extends QueryGrammar {
     table: string
     columns?: string[]
     wheres?: WhereClause[]
+    timestamp?: number | bigint
     ifConditions?: WhereClause[]
   }): string {
     let cql = "DELETE"
@@ -200,6 +319,7 @@ export class ScyllaDBGrammar extends QueryGrammar {
     }
 
     cql += ` FROM ${this.wrapTable(query.table)}`
+    cql += this.compileUsing(undefined, query.timestamp)
 
     if (query.wheres && query.wheres.length > 0) {
       cql += ` WHERE ${this.compileWheres(query.wheres)}`
@@ -212,6 +332,25 @@ export class ScyllaDBGrammar extends QueryGrammar {
     return cql
   }
 
+  /**
+   * Compiles the USING clause of a write.
+   *
+   * @private
+   * @param ttl - Time to live in seconds
+   * @param timestamp - Write timestamp in microseconds since the epoch
+   * @returns USING clause with a leading space, or an empty string
+   */
+  private compileUsing(ttl?: number, timestamp?: number | bigint): string {
+    const options: string[] = []
+    if (ttl) {
+      options.push(`TTL ${ttl}`)
+    }
+    if (timestamp !== undefined) {
+      options.push(`TIMESTAMP ${timestamp}`)
+    }
+    return options.length ? ` USING ${options.join(" AND ")}` : ""
+  }
+
   /**
    * Compiles WHERE clauses into CQL.
    * Supports various WHERE types including basic, IN, BETWEEN, NULL checks, and TOKEN queries.
@@ -260,6 +399,10 @@ export class ScyllaDBGrammar extends QueryGrammar {
             return where.columns && where.values && where.operator
               ? `${prefix}TOKEN(${where.columns.map((col) => this.wrapColumn(col)).join(", ")}) ${where.operator} TOKEN(${where.values.map(() => "?").join(", ")})`
               : ""
+          case "tokenRange":
+            return where.columns && where.values
+              ? `${prefix}TOKEN(${where.columns.map((col) => this.wrapColumn(col)).join(", ")}) > ? AND TOKEN(${where.columns.map((col) => this.wrapColumn(col)).join(", ")}) <= ?`
+              : ""
           case "raw":
             return where.raw || ""
           default:
@@ -338,6 +481,12 @@ export class ScyllaDBGrammar extends QueryGrammar {
    *
    * const setType = grammar.getColumnType({ type: 'set', elementType: 'text', name: 'tags' });
    * // Returns: "set<text>"
+   *
+   * const priceType = grammar.getColumnType({ type: 'decimal', name: 'price', precision: 10, scale: 2 });
+   * // Returns: "decimal" (CQL decimals carry their own scale)
+   *
+   * const udtType = grammar.getColumnType({ type: 'udt', udtName: 'address', frozen: true, name: 'home' });
+   * // Returns: "frozen<address>"
    * 
    */
   getColumnType(column: ColumnDefinition): string {
@@ -348,6 +497,12 @@ export class ScyllaDBGrammar extends QueryGrammar {
       case "integer":
       case "int":
         return "int"
+      case "smallInteger":
+        return "smallint"
+      case "tinyInteger":
+        return "tinyint"
+      case "varint":
+        return "varint"
       case "string":
         return "text"
       case "text":
@@ -355,10 +510,22 @@ export class ScyllaDBGrammar extends QueryGrammar {
       case "boolean":
         return "boolean"
       case "decimal":
+        return "decimal"
       case "float":
+        return "float"
       case "double":
-        return "decimal"
+        return "double"
       case "date":
+        return "date"
+      case "time":
+        return "time"
+      case "duration":
+        return "duration"
+      case "inet":
+        return "inet"
+      case "binary":
+      case "blob":
+        return "blob"
       case "dateTime":
       case "timestamp":
         return "timestamp"
@@ -371,16 +538,31 @@ export class ScyllaDBGrammar extends QueryGrammar {
       case "counter":
         return "counter"
       case "set":
-        return `set<${column.elementType}>`
+        return this.freeze(`set<${column.elementType}>`, column.frozen)
       case "list":
-        return `list<${column.elementType}>`
+        return this.freeze(`list<${column.elementType}>`, column.frozen)
       case "map":
-        return `map<${column.keyType}, ${column.valueType}>`
+        return this.freeze(`map<${column.keyType}, ${column.valueType}>`, column.frozen)
+      case "udt":
+        return this.freeze(column.udtName!, column.frozen)
+      case "tuple":
+        return `tuple<${column.tupleTypes!.join(", ")}>`
       default:
         return "text"
     }
   }
 
+  /**
+   * Wraps a collection or UDT type in frozen<> when requested.
+   *
+   * @param type - CQL type
+   * @param frozen - Whether the column is frozen
+   * @returns The type, frozen if needed
+   */
+  private freeze(type: string, frozen?: boolean): string {
+    return frozen ? `frozen<${type}>` : type
+  }
+
   /**
    * Compiles a column definition into CQL.
    *
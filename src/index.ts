@@ -1,6 +1,8 @@
 export { CacheManager } from "./cache/CacheManager"
 export { Connection } from "./connection/Connection"
 export { ConnectionManager } from "./connection/ConnectionManager"
+export { Transaction } from "./connection/Transaction"
+export { Batch } from "./connection/Batch"
 
 export { DatabaseDriver } from "./drivers/DatabaseDriver"
 export { ScyllaDBDriver } from "./drivers/ScyllaDBDriver"
@@ -9,16 +11,29 @@ export { ScyllaDBGrammar } from "./drivers/grammars/ScyllaDBGrammar"
 
 export { ModelRegistry } from "./model/ModelRegistry"
 export { Model } from "./model/Model"
+export type { ModelQueryOptions } from "./model/Model"
+export { StaleModelError } from "./model/StaleModelError"
+export { TupleValue } from "./model/TupleValue"
 export { QueryBuilder } from "./query/QueryBuilder"
+export { TokenRangeScanner } from "./query/TokenRangeScanner"
+export { QueryPlanError } from "./query/QueryPlanError"
+export type { QueryPlanErrorReason } from "./query/QueryPlanError"
 
 export { Schema } from "./schema/Schema"
+export { TableBuilder } from "./schema/TableBuilder"
+export { RecordingSchema } from "./schema/RecordingSchema"
+export { SchemaDiffer } from "./schema/SchemaDiffer"
 
 export { Migration } from "./migration/Migration"
 export { MigrationManager } from "./migration/MigrationManager"
+export { MigrationLock } from "./migration/MigrationLock"
+export { MigrationLockError } from "./migration/MigrationLockError"
 
 export { ModelFactory, defineFactory } from "./seeder/ModelFactory"
 export { Seeder, SeederRunner } from "./seeder/Seeder"
 
+export { Cli } from "./cli/Cli"
+
 export { Relationship } from "./relationships/Relationship"
 export { HasOne } from "./relationships/HasOne"
 export { HasMany } from "./relationships/HasMany"
@@ -0,0 +1,116 @@
+import { hostname } from "os"
+import { randomUUID } from "crypto"
+import type { DatabaseDriver } from "@/drivers/DatabaseDriver"
+import type { MigrationLockOptions } from "@/types/index"
+import { MigrationLockError } from "./MigrationLockError"
+
+/**
+ * Distributed lock that keeps concurrent processes from running migrations at the same time.
+ * The lock is a lease: it is renewed by a heartbeat while held and expires on its own when
+ * the holder dies. The storage is driver specific (see `DatabaseDriver.acquireLock()`).
+ *
+ * @example
+ *
+ * const lock = new MigrationLock(driver, 'migrations', { leaseMs: 30_000 });
+ * await lock.acquire();
+ * try {
+ *   // run migrations, calling lock.assertHeld() between steps
+ * } finally {
+ *   await lock.release();
+ * }
+ *
+ */
+export class MigrationLock {
+  private driver: DatabaseDriver
+  private name: string
+  private owner = `${hostname()}:${process.pid}:${randomUUID()}`
+  private leaseMs: number
+  private heartbeatMs: number
+  private waitMs: number
+  private retryMs: number
+  private heartbeat?: NodeJS.Timeout
+  private lost = false
+
+  /**
+   * Creates a new MigrationLock instance.
+   *
+   * @param driver - Driver storing the lock
+   * @param name - Lock name, shared by every process migrating the same database
+   * @param options - Lease, heartbeat and wait timing
+   */
+  constructor(driver: DatabaseDriver, name: string, options: MigrationLockOptions = {}) {
+    this.driver = driver
+    this.name = name
+    this.leaseMs = options.leaseMs ?? 60_000
+    this.heartbeatMs = options.heartbeatMs ?? Math.floor(this.leaseMs / 3)
+    this.waitMs = options.waitMs ?? 300_000
+    this.retryMs = options.retryMs ?? 1_000
+  }
+
+  /**
+   * Takes the lock, waiting while another process holds it, and starts the heartbeat.
+   *
+   * @returns Promise that resolves once the lock is held
+   *
+   * @throws {MigrationLockError} When the lock is still held by another process after the wait time
+   */
+  public async acquire(): Promise<void> {
+    const deadline = Date.now() + this.waitMs
+
+    while (!(await this.driver.acquireLock(this.name, this.owner, this.leaseMs))) {
+      if (Date.now() >= deadline) {
+        throw new MigrationLockError(
+          `Could not acquire the '${this.name}' lock within ${this.waitMs}ms; another process is migrating. ` +
+            `If that process died, wait for its lease to expire or call forceUnlock().`,
+          this.name,
+        )
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.retryMs))
+    }
+
+    this.lost = false
+    this.heartbeat = setInterval(() => {
+      this.driver.renewLock(this.name, this.owner, this.leaseMs).then(
+        (renewed) => {
+          this.lost = this.lost || !renewed
+        },
+        () => {
+          this.lost = true
+        },
+      )
+    }, this.heartbeatMs)
+    this.heartbeat.unref()
+  }
+
+  /**
+   * Throws when a heartbeat failed to renew the lease, since another process may have taken the lock.
+   *
+   * @throws {MigrationLockError} When the lease was lost
+   */
+  public assertHeld(): void {
+    if (this.lost) {
+      throw new MigrationLockError(`Lost the '${this.name}' lock: its lease could not be renewed`, this.name)
+    }
+  }
+
+  /**
+   * Stops the heartbeat and releases the lock if this process still holds it.
+   *
+   * @returns Promise that resolves when the lock is released
+   */
+  public async release(): Promise<void> {
+    clearInterval(this.heartbeat)
+    this.heartbeat = undefined
+    await this.driver.releaseLock(this.name, this.owner)
+  }
+
+  /**
+   * Removes the lock whoever holds it.
+   * Only meant for recovering from a crashed holder whose lease has not expired yet.
+   *
+   * @returns Promise that resolves when the lock is removed
+   */
+  public async forceUnlock(): Promise<void> {
+    await this.driver.forceReleaseLock(this.name)
+  }
+}
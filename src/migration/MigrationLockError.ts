@@ -0,0 +1,30 @@
+/**
+ * Thrown when the migration lock cannot be taken within the wait time,
+ * or when its lease is lost while migrations are running.
+ *
+ * @example
+ *
+ * try {
+ *   await migrationManager.migrate(migrations);
+ * } catch (error) {
+ *   if (error instanceof MigrationLockError) {
+ *     // another deploy is migrating; if its process died, run forceUnlock()
+ *   }
+ * }
+ *
+ */
+export class MigrationLockError extends Error {
+  /**
+   * Creates a new MigrationLockError instance.
+   *
+   * @param message - Description of the problem
+   * @param lockName - Name of the lock
+   */
+  constructor(
+    message: string,
+    public readonly lockName: string,
+  ) {
+    super(message)
+    this.name = "MigrationLockError"
+  }
+}
@@ -1,12 +1,24 @@
 import type { ConnectionManager } from "@/connection/ConnectionManager"
 import type { Connection } from "@/connection/Connection"
 import type { Migration } from "./Migration"
+import type {
+  MigrateOptions,
+  MigrationRecord,
+  MigrationsConfig,
+  PretendedMigration,
+  RollbackOptions,
+} from "@/types/index"
+import { ScyllaDBGrammar } from "@/drivers/grammars/ScyllaDBGrammar"
 import { Schema } from "@/schema/Schema"
+import { RecordingSchema } from "@/schema/RecordingSchema"
+import { MigrationLock } from "./MigrationLock"
 
 /**
  * Manages database migrations including execution, rollback, and status tracking.
  * Provides comprehensive migration management with batch tracking and error handling.
  * Automatically creates and manages a migrations table to track executed migrations.
+ * Every `migrate()` run records its migrations under one batch number, which `rollback()` undoes as a unit.
+ * Runs hold a distributed lock, so several processes starting at once migrate only once.
  *
  * @example
  * 
@@ -22,8 +34,11 @@ import { Schema } from "@/schema/Schema"
  * // Run all pending migrations
  * await migrationManager.migrate(migrations);
  *
- * // Rollback last migration
- * await migrationManager.rollback(migrations, 1);
+ * // Rollback the last batch
+ * await migrationManager.rollback(migrations);
+ *
+ * // Print the statements of pending migrations without running them
+ * const pretended = await migrationManager.migrate(migrations, { pretend: true });
  *
  * // Check migration status
  * const status = await migrationManager.status(migrations);
@@ -33,32 +48,48 @@ export class MigrationManager {
   private connManager: ConnectionManager
   private connection: Connection
   private migrationsTable = "migrations"
+  private config: Partial<MigrationsConfig>
+  private lock?: MigrationLock
 
   /**
    * Creates a new MigrationManager instance.
    *
    * @param connManager - ConnectionManager instance for database access
+   * @param config - Migrations settings: `tableName` (default `migrations`), and `lock: false` turns the migration lock off
    *
    * @example
    * 
    * const connManager = ConnectionManager.getInstance();
    * const migrationManager = new MigrationManager(connManager);
+   *
+   * // Shorter lease for fast failover of a crashed deploy
+   * const manager = new MigrationManager(connManager, { lock: { leaseMs: 20_000, waitMs: 120_000 } });
    * 
    */
-  constructor(connManager: ConnectionManager) {
+  constructor(connManager: ConnectionManager, config: Partial<MigrationsConfig> = {}) {
     this.connManager = connManager
     this.connection = this.connManager.getConnection()
+    this.config = config
+    this.migrationsTable = config.tableName || "migrations"
   }
 
   /**
    * Executes all pending migrations in order.
    * Creates the migrations tracking table if it doesn't exist.
    * Skips migrations that have already been executed.
+   * All migrations of one call share the next batch number.
+   * Pending migrations are read after the migration lock is taken, so a process that
+   * waited for another one's run finds nothing left to do.
+   *
+   * With `pretend`, each pending migration's `up()` runs against a {@link RecordingSchema}:
+   * nothing is executed or recorded and no lock is taken.
    *
    * @param migrations - Array of migration instances to execute
-   * @returns Promise that resolves when all migrations are complete
+   * @param options - `pretend` to collect the statements instead of running them
+   * @returns Promise resolving to the statements of each pending migration when pretending, otherwise an empty array
    *
    * @throws {Error} When any migration fails to execute
+   * @throws {MigrationLockError} When the lock cannot be taken or is lost during the run
    *
    * @example
    * 
@@ -73,21 +104,49 @@ export class MigrationManager {
    * } catch (error) {
    *   console.error('Migration failed:', error);
    * }
+   *
+   * // Review the DDL before deploying
+   * for (const { migration, statements } of await migrationManager.migrate(migrations, { pretend: true })) {
+   *   console.log(`-- ${migration}\n${statements.join(';\n')};`);
+   * }
    * 
    */
-  public async migrate(migrations: Migration[]): Promise<void> {
+  public async migrate(migrations: Migration[], options: MigrateOptions = {}): Promise<PretendedMigration[]> {
+    if (options.pretend) {
+      const records = await this.getMigrationRecordsIfTracked()
+      const executed = records.map((record) => record.migration)
+      return await this.pretend(
+        migrations.filter((migration) => !executed.includes(migration.getName())),
+        (migration, schema) => migration.up(schema),
+      )
+    }
+
     await this.ensureMigrationsTable()
+    await this.withLock(() => this.runPending(migrations))
+    return []
+  }
 
-    const executed = await this.getExecutedMigrations()
+  /**
+   * Runs the migrations that have not been executed yet.
+   *
+   * @private
+   * @param migrations - Array of migration instances to execute
+   * @returns Promise that resolves when all pending migrations are complete
+   */
+  private async runPending(migrations: Migration[]): Promise<void> {
+    const records = await this.getMigrationRecords()
+    const executed = records.map((record) => record.migration)
     const pending = migrations.filter((migration) => !executed.includes(migration.getName()))
+    const batch = Math.max(0, ...records.map((record) => record.batch)) + 1
 
     for (const migration of pending) {
+      this.lock?.assertHeld()
       console.log(`Running migration: ${migration.getName()}`)
 
       try {
         const schema = new Schema(this.connection.getDriver())
         await migration.up(schema)
-        await this.recordMigration(migration)
+        await this.recordMigration(migration, batch)
         console.log(`Migrated: ${migration.getName()}`)
       } catch (error) {
         console.error(`Migration failed: ${migration.getName()}`, error)
@@ -97,29 +156,66 @@ export class MigrationManager {
   }
 
   /**
-   * Rolls back the specified number of migrations.
-   * Executes the `down()` method of migrations in reverse order.
+   * Rolls back executed migrations, most recent first, by running their `down()` methods.
+   * Without options the whole last batch is rolled back.
+   * With `pretend`, the selected migrations' `down()` methods run against a {@link RecordingSchema}
+   * and their records are left in place.
    *
    * @param migrations - Array of all available migrations
-   * @param steps - Number of migrations to rollback (default: 1)
-   * @returns Promise that resolves when rollback is complete
+   * @param options - `steps` to roll back that many migrations, or `batch` to roll back a specific batch.
+   *                  A number is read as `steps`. `pretend` collects the statements instead of running them.
+   * @returns Promise resolving to the statements of each selected migration when pretending, otherwise an empty array
    *
    * @throws {Error} When any rollback operation fails
    *
    * @example
    * 
-   * // Rollback last migration
+   * // Rollback the last batch
    * await migrationManager.rollback(migrations);
    *
-   * // Rollback last 3 migrations
-   * await migrationManager.rollback(migrations, 3);
+   * // Rollback the last 3 migrations
+   * await migrationManager.rollback(migrations, { steps: 3 });
+   *
+   * // Rollback batch 2
+   * await migrationManager.rollback(migrations, { batch: 2 });
+   *
+   * // Statements the rollback would run
+   * const pretended = await migrationManager.rollback(migrations, { pretend: true });
    * 
    */
-  public async rollback(migrations: Migration[], steps = 1): Promise<void> {
-    const executed = await this.getExecutedMigrations()
-    const toRollback = executed.slice(-steps).reverse()
+  public async rollback(
+    migrations: Migration[],
+    options: RollbackOptions | number = {},
+  ): Promise<PretendedMigration[]> {
+    const selection = typeof options === "number" ? { steps: options } : options
+
+    if (selection.pretend) {
+      const records = this.selectForRollback(await this.getMigrationRecordsIfTracked(), selection)
+      const selected = records
+        .map((record) => migrations.find((m) => m.getName() === record.migration))
+        .filter((migration): migration is Migration => migration !== undefined)
+      return await this.pretend(selected, (migration, schema) => migration.down(schema))
+    }
+
+    await this.ensureMigrationsTable()
+    await this.withLock(() => this.rollbackRecords(migrations, selection))
+    return []
+  }
+
+  /**
+   * Rolls back the executed migrations selected by the rollback options.
+   *
+   * @private
+   * @param migrations - Array of all available migrations
+   * @param options - Steps or batch to roll back
+   * @returns Promise that resolves when rollback is complete
+   */
+  private async rollbackRecords(migrations: Migration[], options: RollbackOptions): Promise<void> {
+    const records = await this.getMigrationRecords()
 
-    for (const migrationName of toRollback) {
+    for (const record of this.selectForRollback(records, options)) {
+      this.lock?.assertHeld()
+      const migrationName = record.migration
       const migration = migrations.find((m) => m.getName() === migrationName)
       if (!migration) {
         console.warn(`Migration not found: ${migrationName}`)
@@ -131,7 +227,7 @@ export class MigrationManager {
       try {
         const schema = new Schema(this.connection.getDriver())
         await migration.down(schema)
-        await this.removeMigrationRecord(migration)
+        await this.removeMigrationRecord(record)
         console.log(`Rolled back: ${migrationName}`)
       } catch (error) {
         console.error(`Rollback failed: ${migrationName}`, error)
@@ -140,9 +236,56 @@ export class MigrationManager {
     }
   }
 
+  /**
+   * Picks the records a rollback undoes, most recent first.
+   *
+   * @private
+   * @param records - Executed migration records, oldest first
+   * @param options - Steps or batch to roll back; the last batch when neither is set
+   * @returns Selected records in rollback order
+   */
+  private selectForRollback(records: MigrationRecord[], options: RollbackOptions): MigrationRecord[] {
+    let selected: MigrationRecord[]
+
+    if (options.batch !== undefined) {
+      selected = records.filter((record) => record.batch === options.batch)
+    } else if (options.steps !== undefined) {
+      selected = options.steps > 0 ? records.slice(-options.steps) : []
+    } else {
+      const lastBatch = records[records.length - 1]?.batch
+      selected = records.filter((record) => record.batch === lastBatch)
+    }
+
+    return selected.reverse()
+  }
+
+  /**
+   * Runs migrations against a recording schema and collects their statements.
+   * Each migration gets its own schema so the statements can be attached per migration.
+   *
+   * @private
+   * @param migrations - Migrations to pretend, in run order
+   * @param run - Calls `up()` or `down()` on the migration
+   * @returns Promise resolving to the statements of each migration
+   */
+  private async pretend(
+    migrations: Migration[],
+    run: (migration: Migration, schema: Schema) => Promise<void>,
+  ): Promise<PretendedMigration[]> {
+    const pretended: PretendedMigration[] = []
+
+    for (const migration of migrations) {
+      const schema = new RecordingSchema(this.connection.getDriver())
+      await run(migration, schema)
+      pretended.push({ migration: migration.getName(), statements: schema.getStatements() })
+    }
+
+    return pretended
+  }
+
   /**
    * Gets the execution status of all migrations.
-   * Shows which migrations have been executed and their batch numbers.
+   * Shows which migrations have been executed, their batch numbers and when they ran.
    *
    * @param migrations - Array of migration instances to check
    * @returns Promise resolving to array of migration status objects
@@ -155,9 +298,11 @@ export class MigrationManager {
    * });
    * 
    */
-  public async status(migrations: Migration[]): Promise<{ name: string; executed: boolean; batch?: number }[]> {
+  public async status(
+    migrations: Migration[],
+  ): Promise<{ name: string; executed: boolean; batch?: number; executedAt?: Date }[]> {
     await this.ensureMigrationsTable()
-    const executed = await this.getExecutedMigrationsWithBatch()
+    const executed = await this.getMigrationRecords()
 
     return migrations.map((migration) => {
       const executedMigration = executed.find((e) => e.migration === migration.getName())
@@ -165,6 +310,7 @@ export class MigrationManager {
         name: migration.getName(),
         executed: !!executedMigration,
         batch: executedMigration?.batch,
+        executedAt: executedMigration?.executedAt,
       }
     })
   }
@@ -183,10 +329,23 @@ export class MigrationManager {
    * 
    */
   public async reset(migrations: Migration[]): Promise<void> {
-    const executed = await this.getExecutedMigrations()
-    const toRollback = executed.reverse()
+    await this.ensureMigrationsTable()
+    await this.withLock(() => this.resetAll(migrations))
+  }
 
-    for (const migrationName of toRollback) {
+  /**
+   * Rolls back every executed migration, logging failures and moving on.
+   *
+   * @private
+   * @param migrations - Array of all available migrations
+   * @returns Promise that resolves when all migrations are rolled back
+   */
+  private async resetAll(migrations: Migration[]): Promise<void> {
+    const records = await this.getMigrationRecords()
+
+    for (const record of records.reverse()) {
+      this.lock?.assertHeld()
+      const migrationName = record.migration
       const migration = migrations.find((m) => m.getName() === migrationName)
       if (!migration) {
         continue
@@ -195,7 +354,7 @@ export class MigrationManager {
       try {
         const schema = new Schema(this.connection.getDriver())
         await migration.down(schema)
-        await this.removeMigrationRecord(migration)
+        await this.removeMigrationRecord(record)
       } catch (error) {
         console.error(`Reset failed: ${migrationName}`, error)
       }
@@ -220,6 +379,140 @@ export class MigrationManager {
     await this.migrate(migrations)
   }
 
+  /**
+   * Drops every table and materialized view (and user-defined type on ScyllaDB), then runs all migrations.
+   * Unlike `refresh()` no `down()` method runs, so this also works when they are incomplete.
+   * The lock table is kept.
+   *
+   * @param migrations - Array of migration instances
+   * @returns Promise that resolves when the database has been rebuilt
+   *
+   * @example
+   * 
+   * await migrationManager.fresh(migrations);
+   * console.log('Database rebuilt from scratch');
+   * 
+   */
+  public async fresh(migrations: Migration[]): Promise<void> {
+    await this.ensureMigrationsTable()
+    await this.withLock(async () => {
+      await this.dropAllObjects()
+      await this.ensureMigrationsTable()
+      await this.runPending(migrations)
+    })
+  }
+
+  /**
+   * Drops the materialized views, tables and ScyllaDB types of the database, keeping the lock table.
+   *
+   * @private
+   * @returns Promise that resolves when everything is dropped
+   */
+  private async dropAllObjects(): Promise<void> {
+    const driver = this.connection.getDriver()
+    const grammar = driver.getGrammar()
+    const schema = new Schema(driver)
+    const isScylla = grammar instanceof ScyllaDBGrammar
+
+    const views = (await driver.listMaterializedViews()).map((view) => view.name)
+    await this.dropEach(views, (view) =>
+      isScylla ? schema.dropMaterializedView(view) : schema.raw(`DROP MATERIALIZED VIEW ${grammar.wrapTable(view)}`),
+    )
+
+    // scyllinx_locks holds the lock of this very run (ScyllaDB and MongoDB)
+    const tables = (await driver.listTables()).filter((table) => table !== "scyllinx_locks")
+    await this.dropEach(tables, (table) => schema.dropTable(table))
+
+    if (isScylla) {
+      const types = (await driver.listTypes()).map((type) => type.name)
+      await this.dropEach(types, (type) => schema.dropType(type))
+    }
+  }
+
+  /**
+   * Drops objects that may depend on each other (foreign keys, nested types).
+   * Objects that fail are retried after the others, until a pass makes no progress.
+   *
+   * @private
+   * @param names - Names of the objects to drop
+   * @param drop - Drops one object
+   * @returns Promise that resolves when every object is dropped
+   *
+   * @throws {Error} The last drop error when some objects cannot be dropped
+   */
+  private async dropEach(names: string[], drop: (name: string) => Promise<unknown>): Promise<void> {
+    let remaining = names
+
+    while (remaining.length > 0) {
+      const failed: string[] = []
+      let lastError: unknown
+
+      for (const name of remaining) {
+        try {
+          await drop(name)
+        } catch (error) {
+          failed.push(name)
+          lastError = error
+        }
+      }
+
+      if (failed.length === remaining.length) {
+        throw lastError
+      }
+      remaining = failed
+    }
+  }
+
+  /**
+   * Removes the migration lock whoever holds it.
+   * Use it when a deploy crashed mid-run and you do not want to wait for its lease to expire;
+   * make sure no other process is still migrating first.
+   *
+   * @returns Promise that resolves when the lock is removed
+   *
+   * @example
+   * 
+   * await migrationManager.forceUnlock();
+   * await migrationManager.migrate(migrations);
+   * 
+   */
+  public async forceUnlock(): Promise<void> {
+    await this.createLock().forceUnlock()
+  }
+
+  /**
+   * Runs a callback while holding the migration lock, unless the lock is turned off.
+   *
+   * @private
+   * @param callback - Work to run under the lock
+   * @returns Promise resolving to the callback's result
+   */
+  private async withLock<T>(callback: () => Promise<T>): Promise<T> {
+    if (this.config.lock === false) {
+      return await callback()
+    }
+
+    const lock = this.createLock()
+    await lock.acquire()
+    this.lock = lock
+    try {
+      return await callback()
+    } finally {
+      this.lock = undefined
+      await lock.release()
+    }
+  }
+
+  /**
+   * Creates the lock shared by every process migrating this connection.
+   *
+   * @private
+   * @returns The migration lock
+   */
+  private createLock(): MigrationLock {
+    return new MigrationLock(this.connection.getDriver(), this.migrationsTable, this.config.lock || {})
+  }
+
   /**
    * Ensures the migrations tracking table exists.
    * Creates the table with appropriate schema for tracking migration execution.
@@ -233,7 +526,7 @@ export class MigrationManager {
     const grammar = driver.getGrammar()
 
     await driver.query(`
-      CREATE TABLE IF NOT EXISTS migrations (
+      CREATE TABLE IF NOT EXISTS ${grammar.wrapTable(this.migrationsTable)} (
         batch_number int,
         migration text,
         executed_at timestamp,
@@ -243,92 +536,104 @@ export class MigrationManager {
   }
 
   /**
-   * Retrieves list of executed migration names.
+   * Retrieves the executed migrations in the order they ran.
+   * Sorted here by `executed_at`, since ScyllaDB cannot order across partitions;
+   * batch number and name break ties between migrations recorded in the same millisecond.
    *
    * @private
-   * @returns Promise resolving to array of migration names
+   * @returns Promise resolving to the migration records, oldest first
    */
-  private async getExecutedMigrations(): Promise<string[]> {
+  private async getMigrationRecords(): Promise<MigrationRecord[]> {
     const driver = this.connection.getDriver()
     const grammar = driver.getGrammar()
 
-    const result = await driver.query(`SELECT migration FROM ${grammar.wrapTable(this.migrationsTable)}`)
+    const result = await driver.query(
+      `SELECT migration, batch_number, executed_at FROM ${grammar.wrapTable(this.migrationsTable)}`,
+    )
 
-    return result.rows.map((row) => row.migration)
+    return result.rows
+      .map((row) => ({
+        migration: row.migration,
+        batch: Number(row.batch_number),
+        executedAt: new Date(row.executed_at),
+      }))
+      .sort(
+        (a, b) =>
+          a.executedAt.getTime() - b.executedAt.getTime() ||
+          a.batch - b.batch ||
+          a.migration.localeCompare(b.migration),
+      )
   }
 
   /**
-   * Retrieves executed migrations with their batch information.
+   * Retrieves the executed migrations without creating the migrations table,
+   * treating a missing table as nothing executed yet.
    *
    * @private
-   * @returns Promise resolving to array of migration objects with batch info
+   * @returns Promise resolving to the migration records, oldest first
    */
-  private async getExecutedMigrationsWithBatch(): Promise<{ migration: string; batch: number }[]> {
-    const driver = this.connection.getDriver()
-    const grammar = driver.getGrammar()
-
-    const result = await driver.query(`SELECT migration, batch_number FROM ${grammar.wrapTable(this.migrationsTable)}`)
-
-    return result.rows.map((row) => ({
-      migration: row.migration,
-      batch: row.batch_number,
-    }))
+  private async getMigrationRecordsIfTracked(): Promise<MigrationRecord[]> {
+    const tables = await this.connection.getDriver().listTables()
+    return tables.includes(this.migrationsTable) ? await this.getMigrationRecords() : []
   }
 
   /**
    * Records a migration as executed in the migrations table.
-   * Assigns the migration to the next available batch number.
    *
    * @private
    * @param migration - Migration instance to record
+   * @param batch - Batch number of the current run
    * @returns Promise that resolves when migration is recorded
    */
-  private async recordMigration(migration: Migration): Promise<void> {
+  private async recordMigration(migration: Migration, batch: number): Promise<void> {
     const driver = this.connection.getDriver()
     const grammar = driver.getGrammar()
-
-    const batchResult = await driver.query(
-      `SELECT MAX(batch_number) as max_batch FROM ${grammar.wrapTable(this.migrationsTable)}`,
-    )
-
-    const nextBatch = (batchResult.rows[0]?.max_batch || 0) + 1
+    const executedAt = new Date()
 
     const insertSql = grammar.compileInsert({
       table: this.migrationsTable,
       values: {
-        batch_number: nextBatch,
+        batch_number: batch,
         migration: migration.getName(),
-        executed_at: new Date(),
+        executed_at: executedAt,
       },
     })
 
-    await driver.query(insertSql, [nextBatch, migration.getName(), new Date()])
+    await driver.query(insertSql, [batch, migration.getName(), executedAt])
   }
 
   /**
    * Removes a migration record from the migrations table.
-   * Used during rollback operations.
+   * Used during rollback operations. Matches on the full primary key,
+   * which ScyllaDB requires for deletes.
    *
    * @private
-   * @param migration - Migration instance to remove
+   * @param record - Migration record to remove
    * @returns Promise that resolves when record is removed
    */
-  private async removeMigrationRecord(migration: Migration): Promise<void> {
+  private async removeMigrationRecord(record: MigrationRecord): Promise<void> {
     const driver = this.connection.getDriver()
     const grammar = driver.getGrammar()
 
     const deleteSql = grammar.compileDelete({
       table: this.migrationsTable,
       wheres: [
+        {
+          type: "basic",
+          column: "batch_number",
+          operator: "=",
+          value: record.batch,
+        },
         {
           type: "basic",
           column: "migration",
           operator: "=",
-          value: migration.getName(),
+          value: record.migration,
+          boolean: "and",
         },
       ],
     })
 
-    await driver.query(deleteSql, [migration.getName()])
+    await driver.query(deleteSql, [record.batch, record.migration])
   }
 }
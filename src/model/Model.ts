@@ -6,8 +6,25 @@ import { MorphMany } from "@/relationships/MorphMany"
 import { MorphOne } from "@/relationships/MorphOne"
 import { MorphTo } from "@/relationships/MorphTo"
 import { QueryBuilder } from "../query/QueryBuilder"
+import { ScyllaDBGrammar } from "../drivers/grammars/ScyllaDBGrammar"
+import type { EagerLoadRelations } from "../query/QueryBuilder"
+import type { Transaction } from "../connection/Transaction"
+import type { Batch } from "../connection/Batch"
+import { TokenRangeScanner } from "../query/TokenRangeScanner"
+import { StaleModelError } from "./StaleModelError"
+import { TupleValue } from "./TupleValue"
 import util from "util"
-import { ModelEvent } from "@/types"
+import {
+  AttributeCast,
+  CastClass,
+  ColumnDefinition,
+  ConsistencyLevel,
+  ModelEvent,
+  ModelMetadata,
+  QueryValidationMode,
+  ScanOptions,
+  TableDefinition,
+} from "@/types"
 import { EventDispatcher } from "@/observers/EventDispather"
 import { ObserverRegistry } from "@/observers/ModelObserver"
 
@@ -18,6 +35,16 @@ import { ObserverRegistry } from "@/observers/ModelObserver"
  */
 export type InferAttributes<T> = T extends Model<infer A> ? A : never
 
+/**
+ * Execution context for model queries and writes.
+ */
+export interface ModelQueryOptions {
+  /** Transaction to run in */
+  trx?: Transaction
+  /** Batch to record writes in */
+  batch?: Batch
+}
+
 /**
  * Base Model class implementing Active Record pattern for ScyllinX ORM.
  * Provides CRUD operations, relationships, attribute management, and ScyllaDB-specific features.
@@ -88,7 +115,7 @@ export class Model<TAttrs extends Record<string, any>> {
   protected static visible: string[] = []
 
   /** Attribute casting definitions */
-  protected static casts: Record<string, string> = {}
+  protected static casts: Record<string, AttributeCast> = {}
 
   /** Date attribute names */
   protected static dates: string[] = ["created_at", "updated_at"]
@@ -99,6 +126,18 @@ export class Model<TAttrs extends Record<string, any>> {
   /** Whether to use soft deletes */
   public static softDeletes = false
 
+  /** Column holding the soft delete timestamp */
+  protected static deletedAtColumn = "deleted_at"
+
+  /** Column holding the row version for optimistic locking (disabled when unset) */
+  protected static versionColumn?: string
+
+  /** Default consistency level for this model's queries (ScyllaDB) */
+  protected static consistency?: ConsistencyLevel
+
+  /** How this model's queries are checked against the primary key layout (ScyllaDB) */
+  protected static queryValidation?: QueryValidationMode
+
   /** Query scopes defined on this model */
   protected static scopes: Record<string, Function> = {}
 
@@ -119,6 +158,9 @@ export class Model<TAttrs extends Record<string, any>> {
   /** Whether this model was recently created */
   protected wasRecentlyCreated = false
 
+  /** WRITETIME() and TTL() values read with the model */
+  protected columnMetadata: ModelMetadata = { writetime: {}, ttl: {} }
+
   /**
    * Creates a new Model instance.
    *
@@ -190,6 +232,7 @@ export class Model<TAttrs extends Record<string, any>> {
    *
    * @template TModel - The model class type
    * @param this - The model class (static context)
+   * @param options - Optional transaction or batch to run the query in
    * @returns QueryBuilder instance configured for this model
    *
    * @example
@@ -197,10 +240,15 @@ export class Model<TAttrs extends Record<string, any>> {
    * const activeUsers = await User.query().where('status', 'active').get();
    * const user = await User.query().where('id', '123').first();
    * const count = await User.query().count();
+   *
+   * await connection.transaction(async (trx) => {
+   *   await User.query({ trx }).where('id', '123').update({ status: 'banned' });
+   * });
    * 
    */
   static query<TModel extends typeof Model<any>>(
     this: TModel,
+    options: ModelQueryOptions = {},
   ): QueryBuilder<InstanceType<TModel>, InferAttributes<InstanceType<TModel>>> {
     const instance = new this() as InstanceType<TModel>
     const builder = new QueryBuilder<InstanceType<TModel>, InferAttributes<InstanceType<TModel>>>(
@@ -208,6 +256,19 @@ export class Model<TAttrs extends Record<string, any>> {
       instance.getConnection(),
     ).setModel(this as any)
 
+    if (this.consistency) {
+      builder.consistency(this.consistency)
+    }
+    if (this.queryValidation) {
+      builder.queryValidation(this.queryValidation)
+    }
+    if (options.trx) {
+      builder.transacting(options.trx)
+    }
+    if (options.batch) {
+      builder.inBatch(options.batch)
+    }
+
     // const scopes = instance.getScopes?.() ?? {};
     // for (const [name, fn] of Object.entries(scopes)) {
     //   (builder as any)[name] = (...args: any[]) => fn.call(this, builder, ...args);
@@ -216,6 +277,40 @@ export class Model<TAttrs extends Record<string, any>> {
     return builder
   }
 
+  /**
+   * Creates a query that includes soft-deleted models.
+   *
+   * @param this - The model class (static context)
+   * @returns QueryBuilder instance including trashed models
+   *
+   * @example
+   * 
+   * const users = await User.withTrashed().where('team_id', teamId).get();
+   * 
+   */
+  static withTrashed<TModel extends typeof Model<any>>(
+    this: TModel,
+  ): QueryBuilder<InstanceType<TModel>, InferAttributes<InstanceType<TModel>>> {
+    return this.query().withTrashed()
+  }
+
+  /**
+   * Creates a query limited to soft-deleted models.
+   *
+   * @param this - The model class (static context)
+   * @returns QueryBuilder instance matching only trashed models
+   *
+   * @example
+   * 
+   * const deleted = await User.onlyTrashed().get();
+   * 
+   */
+  static onlyTrashed<TModel extends typeof Model<any>>(
+    this: TModel,
+  ): QueryBuilder<InstanceType<TModel>, InferAttributes<InstanceType<TModel>>> {
+    return this.query().onlyTrashed()
+  }
+
   /**
    * Finds a model by its primary key.
    *
@@ -414,10 +509,190 @@ export class Model<TAttrs extends Record<string, any>> {
     return await this.create({ ...attributes, ...values })
   }
 
+  /**
+   * Scans the entire table by splitting the token ring into sub-ranges
+   * over the model's partition keys and reading them in parallel.
+   * Falls back to the primary key when no partition keys are declared.
+   * Failed ranges are retried, so rows may be delivered more than once.
+   *
+   * @template TModel - Model class type
+   * @param this - The model class (static context)
+   * @param options - Split count, concurrency and retry settings
+   * @param callback - Invoked with each model instance
+   * @returns Promise resolving to the number of rows processed
+   *
+   * @example
+   * 
+   * const total = await Event.scanAll({ splits: 128, concurrency: 8 }, async (event) => {
+   *   await warehouse.push(event.toObject());
+   * });
+   * console.log(`Exported ${total} events`);
+   * 
+   */
+  public static async scanAll<TModel extends typeof Model<any>>(
+    this: TModel,
+    options: ScanOptions,
+    callback: (model: InstanceType<TModel>) => void | Promise<void>,
+  ): Promise<number> {
+    const partitionKeys = this.partitionKeys.length ? this.partitionKeys : [this.primaryKey]
+    const scanner = new TokenRangeScanner<InstanceType<TModel>>(() => this.query(), partitionKeys)
+    return await scanner.scan(options, callback)
+  }
+
+  /**
+   * Derives the table this model expects from its static configuration, for `SchemaDiffer`.
+   * Columns are the partition and clustering keys (the primary key when no partition keys
+   * are declared), fillable attributes, casts, the version column and the timestamp and
+   * soft delete columns. Types come from casts
+   * (`decimal:2`, `tuple:int,text`, UDT classes); uncast date attributes are timestamps,
+   * an uncast primary key is a uuid and every other uncast column is text. Clustering order
+   * is not part of the model, so it is left to the migration.
+   *
+   * @param this - The model class (static context)
+   * @returns Table definition with the model's columns and primary key layout
+   *
+   * @example
+   * 
+   * class Reading extends Model<ReadingAttributes> {
+   *   protected static table = 'readings';
+   *   protected static partitionKeys = ['sensor_id'];
+   *   protected static clusteringKeys = ['taken_at'];
+   *   protected static fillable = ['sensor_id', 'taken_at', 'value'];
+   *   protected static casts = { sensor_id: 'uuid', taken_at: 'datetime', value: 'double' };
+   * }
+   *
+   * const definition = Reading.toTableDefinition();
+   * // columns: sensor_id uuid, taken_at timestamp, value double, created_at/updated_at timestamp
+   * 
+   */
+  public static toTableDefinition<TModel extends typeof Model<any>>(this: TModel): TableDefinition {
+    const partitionKeys = this.partitionKeys.length ? this.partitionKeys : [this.primaryKey]
+    const clusteringKeys = this.clusteringKeys
+    const primary = [...partitionKeys, ...clusteringKeys]
+
+    const names = [
+      ...primary,
+      ...this.fillable,
+      ...Object.keys(this.casts),
+      ...(this.versionColumn ? [this.versionColumn] : []),
+      ...(this.timestamps ? ["created_at", "updated_at"] : []),
+      ...(this.softDeletes ? [this.deletedAtColumn] : []),
+    ]
+
+    const columns = [...new Set(names)].map((name): ColumnDefinition => {
+      const column = { ...this.columnForAttribute(name), name }
+      return primary.includes(name) ? { ...column, primary: true, nullable: false } : column
+    })
+
+    return {
+      name: new this().getTable(),
+      columns,
+      partitionKeys,
+      clusteringKeys,
+      clusteringOrder: {},
+    }
+  }
+
+  /**
+   * Picks the column type of an attribute for `toTableDefinition()`.
+   *
+   * @protected
+   * @param name - Attribute name
+   * @returns Column definition without the name
+   */
+  protected static columnForAttribute(name: string): Omit<ColumnDefinition, "name"> {
+    const cast = this.casts[name]
+    if (cast !== undefined) {
+      return this.columnForCast(cast)
+    }
+    if (this.dates.includes(name) || name === this.deletedAtColumn) {
+      return { type: "timestamp" }
+    }
+    if (name === this.versionColumn) {
+      return { type: "integer" }
+    }
+    return name === this.primaryKey ? { type: "uuid" } : { type: "text" }
+  }
+
+  /**
+   * Maps an attribute cast to a column type.
+   *
+   * @protected
+   * @param cast - Cast name, UDT class or [UDT class]
+   * @returns Column definition without the name
+   */
+  protected static columnForCast(cast: AttributeCast): Omit<ColumnDefinition, "name"> {
+    if (Array.isArray(cast)) {
+      return { type: "list", elementType: `frozen<${this.udtNameOf(cast[0])}>` }
+    }
+    if (typeof cast === "function") {
+      return { type: "udt", udtName: this.udtNameOf(cast), frozen: true }
+    }
+
+    const [castType, argument] = cast.split(":")
+
+    switch (castType) {
+      case "int":
+      case "integer":
+        return { type: "integer" }
+      case "real":
+      case "float":
+        return { type: "float" }
+      case "double":
+        return { type: "double" }
+      case "bool":
+      case "boolean":
+        return { type: "boolean" }
+      case "object":
+      case "array":
+      case "json":
+        return { type: "json" }
+      case "date":
+      case "datetime":
+        return { type: "timestamp" }
+      case "bigint":
+        return { type: "bigInteger" }
+      case "decimal":
+        return { type: "decimal", precision: 8, scale: argument ? Number(argument) : 2 }
+      case "blob":
+      case "binary":
+        return { type: "binary" }
+      case "tuple":
+        return argument ? { type: "tuple", tupleTypes: argument.split(",") } : { type: "json" }
+      case "varint":
+      case "inet":
+      case "time":
+      case "duration":
+      case "uuid":
+      case "timeuuid":
+        return { type: castType }
+      default:
+        return { type: "text" }
+    }
+  }
+
+  /**
+   * Gets the type name of a UDT cast class: its static `typeName`, or the snake_cased class name.
+   *
+   * @protected
+   * @param castClass - UDT class
+   * @returns Name of the user-defined type
+   */
+  protected static udtNameOf(castClass: CastClass): string {
+    return (
+      (castClass as any).typeName ??
+      castClass.name
+        .replace(/([A-Z])/g, "_$1")
+        .toLowerCase()
+        .replace(/^_/, "")
+    )
+  }
+
   /**
    * Saves the model to the database.
    * Handles both creating new records and updating existing ones.
    *
+   * @param options - Optional transaction or batch to save in
    * @returns Promise resolving to true if save was successful
    *
    * @example
@@ -427,10 +702,14 @@ export class Model<TAttrs extends Record<string, any>> {
    *
    * user.name = 'Jane';
    * await user.save(); // Updates existing record
+   *
+   * await connection.transaction(async (trx) => {
+   *   await user.save({ trx }); // Saves inside the transaction
+   * });
    * 
    */
-  public async save(): Promise<boolean> {
-    const query = this.newQuery()
+  public async save(options: ModelQueryOptions = {}): Promise<boolean> {
+    const query = this.newQuery(options)
 
     // Fire saving event
     if ((await this.fireModelEvent("saving")) === false) {
@@ -469,6 +748,7 @@ export class Model<TAttrs extends Record<string, any>> {
    * Updates the model with new attributes and saves to database.
    *
    * @param attributes - Attributes to update
+   * @param options - Optional transaction or batch to save in
    * @returns Promise resolving to true if update was successful
    *
    * @example
@@ -477,18 +757,94 @@ export class Model<TAttrs extends Record<string, any>> {
    * await user.update({ name: 'Jane Doe', email: 'jane@example.com' });
    * 
    */
-  public async update(attributes: Partial<TAttrs>): Promise<boolean> {
+  public async update(attributes: Partial<TAttrs>, options: ModelQueryOptions = {}): Promise<boolean> {
     if (!this.exists) {
       return false
     }
 
     this.fill(attributes)
-    return await this.save()
+    return await this.save(options)
+  }
+
+  /**
+   * Increments a column on this model's row and updates the attribute in place.
+   * Use this for ScyllaDB counter columns, which cannot be written with `save()`.
+   *
+   * @param column - Column to increment
+   * @param amount - Amount to add (defaults to 1)
+   * @param extra - Additional attributes to set in the same statement
+   * @param options - Optional transaction or batch to write in
+   * @returns Promise resolving to true if the increment was written
+   *
+   * @example
+   * 
+   * const stats = await PageStats.find('/home');
+   * await stats.increment('views');
+   * await stats.increment('shares', 5);
+   *
+   * await connection.batch((b) => {
+   *   stats.increment('views', 1, {}, { batch: b });
+   * });
+   * 
+   */
+  public async increment(
+    column: keyof TAttrs & string,
+    amount = 1,
+    extra: Partial<TAttrs> = {},
+    options: ModelQueryOptions = {},
+  ): Promise<boolean> {
+    if (!this.exists) {
+      return false
+    }
+
+    if ((await this.fireModelEvent("updating")) === false) {
+      return false
+    }
+
+    await this.newQuery(options).where(this.getKeyName(), this.getKey()).increment(column, amount, extra)
+
+    // Counters are read as a number, bigint or string depending on the driver's `valueMapping.bigint`
+    const current: any = this.getAttribute(column) ?? 0
+    const next = typeof current === "bigint" ? current + BigInt(amount) : Number(current) + amount
+    const written = { ...extra, [column]: next } as Partial<TAttrs>
+    for (const key of Object.keys(written) as (keyof TAttrs)[]) {
+      this.setAttribute(key, written[key] as TAttrs[keyof TAttrs])
+      this.original[key] = this.attributes[key]
+      delete this.changes[key]
+    }
+
+    await this.fireModelEvent("updated")
+    return true
+  }
+
+  /**
+   * Decrements a column on this model's row and updates the attribute in place.
+   *
+   * @param column - Column to decrement
+   * @param amount - Amount to subtract (defaults to 1)
+   * @param extra - Additional attributes to set in the same statement
+   * @param options - Optional transaction or batch to write in
+   * @returns Promise resolving to true if the decrement was written
+   *
+   * @example
+   * 
+   * const product = await Product.find(id);
+   * await product.decrement('stock', 2);
+   * 
+   */
+  public async decrement(
+    column: keyof TAttrs & string,
+    amount = 1,
+    extra: Partial<TAttrs> = {},
+    options: ModelQueryOptions = {},
+  ): Promise<boolean> {
+    return await this.increment(column, -amount, extra, options)
   }
 
   /**
    * Deletes the model from the database.
    *
+   * @param options - Optional transaction or batch to delete in
    * @returns Promise resolving to true if deletion was successful
    *
    * @example
@@ -498,9 +854,40 @@ export class Model<TAttrs extends Record<string, any>> {
    *   await user.delete();
    *   console.log('User deleted');
    * }
+   *
+   * await connection.transaction(async (trx) => {
+   *   await user.delete({ trx });
+   * });
+   * 
+   */
+  public async delete(options: ModelQueryOptions = {}): Promise<boolean> {
+    if (!this.exists) {
+      return false
+    }
+
+    if ((await this.fireModelEvent("deleting")) === false) {
+      return false
+    }
+
+    await this.performDeleteOnModel(options)
+    await this.fireModelEvent("deleted")
+
+    return true
+  }
+
+  /**
+   * Permanently deletes the model, bypassing soft deletes.
+   *
+   * @param options - Optional transaction or batch to delete in
+   * @returns Promise resolving to true if deletion was successful
+   *
+   * @example
+   * 
+   * const user = await User.withTrashed().where('id', '123').first();
+   * await user?.forceDelete();
    * 
    */
-  public async delete(): Promise<boolean> {
+  public async forceDelete(options: ModelQueryOptions = {}): Promise<boolean> {
     if (!this.exists) {
       return false
     }
@@ -509,13 +896,57 @@ export class Model<TAttrs extends Record<string, any>> {
       return false
     }
 
-    await this.performDeleteOnModel()
+    await this.newQuery(options).where(this.getKeyName(), this.getKey()).forceDelete()
     this.exists = false
     await this.fireModelEvent("deleted")
 
     return true
   }
 
+  /**
+   * Restores a soft-deleted model by clearing its `deleted_at` column.
+   * Fires the `restoring` and `restored` events.
+   *
+   * @param options - Optional transaction or batch to save in
+   * @returns Promise resolving to true if the model was restored
+   *
+   * @example
+   * 
+   * const user = await User.onlyTrashed().where('id', '123').first();
+   * if (user) {
+   *   await user.restore();
+   * }
+   * 
+   */
+  public async restore(options: ModelQueryOptions = {}): Promise<boolean> {
+    if (!this.usesSoftDeletes()) {
+      return false
+    }
+
+    if ((await this.fireModelEvent("restoring")) === false) {
+      return false
+    }
+
+    this.setAttribute(this.getDeletedAtColumn() as keyof TAttrs, null as any)
+    this.exists = true
+    const saved = await this.save(options)
+
+    if (saved) {
+      await this.fireModelEvent("restored")
+    }
+
+    return saved
+  }
+
+  /**
+   * Checks if the model has been soft-deleted.
+   *
+   * @returns True if the soft delete column is set
+   */
+  public trashed(): boolean {
+    return this.usesSoftDeletes() && this.getAttribute(this.getDeletedAtColumn() as keyof TAttrs) != null
+  }
+
   /**
    * Refreshes the model from the database.
    * Reloads all attributes from the database, discarding any unsaved changes.
@@ -904,6 +1335,64 @@ export class Model<TAttrs extends Record<string, any>> {
     this.changes = {} // Reset changes
   }
 
+  /**
+   * Sets the column write metadata read with the model.
+   *
+   * @param metadata - WRITETIME() and TTL() values keyed by column
+   *
+   * @example
+   * 
+   * // Internal usage in hydration
+   * model.setMetadata({ writetime: { status: 1700000000000000 }, ttl: {} });
+   * 
+   */
+  public setMetadata(metadata: ModelMetadata) {
+    this.columnMetadata = metadata
+  }
+
+  /**
+   * Gets the column write metadata read with the model.
+   *
+   * @returns WRITETIME() and TTL() values keyed by column
+   */
+  public getMetadata(): ModelMetadata {
+    return this.columnMetadata
+  }
+
+  /**
+   * Gets the write time of a column, when it was selected with `selectWritetime()`.
+   *
+   * @param column - Column name
+   * @returns Write time in microseconds since the epoch, or undefined when not selected
+   *
+   * @example
+   * 
+   * const device = await Device.query().where('id', id).selectWritetime('status').first();
+   * if (device && device.getWritetime('status')! < incoming.timestamp) {
+   *   await device.update({ status: incoming.status });
+   * }
+   * 
+   */
+  public getWritetime(column: keyof TAttrs & string): number | undefined {
+    return this.columnMetadata.writetime[column]
+  }
+
+  /**
+   * Gets the remaining time to live of a column, when it was selected with `selectTtl()`.
+   *
+   * @param column - Column name
+   * @returns Remaining TTL in seconds, null when the column does not expire, or undefined when not selected
+   *
+   * @example
+   * 
+   * const token = await Token.query().where('id', id).selectTtl('value').first();
+   * console.log(`Expires in ${token?.getTtl('value')} seconds`);
+   * 
+   */
+  public getTtl(column: keyof TAttrs & string): number | null | undefined {
+    return this.columnMetadata.ttl[column]
+  }
+
   /**
    * Returns the original value of an attribute, or all original attributes if no key is given.
    *
@@ -978,34 +1467,74 @@ export class Model<TAttrs extends Record<string, any>> {
    * Creates a new query builder for this model instance.
    *
    * @protected
+   * @param options - Optional transaction or batch for the query
    * @returns QueryBuilder instance
    */
-  protected newQuery(): QueryBuilder<this, TAttrs> {
-    return new QueryBuilder(this.getTable(), this.getConnection()).setModel(this.constructor as any)
+  protected newQuery(options: ModelQueryOptions = {}): QueryBuilder<this, TAttrs> {
+    const query = new QueryBuilder(this.getTable(), this.getConnection()).setModel(this.constructor as any).withTrashed()
+    const consistency = (this.constructor as typeof Model).consistency
+    if (consistency) {
+      query.consistency(consistency)
+    }
+    if (options.trx) {
+      query.transacting(options.trx)
+    }
+    if (options.batch) {
+      query.inBatch(options.batch)
+    }
+    return query as QueryBuilder<this, TAttrs>
   }
 
   /**
    * Performs database insert operation.
+   * With a version column on ScyllaDB, where an INSERT overwrites any existing row,
+   * the insert is sent with `IF NOT EXISTS` so a concurrent create of the same key is detected.
    *
    * @protected
    * @param query - QueryBuilder instance
    * @returns Promise that resolves when insert is complete
+   * @throws {StaleModelError} When a row with the same key already exists
+   *   (from `Batch.execute()` for saves recorded in a batch)
    */
   protected async performInsert(query: QueryBuilder<this, TAttrs>): Promise<void> {
     if (this.getTimestamps()) {
       this.updateTimestamps()
     }
 
+    const versionColumn = this.getVersionColumn()
+    if (versionColumn && this.getAttribute(versionColumn as keyof TAttrs) == null) {
+      this.setAttribute(versionColumn as keyof TAttrs, 1 as any)
+    }
+
     const attributes = this.getAttributesForInsert()
-    await query.insert(attributes)
+    if (!versionColumn || !(query.getGrammar() instanceof ScyllaDBGrammar)) {
+      await query.insert(attributes)
+      return
+    }
+
+    const result = await query.insertIfNotExists(attributes)
+    const batch = query.getBatch()
+    if (batch) {
+      batch.afterExecute(({ lwt }) => {
+        if (lwt && !lwt.applied) {
+          throw new StaleModelError(this, null, lwt.current?.[versionColumn])
+        }
+      })
+    } else if (!result.applied) {
+      throw new StaleModelError(this, null, result.current?.[versionColumn])
+    }
   }
 
   /**
    * Performs database update operation.
+   * With a version column, the write is conditioned on the version the model
+   * was loaded with (`IF` on ScyllaDB, `WHERE` elsewhere) and the version is incremented.
    *
    * @protected
    * @param query - QueryBuilder instance
    * @returns Promise that resolves when update is complete
+   * @throws {StaleModelError} When another writer changed the row since it was loaded
+   *   (from `Batch.execute()` for saves recorded in a batch)
    */
   protected async performUpdate(query: QueryBuilder<this, TAttrs>): Promise<void> {
     if (this.getTimestamps()) {
@@ -1017,17 +1546,65 @@ export class Model<TAttrs extends Record<string, any>> {
       return
     }
 
-    await query.where(this.getKeyName(), this.getKey()).update(dirty)
+    query.where(this.getKeyName(), this.getKey())
+
+    const versionColumn = this.getVersionColumn() as keyof TAttrs | undefined
+    if (!versionColumn) {
+      await query.update(dirty)
+      return
+    }
+
+    const expected = this.original[versionColumn]
+    const next = (Number(expected) || 0) + 1
+
+    // Rows written before locking was enabled have no version to compare against
+    if (expected != null) {
+      query.if(versionColumn, "=", expected as any)
+    }
+
+    const values = { ...dirty, [versionColumn]: next }
+    const batch = query.getBatch()
+    if (expected == null) {
+      await query.update(values)
+    } else if (batch) {
+      // A batched write only runs when the batch executes, so the condition is checked then
+      await query.updateIf(values)
+      batch.afterExecute(({ lwt }) => {
+        if (lwt && !lwt.applied) {
+          throw new StaleModelError(this, expected, lwt.current?.[versionColumn as string])
+        }
+      })
+    } else {
+      const result = await query.updateIf(values)
+      if (!result.applied) {
+        throw new StaleModelError(this, expected, result.current?.[versionColumn as string])
+      }
+    }
+
+    this.setAttribute(versionColumn, next as any)
   }
 
   /**
    * Performs database delete operation.
    *
    * @protected
+   * @param options - Optional transaction or batch to delete in
    * @returns Promise that resolves when delete is complete
    */
-  protected async performDeleteOnModel(): Promise<void> {
-    await this.newQuery().where(this.getKeyName(), this.getKey()).delete()
+  protected async performDeleteOnModel(options: ModelQueryOptions = {}): Promise<void> {
+    const query = this.newQuery(options).where(this.getKeyName(), this.getKey())
+
+    if (this.usesSoftDeletes()) {
+      const column = this.getDeletedAtColumn() as keyof TAttrs
+      const time = new Date()
+      await query.update({ [column]: time })
+      this.setAttribute(column, time as TAttrs[keyof TAttrs])
+      this.original[column] = this.attributes[column]
+      return
+    }
+
+    await query.delete()
+    this.exists = false
   }
 
   /**
@@ -1111,7 +1688,7 @@ export class Model<TAttrs extends Record<string, any>> {
    * @protected
    * @returns Object mapping attribute names to cast types
    */
-  protected getCasts(): Record<string, string> {
+  protected getCasts(): Record<string, AttributeCast> {
     return (this.constructor as typeof Model).casts
   }
 
@@ -1167,12 +1744,33 @@ export class Model<TAttrs extends Record<string, any>> {
    * @returns Casted value
    */
   protected castAttribute(key: keyof TAttrs, value: any): any {
-    const castType = this.getCasts()[String(key)]
+    return this.castValue(this.getCasts()[String(key)], value)
+  }
+
+  /**
+   * Casts a value to an attribute cast; also applied to the fields of UDT classes.
+   *
+   * @protected
+   * @param cast - Cast name, UDT class or [UDT class]
+   * @param value - Value to cast
+   * @returns Casted value
+   */
+  protected castValue(cast: AttributeCast, value: any): any {
+    if (value === null || value === undefined) {
+      return value
+    }
+
+    if (Array.isArray(cast)) {
+      const items = typeof value === "string" ? JSON.parse(value) : value
+      return Array.from(items, (item) => this.castValue(cast[0], item))
+    }
 
-    if (value === null) {
-      return null
+    if (typeof cast === "function") {
+      return this.castToClass(cast, value)
     }
 
+    const [castType, argument] = cast.split(":")
+
     switch (castType) {
       case "int":
       case "integer":
@@ -1193,11 +1791,84 @@ export class Model<TAttrs extends Record<string, any>> {
       case "date":
       case "datetime":
         return new Date(value)
+      case "bigint":
+      case "varint":
+        return typeof value === "bigint" ? value : BigInt(String(value).split(".")[0])
+      case "decimal":
+        return this.formatDecimal(value, argument)
+      case "inet":
+      case "time":
+      case "duration":
+        return String(value)
+      case "blob":
+      case "binary":
+        return Buffer.isBuffer(value) ? value : Buffer.from(value)
+      case "tuple":
+        return Array.from(typeof value === "string" ? JSON.parse(value) : value)
       default:
         return value
     }
   }
 
+  /**
+   * Hydrates a UDT value into an instance of its cast class,
+   * casting fields listed in the class's static `casts`.
+   *
+   * @protected
+   * @param castClass - Class the value is cast to
+   * @param value - Plain object (or JSON string) read from the database
+   * @returns Instance of the class
+   */
+  protected castToClass(castClass: CastClass, value: any): any {
+    if (value instanceof castClass) {
+      return value
+    }
+
+    const fields = typeof value === "string" ? JSON.parse(value) : value
+    const casts: Record<string, AttributeCast> = (castClass as any).casts ?? {}
+    const instance = new castClass()
+    for (const [field, item] of Object.entries(fields)) {
+      instance[field] = field in casts ? this.castValue(casts[field], item) : item
+    }
+    return instance
+  }
+
+  /**
+   * Formats a decimal value as an exact decimal string.
+   * With a scale the fraction is padded or rounded half-up to that many digits,
+   * without going through a double.
+   *
+   * @protected
+   * @param value - number, string, bigint or driver decimal (anything with an exact toString)
+   * @param scale - Optional number of fraction digits, from a `decimal:2` cast
+   * @returns Decimal string
+   */
+  protected formatDecimal(value: any, scale?: string): string {
+    // Small doubles print in exponent form (1e-7), which the pattern below does not accept
+    const text = typeof value === "number" && /e-/.test(String(value)) ? value.toFixed(20) : String(value).trim()
+    if (scale === undefined) {
+      return text
+    }
+
+    const digits = Number.parseInt(scale, 10)
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text)
+    if (!match || !Number.isInteger(digits) || digits < 0) {
+      throw new Error(`Cannot cast "${text}" to decimal:${scale}`)
+    }
+
+    const [, sign, whole, fraction = ""] = match
+    let units = BigInt((whole || "0") + fraction.padEnd(digits, "0").slice(0, digits))
+    if (fraction.length > digits && fraction[digits] >= "5") {
+      units += 1n
+    }
+
+    const padded = units.toString().padStart(digits + 1, "0")
+    const negative = sign === "-" && units !== 0n ? "-" : ""
+    return digits === 0
+      ? `${negative}${padded}`
+      : `${negative}${padded.slice(0, -digits)}.${padded.slice(-digits)}`
+  }
+
   /**
    * Casts an attribute value for JSON storage.
    *
@@ -1207,12 +1878,59 @@ export class Model<TAttrs extends Record<string, any>> {
    * @returns Casted value for storage
    */
   protected castAttributeAsJson(key: keyof TAttrs, value: any): any {
-    const castType = this.getCasts()[String(key)]
+    return this.castValueForStorage(this.getCasts()[String(key)], value)
+  }
+
+  /**
+   * Casts a value for storage; also applied to the fields of UDT classes.
+   * UDT class instances become plain objects, which bind to UDT columns,
+   * and `tuple` values are wrapped in a TupleValue.
+   *
+   * @protected
+   * @param cast - Cast name, UDT class or [UDT class]
+   * @param value - Value to cast
+   * @returns Casted value for storage
+   */
+  protected castValueForStorage(cast: AttributeCast, value: any): any {
+    if (typeof cast !== "string") {
+      if (value === null || value === undefined) {
+        return value
+      }
+      if (Array.isArray(cast)) {
+        return Array.from(value, (item) => this.castValueForStorage(cast[0], item))
+      }
+
+      const casts: Record<string, AttributeCast> = (cast as any).casts ?? {}
+      const fields: Record<string, any> = {}
+      for (const [field, item] of Object.entries(value)) {
+        fields[field] = field in casts ? this.castValueForStorage(casts[field], item) : item
+      }
+      return fields
+    }
+
+    const [castType, argument] = cast.split(":")
 
     if (["object", "array", "json"].includes(castType)) {
       return typeof value === "object" ? JSON.stringify(value) : value
     }
 
+    if (value === null || value === undefined) {
+      return value
+    }
+
+    // Exact numbers are stored as strings, which every driver binds without rounding
+    if (["bigint", "varint"].includes(castType) && typeof value === "bigint") {
+      return value.toString()
+    }
+
+    if (castType === "decimal" && (typeof value !== "number" || argument !== undefined)) {
+      return this.formatDecimal(value, argument)
+    }
+
+    if (castType === "tuple" && !(value instanceof TupleValue)) {
+      return new TupleValue(Array.from(typeof value === "string" ? JSON.parse(value) : value))
+    }
+
     return value
   }
 
@@ -1349,6 +2067,52 @@ export class Model<TAttrs extends Record<string, any>> {
     return (this.constructor as typeof Model).keyspace
   }
 
+  /**
+   * Gets the optimistic locking version column.
+   *
+   * @returns Version column name or undefined when locking is disabled
+   *
+   * @example
+   * 
+   * class Post extends Model<PostAttributes> {
+   *   protected static versionColumn = 'version';
+   * }
+   *
+   * console.log(new Post().getVersionColumn()); // 'version'
+   * 
+   */
+  public getVersionColumn(): string | undefined {
+    return (this.constructor as typeof Model).versionColumn
+  }
+
+  /**
+   * Checks if the model uses soft deletes.
+   *
+   * @returns True if soft deletes are enabled
+   */
+  public usesSoftDeletes(): boolean {
+    return (this.constructor as typeof Model).softDeletes
+  }
+
+  /**
+   * Gets the soft delete timestamp column.
+   *
+   * @returns Column name
+   *
+   * @example
+   * 
+   * class User extends Model<UserAttributes> {
+   *   static softDeletes = true;
+   *   protected static deletedAtColumn = 'removed_at';
+   * }
+   *
+   * console.log(new User().getDeletedAtColumn()); // 'removed_at'
+   * 
+   */
+  public getDeletedAtColumn(): string {
+    return (this.constructor as typeof Model).deletedAtColumn
+  }
+
   /**
    * Sets TTL for ScyllaDB operations.
    *
@@ -1383,7 +2147,7 @@ export class Model<TAttrs extends Record<string, any>> {
   /**
    * Lazy loads relationships on this model instance.
    *
-   * @param relations - Relationship names to load
+   * @param relations - Relationship names, or objects of relationship names to constraint callbacks
    * @returns Promise resolving to this model with loaded relationships
    *
    * @example
@@ -1391,9 +2155,11 @@ export class Model<TAttrs extends Record<string, any>> {
    * const user = await User.find('123');
    * await user.load('posts', 'profile');
    * console.log(user.posts); // Now loaded
+   *
+   * await user.load({ posts: (q) => q.where('published', true).limit(5) });
    * 
    */
-  public async load(...relations: string[]): Promise<this> {
+  public async load(...relations: Array<string | EagerLoadRelations>): Promise<this> {
     const list = Array.isArray(relations) ? relations : [relations]
     // Use QueryBuilder.loadEagerFor
     await new QueryBuilder(this.getTable(), this.getConnection())
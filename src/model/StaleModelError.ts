@@ -0,0 +1,39 @@
+import type { Model } from "./Model"
+
+/**
+ * Thrown by `Model.save()` when optimistic locking detects a concurrent write:
+ * the stored version no longer matches the version the model was loaded with,
+ * or, on ScyllaDB, a row with the key of a new model already exists.
+ *
+ * @example
+ *
+ * try {
+ *   await post.save();
+ * } catch (error) {
+ *   if (error instanceof StaleModelError) {
+ *     await post.refresh(); // reload and retry
+ *   }
+ * }
+ *
+ */
+export class StaleModelError extends Error {
+  /**
+   * Creates a new StaleModelError instance.
+   *
+   * @param model - The model whose save was rejected
+   * @param expectedVersion - Version the write was conditioned on (null for an insert of a new row)
+   * @param currentVersion - Stored version, when the database reports it
+   */
+  constructor(
+    public readonly model: Model<any>,
+    public readonly expectedVersion: any,
+    public readonly currentVersion?: any,
+  ) {
+    super(
+      `${model.constructor.name} [${model.getKey()}] is stale: ` +
+        (expectedVersion === null ? "expected no existing row" : `expected version ${expectedVersion}`) +
+        (currentVersion !== undefined ? `, found ${currentVersion}.` : "."),
+    )
+    this.name = "StaleModelError"
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * A value bound to a tuple column.
+ * Plain arrays bind to lists and sets; wrapping the elements marks them as a tuple.
+ * Models with a `tuple` cast wrap their values on write, so this is only needed
+ * when writing tuple columns through the query builder.
+ *
+ * @example
+ *
+ * await new QueryBuilder('places').insert({ id: 1, coordinates: new TupleValue([52.37, 4.89]) });
+ *
+ */
+export class TupleValue {
+  /**
+   * Creates a new TupleValue instance.
+   *
+   * @param values - Tuple elements, in column order
+   */
+  constructor(public readonly values: any[]) {}
+
+  /**
+   * Serializes the tuple as an array, which is how JSON tuple columns store it.
+   *
+   * @returns The tuple elements
+   */
+  toJSON(): any[] {
+    return this.values
+  }
+}
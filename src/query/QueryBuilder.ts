@@ -1,13 +1,24 @@
+import { GROUP_ROW_COLUMN } from "../drivers/grammars/QueryGrammar"
 import type { QueryGrammar } from "../drivers/grammars/QueryGrammar"
+import { ScyllaDBGrammar } from "../drivers/grammars/ScyllaDBGrammar"
 import type { DatabaseDriver } from "../drivers/DatabaseDriver"
+import type { ScyllaDBDriver } from "../drivers/ScyllaDBDriver"
+import { QueryPlanError } from "./QueryPlanError"
+import type { QueryPlanErrorReason } from "./QueryPlanError"
 import { ConnectionManager } from "../connection/ConnectionManager"
-import type { WhereClause } from "@/types"
+import type { CollectionUpdate, ConsistencyLevel, LwtResult, ModelMetadata, PaginatedResult, PaginationOptions, QueryOptions, QueryResult, QueryValidationMode, RelationCount, RelationExistence, StreamOptions, WhereClause } from "@/types"
 import type { Model } from "@/model/Model"
-import type { Relationship } from "@/relationships/Relationship"
+import type { Transaction } from "@/connection/Transaction"
+import type { Batch } from "@/connection/Batch"
 import { CacheManager } from "@/cache/CacheManager"
+import { Relationship } from "@/relationships/Relationship"
 
-type Operator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "in"
-type EagerLoadRelations<TModel extends Model<any>> = Record<string, (query: QueryBuilder<any, any>) => void>
+type Operator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "CONTAINS" | "CONTAINS KEY"
+export type EagerConstraint = (query: QueryBuilder<any, any>) => void
+export type EagerLoadRelations = Record<string, EagerConstraint>
+
+/** Number of per-value queries limitPerGroup() runs at once when it falls back to one query per value. */
+const GROUP_LIMIT_CONCURRENCY = 10
 
 /**
  * QueryBuilder class for building and executing database queries.
@@ -58,18 +69,33 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
   protected _orders: any[] = []
   protected _limit?: number
   protected _offset?: number
+  protected _groupLimit?: { column: string; count: number }
   protected _unions: any[] = []
   protected eager: string[] = []
+  protected eagerConstraints: EagerLoadRelations = {}
+  protected _relationCounts: RelationCount[] = []
+  protected _trashed: "without" | "with" | "only" = "without"
 
   // ScyllaDB specific
   protected _allowFiltering = false
   protected _ttl?: number
   protected _ifNotExists = false
   protected _ifConditions: any[] = []
+  protected _consistency?: ConsistencyLevel
+  protected _serialConsistency?: ConsistencyLevel
+  protected _timeout?: number
+  protected _timestamp?: number | bigint
+  protected _metaSelects: { type: "writetime" | "ttl"; column: string }[] = []
+  protected _distinct = false
+  protected _perPartitionLimit?: number
+  protected _primaryKey?: { partitionKeys: string[]; clusteringKeys: string[]; indexTargets: string[] }
+  protected _validation?: QueryValidationMode
 
   // Model binding
   protected model?: new () => TModel
   protected connection?: string
+  protected trx?: Transaction
+  protected _batch?: Batch
 
   // Cache
   private cacheKey?: string
@@ -97,6 +123,62 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     this.grammar = this.driver.getGrammar()
   }
 
+  /**
+   * Runs the query inside a transaction, on the transaction's physical connection.
+   *
+   * @param trx - Transaction from `Connection.transaction()`
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * await connection.transaction(async (trx) => {
+   *   await new QueryBuilder('accounts').transacting(trx).where('id', 1).update({ balance: 0 });
+   * });
+   * ```
+   */
+  public transacting(trx: Transaction): this {
+    this.trx = trx
+    this.driver = trx.getDriver()
+    this.grammar = this.driver.getGrammar()
+    return this
+  }
+
+  /**
+   * Records this builder's writes in a batch instead of executing them.
+   *
+   * @param batch - Batch from `Connection.batch()`
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * await connection.batch(async (b) => {
+   *   await new QueryBuilder('events').inBatch(b).insert({ device_id: 'd1', value: 1 });
+   * });
+   * ```
+   */
+  public inBatch(batch: Batch): this {
+    this._batch = batch
+    return this
+  }
+
+  /**
+   * Gets the batch this builder's writes are recorded in.
+   *
+   * @returns The batch, or undefined when writes are executed directly
+   */
+  public getBatch(): Batch | undefined {
+    return this._batch
+  }
+
+  /**
+   * Gets the grammar of the connection (or transaction) the builder runs on.
+   *
+   * @returns Query grammar instance
+   */
+  public getGrammar(): QueryGrammar {
+    return this.grammar
+  }
+
   /**
    * Sets the model class for this query builder.
    * Enables model hydration and relationship loading.
@@ -483,6 +565,74 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     return this
   }
 
+  /**
+   * Adds an aggregate to the SELECT clause, typically next to `groupBy()`.
+   * On ScyllaDB the grouping must be a primary key prefix covering the whole partition key.
+   *
+   * @param fn - Aggregate function
+   * @param column - Column to aggregate (defaults to '*', only valid for count)
+   * @param alias - Result column name (defaults to the function name)
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const perDay = await Event.query()
+   *   .select('device_id', 'day')
+   *   .selectAggregate('count', '*', 'events')
+   *   .selectAggregate('max', 'value', 'peak')
+   *   .where('device_id', id)
+   *   .groupBy('device_id', 'day')
+   *   .get();
+   * ```
+   */
+  public selectAggregate<K extends keyof TAttrs>(
+    fn: "count" | "min" | "max" | "sum" | "avg",
+    column: K | "*" = "*",
+    alias: string = fn,
+  ): this {
+    return this.addSelect(`${fn.toUpperCase()}(${String(column)}) AS ${alias}`)
+  }
+
+  /**
+   * Selects only distinct rows.
+   * On ScyllaDB this is `SELECT DISTINCT` over the partition key columns,
+   * which are selected automatically when no columns were chosen.
+   *
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const devices = await Event.query().distinct().get(); // one row per partition
+   * ```
+   */
+  public distinct(): this {
+    this._distinct = true
+    return this
+  }
+
+  /**
+   * Limits the number of rows returned from each partition (ScyllaDB specific).
+   * Rows are taken in clustering order; ORDER BY needs the partition key restricted.
+   *
+   * @param count - Maximum rows per partition
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * // First 5 events of every device, in clustering order
+   * const first = await Event.query()
+   *   .perPartitionLimit(5)
+   *   .get();
+   * ```
+   */
+  public perPartitionLimit(count: number): this {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error("Per partition limit must be a positive integer.")
+    }
+    this._perPartitionLimit = count
+    return this
+  }
+
   /**
    * Adds a HAVING clause for filtering grouped results.
    *
@@ -530,6 +680,52 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     return this
   }
 
+  /**
+   * Gets the maximum number of results set with limit().
+   *
+   * @returns The limit, or undefined when none is set
+   *
+   * @example
+   *
+   * User.query().limit(10).getLimit(); // 10
+   * ```
+   */
+  public getLimit(): number | undefined {
+    return this._limit
+  }
+
+  /**
+   * Limits the results to `count` rows for each value of a column, replacing any limit().
+   * The column must be restricted with where() or whereIn(). Eager loading uses this so a
+   * constraint's limit applies to every parent rather than to the whole batch.
+   *
+   * ScyllaDB runs it as PER PARTITION LIMIT when the column is the table's only partition key
+   * and the query has no ORDER BY, SQL drivers as a ROW_NUMBER() window when the query has
+   * no joins; otherwise one limited query is run for each value, ten at a time.
+   *
+   * @param column - Column whose values form the groups
+   * @param count - Maximum rows per value
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * // Latest three posts of each user
+   * const posts = await Post.query()
+   *   .whereIn('user_id', userIds)
+   *   .orderBy('created_at', 'desc')
+   *   .limitPerGroup('user_id', 3)
+   *   .get();
+   * ```
+   */
+  public limitPerGroup(column: string, count: number): this {
+    if (!Number.isInteger(count) || count <= 0) {
+      throw new Error("Per group limit must be a positive integer.")
+    }
+    this._groupLimit = { column, count }
+    this._limit = undefined
+    return this
+  }
+
   /**
    * Sets the number of results to skip.
    *
@@ -601,6 +797,146 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     return this
   }
 
+  /**
+   * Sets the consistency level for this query (ScyllaDB specific).
+   * Overrides the model's `static consistency` and the connection default.
+   *
+   * @param level - Consistency level, e.g. 'LOCAL_ONE' or 'localQuorum'
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const user = await User.query()
+   *   .where('id', id)
+   *   .consistency('LOCAL_ONE')
+   *   .first();
+   * ```
+   */
+  public consistency(level: ConsistencyLevel): this {
+    this._consistency = level
+    return this
+  }
+
+  /**
+   * Sets the serial consistency level used by lightweight transactions (ScyllaDB specific).
+   *
+   * @param level - 'SERIAL' or 'LOCAL_SERIAL'
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * await User.query()
+   *   .where('id', id)
+   *   .if('version', '=', 3)
+   *   .serialConsistency('LOCAL_SERIAL')
+   *   .update({ version: 4 });
+   * ```
+   */
+  public serialConsistency(level: ConsistencyLevel): this {
+    this._serialConsistency = level
+    return this
+  }
+
+  /**
+   * Sets the client-side timeout for this query (ScyllaDB specific).
+   *
+   * @param ms - Timeout in milliseconds
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const events = await Event.query().where('device_id', id).timeout(2000).get();
+   * ```
+   */
+  public timeout(ms: number): this {
+    this._timeout = ms
+    return this
+  }
+
+  /**
+   * Sets the write timestamp of inserts, updates and deletes (ScyllaDB specific).
+   * Compiles to `USING TIMESTAMP`; the write with the highest timestamp wins.
+   * Writes with a timestamp throw on other databases.
+   *
+   * @param micros - Timestamp in microseconds since the epoch
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * await Device.query()
+   *   .where('id', id)
+   *   .usingTimestamp(event.occurredAt.getTime() * 1000)
+   *   .update({ status: event.status });
+   * ```
+   */
+  public usingTimestamp(micros: number | bigint): this {
+    if (typeof micros === "number" && !Number.isSafeInteger(micros)) {
+      throw new Error("Write timestamp must be an integer number of microseconds.")
+    }
+    this._timestamp = micros
+    return this
+  }
+
+  /**
+   * Selects the write time of columns (ScyllaDB specific).
+   * Hydrated models expose the values through `getWritetime(column)`.
+   *
+   * @param columns - Regular (non-key) columns to read the write time of
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const device = await Device.query()
+   *   .where('id', id)
+   *   .selectWritetime('status')
+   *   .first();
+   * console.log(device?.getWritetime('status')); // 1700000000000000
+   * ```
+   */
+  public selectWritetime<K extends keyof TAttrs>(...columns: (K | string)[]): this {
+    this._metaSelects.push(...columns.map((column) => ({ type: "writetime" as const, column: column as string })))
+    return this
+  }
+
+  /**
+   * Selects the remaining time to live of columns (ScyllaDB specific).
+   * Hydrated models expose the values through `getTtl(column)`.
+   *
+   * @param columns - Regular (non-key) columns to read the TTL of
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const token = await Token.query()
+   *   .where('id', id)
+   *   .selectTtl('value')
+   *   .first();
+   * console.log(`Expires in ${token?.getTtl('value')} seconds`);
+   * ```
+   */
+  public selectTtl<K extends keyof TAttrs>(...columns: (K | string)[]): this {
+    this._metaSelects.push(...columns.map((column) => ({ type: "ttl" as const, column: column as string })))
+    return this
+  }
+
+  /**
+   * Sets how this query is checked against the table's primary key layout (ScyllaDB specific).
+   * `strict` throws a QueryPlanError, `warn` logs the problem and `off` skips the check.
+   *
+   * @param mode - Validation mode
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * // Log instead of throwing while migrating legacy queries
+   * const rows = await Event.query().where('status', 'failed').queryValidation('warn').get();
+   * ```
+   */
+  public queryValidation(mode: QueryValidationMode): this {
+    this._validation = mode
+    return this
+  }
+
   /**
    * Adds IF NOT EXISTS condition for lightweight transactions (ScyllaDB specific).
    *
@@ -664,397 +1000,2234 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     return this
   }
 
-  // Execution methods
-
   /**
-   * Executes the query and returns all matching results.
-   * If a model is bound, returns hydrated model instances.
+   * Restricts the query to a Murmur3 token sub-range of the partition key.
+   * Compiles to `TOKEN(cols) > ? AND TOKEN(cols) <= ?` with raw token bounds.
    *
-   * @returns Promise resolving to array of results
+   * @param columns - Partition key columns
+   * @param start - Exclusive lower token bound
+   * @param end - Inclusive upper token bound
+   * @returns QueryBuilder instance for method chaining
    *
    * @example
    *
-   * const users = await User.query()
-   *   .where('active', true)
-   *   .get();
+   * query.whereTokenRange(['user_id'], '-9223372036854775808', '0');
    * ```
    */
-  public async get(): Promise<TModel[]> {
-    const sql = this.grammar.compileSelect(this.toBase())
-    const params = this.getParams()
-    const result = await this.driver.query(sql, params)
-
-    if (this.cacheTtl) {
-      const key = this.cacheKey ?? this.generateCacheKey()
-      const cacheManager = CacheManager.getInstance()
-
-      let rawRows = await cacheManager.remember(
-        key,
-        this.cacheTtl,
-        async () => result.rows,
-        this.cacheStore
-      )
-
-      let models: TModel[]
-      if (this.model) {
-        models = rawRows.map((row: any) => this.hydrate(row))
-      } else {
-        models = rawRows
-      }
+  public whereTokenRange<K extends keyof TAttrs>(columns: K[], start: string | bigint, end: string | bigint): this {
+    this._wheres.push({
+      type: "tokenRange",
+      columns,
+      values: [start.toString(), end.toString()],
+      boolean: "and",
+    })
+    return this
+  }
 
-      if (this.eager.length) {
-        await Promise.all(models.map((m) => this.loadEagerFor(m, this.eager)))
-      }
+  /**
+   * Filters the query by the number of related models of a relationship.
+   * Dot notation checks nested relationships (e.g. 'posts.comments').
+   *
+   * @param relation - Relationship name
+   * @param operator - Comparison operator for the related count
+   * @param count - Count to compare against
+   * @param callback - Optional constraints applied to the related query
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * // Users with at least one post
+   * const authors = await User.query().has('posts').get();
+   *
+   * // Users with more than 10 posts
+   * const prolific = await User.query().has('posts', '>', 10).get();
+   *
+   * // Users with a post that has comments
+   * const discussed = await User.query().has('posts.comments').get();
+   * ```
+   */
+  public has(
+    relation: string,
+    operator: Operator = ">=",
+    count = 1,
+    callback?: EagerConstraint,
+  ): this {
+    const [name, ...nested] = relation.split(".")
 
-      return models
+    if (nested.length) {
+      return this.has(name, operator, count, (q) => q.whereHas(nested.join("."), callback))
     }
 
-    // if no cache
-    let models: TModel[]
-    if (this.model) {
-      models = result.rows.map((row) => this.hydrate(row))
-    } else {
-      models = result.rows
+    if (!this.model) {
+      throw new Error("Relationship queries require a model bound to the QueryBuilder.")
     }
 
-    if (this.eager.length) {
-      await Promise.all(models.map((m) => this.loadEagerFor(m, this.eager)))
+    const instance = new this.model() as any
+    if (typeof instance[`${name}Relation`] !== "function") {
+      throw new Error(`Relationship "${name}" is not defined on ${this.model.name}.`)
     }
 
-    return models
-  }
+    const existence = this.getRelationExistence(instance[`${name}Relation`]() as Relationship<any, any>, callback)
+    const mode = operator === ">=" && count === 1 ? "exists" : operator === "<" && count === 1 ? "notExists" : "count"
 
-  /**
-   * Enable caching for this query.
-   * @param ttl seconds to live
-   * @param store optional cache store name
-   */
-  public cache(ttl: number, key?: string, store?: string): this {
-    this.cacheTtl = ttl
-    this.cacheKey = key
-    this.cacheStore = store
+    this._wheres.push({
+      type: "has",
+      relation: existence,
+      parentTable: this._from,
+      operator,
+      value: count,
+      mode,
+      boolean: "and",
+    })
     return this
   }
 
-  generateCacheKey(): string {
-    return JSON.stringify({ sql: this.toSql(), params: this.getParams() })
-  }
-
   /**
-   * Specifies relationships to eager load with the query results.
-   * Supports dot notation for nested relationships.
+   * Filters the query to models having related models that match the callback constraints.
    *
-   * @param relations - Relationship names to load
+   * @param relation - Relationship name (dot notation for nested relationships)
+   * @param callback - Optional constraints applied to the related query
+   * @param operator - Comparison operator for the related count
+   * @param count - Count to compare against
    * @returns QueryBuilder instance for method chaining
    *
    * @example
    *
    * const users = await User.query()
-   *   .with('posts', 'profile')
-   *   .get();
-   *
-   * // Nested relationships
-   * const users = await User.query()
-   *   .with('posts.comments', 'posts.tags')
+   *   .whereHas('posts', (q) => q.where('published', true))
    *   .get();
    * ```
    */
-  public with(...relations: string[]): this {
-    const items = Array.isArray(relations) ? relations : [relations]
-    this.eager.push(...items)
-    return this
+  public whereHas(relation: string, callback?: EagerConstraint, operator: Operator = ">=", count = 1): this {
+    return this.has(relation, operator, count, callback)
   }
 
   /**
-   * Loads eager relationships for a single model instance.
+   * Filters the query to models without related models (matching the optional callback).
+   *
+   * @param relation - Relationship name (dot notation for nested relationships)
+   * @param callback - Optional constraints applied to the related query
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const lurkers = await User.query().doesntHave('posts').get();
+   * ```
+   */
+  public doesntHave(relation: string, callback?: EagerConstraint): this {
+    return this.has(relation, "<", 1, callback)
+  }
+
+  /**
+   * Filters the query to models without related models matching the callback constraints.
+   *
+   * @param relation - Relationship name (dot notation for nested relationships)
+   * @param callback - Optional constraints applied to the related query
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const users = await User.query()
+   *   .whereDoesntHave('posts', (q) => q.where('published', true))
+   *   .get();
+   * ```
+   */
+  public whereDoesntHave(relation: string, callback?: EagerConstraint): this {
+    return this.doesntHave(relation, callback)
+  }
+
+  /**
+   * Adds a `{relation}_count` attribute with the number of related models to each result.
+   *
+   * @param relations - Relationship names, or objects of relationship names to constraint callbacks
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const users = await User.query()
+   *   .withCount('posts', { comments: (q) => q.where('approved', true) })
+   *   .get();
+   *
+   * users[0].posts_count;
+   * users[0].comments_count;
+   * ```
+   */
+  public withCount(...relations: Array<string | EagerLoadRelations>): this {
+    if (!this.model) {
+      throw new Error("Relationship queries require a model bound to the QueryBuilder.")
+    }
+
+    const instance = new this.model() as any
+    const entries: Array<[string, EagerConstraint | undefined]> = relations.flatMap<[string, EagerConstraint | undefined]>((relation) =>
+      typeof relation === "string" ? [[relation, undefined]] : Object.entries(relation),
+    )
+
+    for (const [name, callback] of entries) {
+      if (typeof instance[`${name}Relation`] !== "function") {
+        throw new Error(`Relationship "${name}" is not defined on ${this.model.name}.`)
+      }
+
+      this._relationCounts.push({
+        alias: `${name}_count`,
+        relation: this.getRelationExistence(instance[`${name}Relation`]() as Relationship<any, any>, callback),
+      })
+    }
+    return this
+  }
+
+  /**
+   * Builds a relationship existence descriptor with the callback's constraints
+   * and the related model's soft delete scope applied.
+   *
+   * @param relation - Relationship instance
+   * @param callback - Optional constraints applied to the related query
+   * @returns Relationship existence descriptor
+   */
+  private getRelationExistence(relation: Relationship<any, any>, callback?: EagerConstraint): RelationExistence {
+    const existence = relation.getRelationExistence()
+    const query = relation.newRelatedQuery()
+
+    if (callback) {
+      callback(query)
+    }
+
+    const wheres = query.getScopedWheres()
+    const descriptor = {
+      ...existence,
+      wheres: existence.wheres.length ? [...existence.wheres, ...query.groupWheres(wheres)] : wheres,
+    }
+    if (query.filtersTrashedRows()) {
+      descriptor.trashed = { column: query.getDeletedAtColumn()!, only: query._trashed === "only" }
+    }
+    return descriptor
+  }
+
+  // Execution methods
+
+  /**
+   * Executes the query and returns all matching results.
+   * If a model is bound, returns hydrated model instances.
+   *
+   * @returns Promise resolving to array of results
+   *
+   * @example
+   *
+   * const users = await User.query()
+   *   .where('active', true)
+   *   .get();
+   * ```
+   */
+  public async get(): Promise<TModel[]> {
+    if (this.needsRelationLookups()) {
+      return await this.getWithRelationLookups()
+    }
+
+    if (this._groupLimit) {
+      return await this.getLimitedPerGroup(this._groupLimit)
+    }
+
+    if (this._perPartitionLimit) {
+      this.assertNoTrashedFilter("perPartitionLimit")
+    }
+
+    await this.prepareSelect()
+    const result =
+      this._limit && this.filtersTrashedRows()
+        ? await this.fetchUntrashed(this._limit)
+        : await this.driver.query(this.grammar.compileSelect(this.toBase()), this.getParams(), this.getQueryOptions())
+
+    if (this.cacheTtl) {
+      const key = this.cacheKey ?? this.generateCacheKey()
+      const cacheManager = CacheManager.getInstance()
+
+      let rawRows = await cacheManager.remember(
+        key,
+        this.cacheTtl,
+        async () => result.rows,
+        this.cacheStore
+      )
+
+      return await this.hydrateRows(rawRows)
+    }
+
+    // if no cache
+    return await this.hydrateRows(result.rows)
+  }
+
+  /**
+   * Checks whether relationship existence or count clauses have to be resolved
+   * in application code, which is the case on ScyllaDB (CQL has no subqueries).
+   *
+   * @returns True when the two-phase lookup is needed
+   */
+  private needsRelationLookups(): boolean {
+    if (!this._relationCounts.length && !this._wheres.some((w) => w.type === "has")) {
+      return false
+    }
+    return this.grammar instanceof ScyllaDBGrammar
+  }
+
+  /**
+   * Rejects relationship clauses for methods that cannot resolve them in application code.
+   *
+   * @param method - Name of the calling method, for the error message
+   * @throws {Error} When has()/whereHas()/withCount() clauses are set on ScyllaDB
+   */
+  private assertNoRelationLookups(method: string): void {
+    if (this.needsRelationLookups()) {
+      throw new Error(
+        `${method}() cannot be combined with has(), whereHas() or withCount() on ScyllaDB; use get(), first(), count() or exists().`,
+      )
+    }
+  }
+
+  /**
+   * Runs a query limited per value of a column (see limitPerGroup()):
+   * with PER PARTITION LIMIT or a ROW_NUMBER() window when the database can,
+   * otherwise with one limited query for each value the column is restricted to,
+   * at most GROUP_LIMIT_CONCURRENCY at a time. Relations are eager loaded once over every group.
+   *
+   * @param groupLimit - Grouping column and per-value limit
+   * @returns Promise resolving to the results of every group
+   * @throws {Error} When the column is not restricted with where() or whereIn()
+   */
+  private async getLimitedPerGroup(groupLimit: { column: string; count: number }): Promise<TModel[]> {
+    const { column, count } = groupLimit
+    const query = this.clone()
+    query._groupLimit = undefined
+
+    if (this.grammar instanceof ScyllaDBGrammar) {
+      // PER PARTITION LIMIT counts soft-deleted rows, which are only dropped after fetching
+      if (!this._orders.length && !this.filtersTrashedRows() && (await this.isOnlyPartitionKey(column))) {
+        return await this.loadEagerInto(await query.perPartitionLimit(count).get())
+      }
+    } else if (this.driver.supportsFeature("window_functions") && !this._joins.length) {
+      const result = await this.driver.query(this.toSql(), this.getParams(), this.getQueryOptions())
+      const rows = result.rows.map(({ [GROUP_ROW_COLUMN]: _row, ...row }: Record<string, any>) => row)
+      return await this.hydrateRows(rows)
+    }
+
+    const restriction = this._wheres.find(
+      (w) => w.column === column && (w.type === "in" || (w.type === "basic" && w.operator === "=")),
+    )
+    if (!restriction) {
+      throw new Error(`limitPerGroup() needs a where() or whereIn() on ${column}.`)
+    }
+
+    const values: any[] = restriction.type === "in" ? restriction.values : [restriction.value]
+    const results: TModel[] = []
+    for (let i = 0; i < values.length; i += GROUP_LIMIT_CONCURRENCY) {
+      const chunk = values.slice(i, i + GROUP_LIMIT_CONCURRENCY)
+      const groups = await Promise.all(
+        chunk.map((value) => {
+          const single = query.clone().limit(count)
+          single._wheres = single._wheres.map((w) =>
+            w === restriction ? { type: "basic", column, operator: "=", value, boolean: w.boolean } : w,
+          )
+          return single.get()
+        }),
+      )
+      results.push(...groups.flat())
+    }
+    return await this.loadEagerInto(results)
+  }
+
+  /**
+   * Eager loads this query's relations into models fetched through a clone,
+   * which does not carry the eager state.
+   *
+   * @param models - Models to load relations into
+   * @returns Promise resolving to the same models
+   */
+  private async loadEagerInto(models: TModel[]): Promise<TModel[]> {
+    if (this.eager.length) {
+      await this.loadEager(models, this.eager, this.eagerConstraints)
+    }
+    return models
+  }
+
+  /**
+   * Checks whether a column is the only partition key of the table (ScyllaDB).
+   *
+   * @param column - Column name
+   * @returns Promise resolving to true for a single-column partition key
+   */
+  private async isOnlyPartitionKey(column: string): Promise<boolean> {
+    const instance = this.model ? (new this.model() as unknown as Model<any>) : undefined
+    const partitionKeys = instance?.getPartitionKeys().length
+      ? instance.getPartitionKeys()
+      : await (this.driver as ScyllaDBDriver).getPartitionKeys(this._from)
+    return partitionKeys.length === 1 && partitionKeys[0] === column
+  }
+
+  /**
+   * Resolves relationship existence and count clauses in two phases:
+   * related rows are counted per key first, then parents are fetched with
+   * `IN` on the matching keys. When no clause requires related rows to exist
+   * (e.g. doesntHave()), the parents are fetched first and only their related rows are counted.
+   *
+   * @returns Promise resolving to the matching results
+   */
+  private async getWithRelationLookups(): Promise<TModel[]> {
+    const existence = this._wheres.filter((w) => w.type === "has")
+    const base = this.clone()
+    base._wheres = this._wheres.filter((w) => w.type !== "has")
+    base._relationCounts = []
+    base._select = [...this._select, ...this.getTrashedSelect()]
+    base._limit = undefined
+    base.model = undefined
+
+    // Narrow the parent query by the first clause that requires related rows to exist
+    const narrowing = existence.findIndex((w) => !this.compareCount(0, w.operator, w.value))
+    let rows: any[] = []
+
+    if (narrowing === -1) {
+      rows = await base.get()
+    } else {
+      const where = existence[narrowing]
+      const keys = [...(await this.countRelated(where.relation)).values()]
+        .filter((entry) => this.compareCount(entry.count, where.operator, where.value))
+        .map((entry) => entry.key)
+
+      for (const chunk of this.chunkKeys(keys)) {
+        rows.push(...(await base.clone().whereIn(where.relation.localKey, chunk).allowFiltering().get()))
+      }
+    }
+
+    // Drop trashed parents before the limit; the base query has no model to do it
+    rows = await this.filterByRelations(
+      this.filterTrashed(rows),
+      existence.filter((_, i) => i !== narrowing),
+    )
+
+    if (this._limit !== undefined) {
+      rows = rows.slice(0, this._limit)
+    }
+
+    for (const { alias, relation } of this._relationCounts) {
+      const keys = this.uniqueValues(rows, relation.localKey)
+      const tally = keys.length ? await this.countRelated(relation, keys) : new Map()
+      for (const row of rows) {
+        row[alias] = tally.get(String(row[relation.localKey]))?.count ?? 0
+      }
+    }
+
+    return await this.hydrateRows(rows)
+  }
+
+  /**
+   * Keeps the rows whose related row counts satisfy every existence clause.
+   * Related rows are only counted for the keys of the given rows, so nested
+   * clauses are resolved one relationship level at a time.
+   *
+   * @param rows - Raw rows of the table the clauses belong to
+   * @param clauses - Relationship existence clauses
+   * @returns Promise resolving to the matching rows
+   */
+  private async filterByRelations(rows: any[], clauses: WhereClause[]): Promise<any[]> {
+    for (const clause of clauses) {
+      const relation = clause.relation!
+      const keys = this.uniqueValues(rows, relation.localKey)
+      const tally = keys.length ? await this.countRelated(relation, keys) : new Map()
+      rows = rows.filter((row) =>
+        this.compareCount(tally.get(String(row[relation.localKey]))?.count ?? 0, clause.operator!, clause.value),
+      )
+    }
+    return rows
+  }
+
+  /**
+   * Counts related rows matching a relationship's constraints, grouped by the
+   * key that points back to the parent. Nested existence clauses in the constraints
+   * (from `has('posts.comments')`) are resolved against the related rows found.
+   *
+   * @param relation - Relationship existence descriptor
+   * @param parentKeys - Optional parent key values to restrict the count to
+   * @returns Promise resolving to counts keyed by the stringified parent key
+   */
+  private async countRelated(
+    relation: RelationExistence,
+    parentKeys?: any[],
+  ): Promise<Map<string, { key: any; count: number }>> {
+    const nested = relation.wheres.filter((w) => w.type === "has")
+    const wheres = relation.wheres.filter((w) => w.type !== "has")
+    let rows: any[]
+
+    if (!relation.pivot) {
+      rows = await this.fetchRelated(relation.table, relation.connection, wheres, relation.foreignKey, parentKeys)
+      rows = await this.filterByRelations(this.filterRelatedTrashed(rows, relation), nested)
+    } else {
+      const { table, relatedPivotKey, relatedKey } = relation.pivot
+      const pivotRows = await this.fetchRelated(table, relation.connection, [], relation.foreignKey, parentKeys)
+      const related = await this.fetchRelated(
+        relation.table,
+        relation.connection,
+        wheres,
+        relatedKey,
+        parentKeys ? this.uniqueValues(pivotRows, relatedPivotKey) : undefined,
+      )
+      const untrashed = this.filterRelatedTrashed(related, relation)
+      const allowed = new Set((await this.filterByRelations(untrashed, nested)).map((row) => String(row[relatedKey])))
+      rows = pivotRows.filter((row) => allowed.has(String(row[relatedPivotKey])))
+    }
+
+    const tally = new Map<string, { key: any; count: number }>()
+    for (const row of rows) {
+      const key = row[relation.foreignKey]
+      const entry = tally.get(String(key))
+      if (entry) {
+        entry.count++
+      } else {
+        tally.set(String(key), { key, count: 1 })
+      }
+    }
+    return tally
+  }
+
+  /**
+   * Applies the related model's soft delete scope to fetched related rows (ScyllaDB).
+   *
+   * @param rows - Raw rows of the related table
+   * @param relation - Relationship existence descriptor
+   * @returns Rows matching the related trashed mode
+   */
+  private filterRelatedTrashed(rows: any[], relation: RelationExistence): any[] {
+    if (!relation.trashed) {
+      return rows
+    }
+
+    const { column, only } = relation.trashed
+    return rows.filter((row) => (row[column] != null) === only)
+  }
+
+  /**
+   * Collects the distinct, non-null values of a column.
+   *
+   * @param rows - Raw rows
+   * @param column - Column name
+   * @returns Array of unique values
+   */
+  private uniqueValues(rows: any[], column: string): any[] {
+    const values = new Map<string, any>()
+    for (const row of rows) {
+      if (row[column] != null) {
+        values.set(String(row[column]), row[column])
+      }
+    }
+    return [...values.values()]
+  }
+
+  /**
+   * Fetches raw rows of a table matching the given wheres, optionally
+   * restricted to a set of key values queried in chunks.
+   *
+   * @param table - Table to query
+   * @param connection - Connection name
+   * @param wheres - WHERE clauses to apply
+   * @param column - Column the key values belong to
+   * @param keys - Optional key values to restrict the rows to
+   * @returns Promise resolving to raw rows
+   */
+  private async fetchRelated(
+    table: string,
+    connection: string | undefined,
+    wheres: WhereClause[],
+    column: string,
+    keys?: any[],
+  ): Promise<any[]> {
+    const newQuery = () => {
+      const query = new QueryBuilder<any, any>(table, connection)
+      if (this.trx) {
+        query.transacting(this.trx)
+      }
+      query._wheres = [...wheres]
+      return query.allowFiltering()
+    }
+
+    if (!keys) {
+      return await newQuery().get()
+    }
+
+    const rows: any[] = []
+    for (const chunk of this.chunkKeys(keys)) {
+      rows.push(...(await newQuery().whereIn(column, chunk).get()))
+    }
+    return rows
+  }
+
+  /**
+   * Splits key values into chunks sized for `IN` lists.
+   *
+   * @param keys - Key values to split
+   * @returns Key chunks
+   */
+  private chunkKeys(keys: any[]): any[][] {
+    const size = Relationship.eagerChunkSize
+    const chunks: any[][] = []
+    for (let i = 0; i < keys.length; i += size) {
+      chunks.push(keys.slice(i, i + size))
+    }
+    return chunks
+  }
+
+  /**
+   * Compares a related row count against a relationship count clause.
+   *
+   * @param count - Number of related rows
+   * @param operator - Comparison operator
+   * @param value - Count to compare against
+   * @returns True if the comparison holds
+   */
+  private compareCount(count: number, operator: string, value: number): boolean {
+    switch (operator) {
+      case "=": return count === value
+      case "!=":
+      case "<>": return count !== value
+      case ">": return count > value
+      case ">=": return count >= value
+      case "<": return count < value
+      case "<=": return count <= value
+      default: throw new Error(`Unsupported relationship count operator: ${operator}`)
+    }
+  }
+
+  /**
+   * Executes the query and returns a single page of results together with
+   * an opaque continuation token for fetching the next page.
+   * On ScyllaDB the driver's native paging state is used, so no OFFSET is required;
+   * other drivers fall back to an offset encoded in the token.
+   *
+   * @param options - Page size and the token returned by the previous page
+   * @returns Promise resolving to the page data and the next page token
+   *
+   * @example
+   *
+   * const page = await Event.query()
+   *   .where('device_id', deviceId)
+   *   .paginate({ pageSize: 50 });
+   *
+   * if (page.hasMorePages) {
+   *   const next = await Event.query()
+   *     .where('device_id', deviceId)
+   *     .paginate({ pageSize: 50, pageState: page.pageState });
+   * }
+   * ```
+   */
+  public async paginate(options: PaginationOptions): Promise<PaginatedResult<TModel>> {
+    const { pageSize } = options
+    if (!Number.isInteger(pageSize) || pageSize <= 0) {
+      throw new Error("Page size must be a positive integer.")
+    }
+
+    this.assertNoRelationLookups("paginate")
+    await this.prepareSelect()
+    if (this.filtersTrashedRows()) {
+      const { rows, pageState } = await this.fetchUntrashed(pageSize, options.pageState ?? undefined)
+      return {
+        data: await this.hydrateRows(rows),
+        pageState,
+        hasMorePages: pageState !== null,
+      }
+    }
+
+    if (this.driver.supportsFeature("paging_state")) {
+      const result = await this.driver.query(this.toSql(), this.getParams(), {
+        ...this.getQueryOptions(),
+        fetchSize: pageSize,
+        pageState: options.pageState ?? undefined,
+      })
+      const pageState = result.pageState ?? null
+
+      return {
+        data: await this.hydrateRows(result.rows),
+        pageState,
+        hasMorePages: pageState !== null,
+      }
+    }
+
+    const offset = options.pageState ? this.decodeOffsetToken(options.pageState) : 0
+    const clone = this.clone()
+    clone._offset = offset
+    clone._limit = pageSize + 1
+
+    const result = await this.driver.query(clone.toSql(), clone.getParams(), this.getQueryOptions())
+    const hasMorePages = result.rows.length > pageSize
+
+    return {
+      data: await this.hydrateRows(result.rows.slice(0, pageSize)),
+      pageState: hasMorePages ? this.encodeOffsetToken(offset + pageSize) : null,
+      hasMorePages,
+    }
+  }
+
+  /**
+   * Resumes a paginated query from a continuation token.
+   * Shorthand for `paginate({ pageSize, pageState })`, convenient when the
+   * token arrives from a request parameter.
+   *
+   * @param pageState - Token returned by the previous page, or null for the first page
+   * @param pageSize - Number of rows per page (defaults to 100)
+   * @returns Promise resolving to the page data and the next page token
+   *
+   * @example
+   *
+   * const { data, pageState } = await Event.query()
+   *   .where('device_id', deviceId)
+   *   .cursor(req.query.cursor ?? null, 25);
+   * ```
+   */
+  public async cursor(pageState: string | null = null, pageSize = 100): Promise<PaginatedResult<TModel>> {
+    return await this.paginate({ pageSize, pageState })
+  }
+
+  /**
+   * Streams the query results as an async iterator of hydrated models.
+   * Rows are pulled from the driver's native cursor in chunks of `fetchSize`,
+   * so large tables can be walked without loading them into memory; the next
+   * chunk is only fetched once the consumer has processed the previous one.
+   *
+   * @param options - Stream options (fetchSize defaults to 1000)
+   * @returns Async iterator over results
+   *
+   * @example
+   *
+   * for await (const user of User.query().where('active', true).stream()) {
+   *   await exportUser(user);
+   * }
+   * ```
+   */
+  public async *stream(options: StreamOptions = {}): AsyncGenerator<TModel> {
+    const fetchSize = options.fetchSize ?? 1000
+    this.assertNoRelationLookups("stream")
+    if (this._limit) {
+      this.assertNoTrashedFilter("stream")
+    }
+    await this.prepareSelect()
+    const rows = this.driver.stream(this.toSql(), this.getParams(), { ...this.getQueryOptions(), fetchSize })
+    let chunk: any[] = []
+
+    for await (const row of rows) {
+      chunk.push(row)
+      if (chunk.length >= fetchSize) {
+        yield* await this.hydrateRows(chunk)
+        chunk = []
+      }
+    }
+
+    if (chunk.length) {
+      yield* await this.hydrateRows(chunk)
+    }
+  }
+
+  /**
+   * Hydrates raw rows into model instances (when a model is bound)
+   * and loads any requested eager relationships.
+   *
+   * @param rows - Raw result rows
+   * @returns Promise resolving to hydrated results
+   */
+  protected async hydrateRows(rows: any[]): Promise<TModel[]> {
+    let models: TModel[]
+    rows = this.filterTrashed(rows)
+    if (this.model) {
+      models = rows.map((row) => this.hydrate(row))
+    } else {
+      models = rows
+    }
+
+    if (this.eager.length) {
+      await this.loadEager(models, this.eager, this.eagerConstraints)
+    }
+
+    return models
+  }
+
+  private encodeOffsetToken(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString("base64")
+  }
+
+  private decodeOffsetToken(token: string): number {
+    try {
+      const { offset } = JSON.parse(Buffer.from(token, "base64").toString("utf8"))
+      if (Number.isInteger(offset) && offset >= 0) {
+        return offset
+      }
+    } catch {}
+    throw new Error("Invalid page state token.")
+  }
+
+  /**
+   * Enable caching for this query.
+   * @param ttl seconds to live
+   * @param store optional cache store name
+   */
+  public cache(ttl: number, key?: string, store?: string): this {
+    this.cacheTtl = ttl
+    this.cacheKey = key
+    this.cacheStore = store
+    return this
+  }
+
+  generateCacheKey(): string {
+    return JSON.stringify({ sql: this.toSql(), params: this.getParams() })
+  }
+
+  /**
+   * Specifies relationships to eager load with the query results.
+   * Supports dot notation for nested relationships.
+   *
+   * Relationships can be constrained by passing an object mapping each
+   * relationship path to a callback that receives the relationship query.
+   * A limit set in a callback is applied per parent model.
+   *
+   * @param relations - Relationship names, or objects of relationship names to constraint callbacks
+   * @returns QueryBuilder instance for method chaining
+   *
+   * @example
+   *
+   * const users = await User.query()
+   *   .with('posts', 'profile')
+   *   .get();
+   *
+   * // Nested relationships
+   * const users = await User.query()
+   *   .with('posts.comments', 'posts.tags')
+   *   .get();
+   *
+   * // Constrained relationships
+   * const users = await User.query()
+   *   .with({
+   *     posts: (q) => q.where('published', true).orderBy('created_at', 'desc').limit(5),
+   *     'posts.comments': (q) => q.where('approved', true),
+   *   })
+   *   .get();
+   * ```
+   */
+  public with(...relations: Array<string | EagerLoadRelations>): this {
+    for (const relation of relations) {
+      if (typeof relation === "string") {
+        this.eager.push(relation)
+        continue
+      }
+
+      for (const [name, constraint] of Object.entries(relation)) {
+        this.eager.push(name)
+        this.eagerConstraints[name] = constraint
+      }
+    }
+    return this
+  }
+
+  /**
+   * Loads eager relationships for a single model instance.
+   * Supports nested relationship loading with dot notation.
+   *
+   * @param model - Model instance to load relationships for
+   * @param relations - Array of relationship names or constraint objects to load
+   *
+   * @example
+   *
+   * await query.loadEagerFor(user, ['posts', 'profile']);
+   * await query.loadEagerFor(user, ['posts.comments']);
+   * await query.loadEagerFor(user, [{ posts: (q) => q.where('published', true) }]);
+   * ```
+   */
+  public async loadEagerFor(model: TModel, relations: Array<string | EagerLoadRelations>) {
+    const scoped = new QueryBuilder<TModel, TAttrs>(this._from, this.connection).with(...relations)
+    await this.loadEager([model], scoped.eager, scoped.eagerConstraints)
+  }
+
+  /**
+   * Loads eager relationships for a set of model instances in batches.
+   * Each relationship level runs one query per key chunk for all models together
+   * (instead of one query per model), then results are matched back to their parents.
    * Supports nested relationship loading with dot notation.
    *
-   * @param model - Model instance to load relationships for
-   * @param relations - Array of relationship names to load
+   * @param models - Model instances to load relationships for
+   * @param relations - Array of relationship names to load
+   * @param constraints - Constraint callbacks keyed by relationship path
+   *
+   * @example
+   *
+   * const users = await User.query().get();
+   * await User.query().loadEager(users, ['posts.comments', 'profile']);
+   *
+   * await User.query().loadEager(users, ['posts'], {
+   *   posts: (q) => q.where('published', true),
+   * });
+   * ```
+   */
+  public async loadEager(
+    models: Model<any>[],
+    relations: string[],
+    constraints: EagerLoadRelations = {},
+  ): Promise<void> {
+    if (!models.length) return
+
+    const nested = new Map<string, string[]>()
+    for (const relation of relations) {
+      const [head, ...tail] = relation.split(".")
+      const children = nested.get(head) ?? []
+      if (tail.length) children.push(tail.join("."))
+      nested.set(head, children)
+    }
+
+    // Models of different classes (e.g. MorphTo results) resolve their relations separately
+    const groups = new Map<Function, Model<any>[]>()
+    for (const model of models) {
+      const group = groups.get(model.constructor)
+      if (group) {
+        group.push(model)
+      } else {
+        groups.set(model.constructor, [model])
+      }
+    }
+
+    for (const group of groups.values()) {
+      for (const [name, children] of nested) {
+        const relation = (group[0] as any)[`${name}Relation`]() as Relationship<any, any>
+        if (this.trx) {
+          relation.transacting(this.trx)
+        }
+        const results = await relation.eagerLoad(group, name, constraints[name])
+
+        if (children.length) {
+          await this.loadEager(results, children, this.nestedConstraints(constraints, name))
+        }
+      }
+    }
+  }
+
+  /**
+   * Extracts the constraints below a relationship, relative to it.
+   *
+   * @param constraints - Constraint callbacks keyed by relationship path
+   * @param name - Relationship name to descend into
+   * @returns Constraint callbacks keyed by the remaining path
+   */
+  private nestedConstraints(constraints: EagerLoadRelations, name: string): EagerLoadRelations {
+    const nested: EagerLoadRelations = {}
+    for (const [path, constraint] of Object.entries(constraints)) {
+      if (path.startsWith(`${name}.`)) {
+        nested[path.slice(name.length + 1)] = constraint
+      }
+    }
+    return nested
+  }
+
+  /**
+   * Executes the query and returns the first matching result.
+   *
+   * @returns Promise resolving to first result or null if none found
+   *
+   * @example
+   *
+   * const user = await User.query()
+   *   .where('email', 'john@example.com')
+   *   .first();
+   * ```
+   */
+  public async first(): Promise<TModel | null> {
+    const results = await this.take(1).get()
+    return results.length > 0 ? results[0] : null
+  }
+
+  /**
+   * Gets the count of records matching the query.
+   *
+   * @param column - Column to count (defaults to '*')
+   * @returns Promise resolving to count number
+   *
+   * @example
+   *
+   * const userCount = await User.query()
+   *   .where('active', true)
+   *   .count();
+   *
+   * const emailCount = await User.query()
+   *   .count('email');
+   * ```
+   */
+  public async count(column = "*"): Promise<number> {
+    if (this.needsRelationLookups()) {
+      // Relationship clauses are resolved in application code, so count the rows they keep
+      return (await this.clone().get()).length
+    }
+
+    if (this.filtersTrashedRows()) {
+      return (await this.aggregateUntrashed("count", column)) ?? 0
+    }
+
+    const clone = this.clone()
+    clone._select = [`COUNT(${column}) as aggregate`]
+    clone._metaSelects = []
+    clone._distinct = false
+
+    const result = await clone.get()
+    return (result[0] as { aggregate?: number })?.aggregate || 0
+  }
+
+  /**
+   * Gets the sum of a column.
+   *
+   * @param column - Column to sum
+   * @returns Promise resolving to the sum (0 when no rows match)
+   *
+   * @example
+   *
+   * const total = await Reading.query().where('sensor_id', id).sum('value');
+   * ```
+   */
+  public async sum<K extends keyof TAttrs>(column: K | string): Promise<number> {
+    return (await this.aggregate("sum", column as string)) ?? 0
+  }
+
+  /**
+   * Gets the minimum value of a column.
+   *
+   * @param column - Column to inspect
+   * @returns Promise resolving to the minimum, or null when no rows match
+   */
+  public async min<K extends keyof TAttrs>(column: K | string): Promise<number | null> {
+    return await this.aggregate("min", column as string)
+  }
+
+  /**
+   * Gets the maximum value of a column.
+   *
+   * @param column - Column to inspect
+   * @returns Promise resolving to the maximum, or null when no rows match
+   */
+  public async max<K extends keyof TAttrs>(column: K | string): Promise<number | null> {
+    return await this.aggregate("max", column as string)
+  }
+
+  /**
+   * Gets the average value of a column.
+   *
+   * @param column - Column to average
+   * @returns Promise resolving to the average, or null when no rows match
+   */
+  public async avg<K extends keyof TAttrs>(column: K | string): Promise<number | null> {
+    return await this.aggregate("avg", column as string)
+  }
+
+  /**
+   * Runs an aggregate function over the matching rows.
+   *
+   * @param fn - Aggregate function
+   * @param column - Column to aggregate
+   * @returns Promise resolving to the aggregate value, or null when there is none
+   */
+  private async aggregate(fn: "sum" | "min" | "max" | "avg", column: string): Promise<number | null> {
+    this.assertNoRelationLookups(fn)
+    if (this.filtersTrashedRows()) {
+      return await this.aggregateUntrashed(fn, column)
+    }
+
+    const clone = this.clone()
+    clone._select = [`${fn.toUpperCase()}(${column}) as aggregate`]
+    clone._metaSelects = []
+    clone._distinct = false
+
+    const result = await clone.get()
+    const value = (result[0] as { aggregate?: number | null } | undefined)?.aggregate
+    return value == null ? null : Number(value)
+  }
+
+  /**
+   * Computes an aggregate over the rows kept by the soft delete scope on ScyllaDB,
+   * which cannot filter on null columns. The matching rows are streamed and
+   * aggregated in application code; null values are skipped as in CQL.
+   *
+   * @param fn - Aggregate function
+   * @param column - Column to aggregate (`*` counts every row)
+   * @returns Promise resolving to the aggregate, or null when no value matches
+   */
+  private async aggregateUntrashed(fn: "count" | "sum" | "min" | "max" | "avg", column: string): Promise<number | null> {
+    const query = this.clone()
+    query._select = column === "*" ? [] : [column]
+    query._metaSelects = []
+    query._distinct = false
+    query._limit = undefined
+    await query.prepareSelect()
+
+    let count = 0
+    let sum = 0
+    let min: number | null = null
+    let max: number | null = null
+    const rows = this.driver.stream(query.toSql(), query.getParams(), query.getQueryOptions())
+    for await (const row of rows) {
+      if (!query.filterTrashed([row]).length || (column !== "*" && row[column] == null)) {
+        continue
+      }
+
+      const value = column === "*" ? 0 : Number(row[column])
+      count++
+      sum += value
+      min = min === null || value < min ? value : min
+      max = max === null || value > max ? value : max
+    }
+
+    switch (fn) {
+      case "count":
+        return count
+      case "sum":
+        return count ? sum : null
+      case "avg":
+        return count ? sum / count : null
+      case "min":
+        return min
+      case "max":
+        return max
+    }
+  }
+
+  /**
+   * Checks if any records exist matching the query.
+   *
+   * @returns Promise resolving to boolean
+   *
+   * @example
+   *
+   * const hasActiveUsers = await User.query()
+   *   .where('active', true)
+   *   .exists();
+   * ```
+   */
+  public async exists(): Promise<boolean> {
+    if (this.filtersTrashedRows()) {
+      return (await this.clone().first()) !== null
+    }
+
+    const count = await this.count()
+    return count > 0
+  }
+
+  /**
+   * Inserts new record(s) into the database.
+   * Supports both single record and batch insert operations.
+   * With `ifNotExists()` it resolves to whether the row was written;
+   * use `insertIfNotExists()` to also get the existing row.
+   *
+   * @param values - Record data or array of records to insert
+   * @returns Promise resolving to boolean indicating success
+   *
+   * @example
+   *
+   * // Single insert
+   * await query.insert({
+   *   name: 'John Doe',
+   *   email: 'john@example.com'
+   * });
+   *
+   * // Batch insert
+   * await query.insert([
+   *   { name: 'John', email: 'john@example.com' },
+   *   { name: 'Jane', email: 'jane@example.com' }
+   * ]);
+   * ```
+   */
+  public async insert(values: Record<string, any> | Record<string, any>[]): Promise<boolean> {
+    const result = await this.performInsert(values)
+    if (!result || !this.isConditional()) {
+      return true
+    }
+    const lwt = this.toLwtResult(result)
+    return lwt.deferred || lwt.applied
+  }
+
+  /**
+   * Inserts a record only if no row with the same primary key exists.
+   * Runs as a lightweight transaction on ScyllaDB.
+   *
+   * @param values - Record data to insert
+   * @returns Promise resolving to the LWT result; `current` holds the existing row when nothing was written
+   *
+   * @example
+   *
+   * const { applied, current } = await User.query().insertIfNotExists({ id, email });
+   * ```
+   */
+  public async insertIfNotExists(values: Record<string, any>): Promise<LwtResult> {
+    this._ifNotExists = true
+    return this.toLwtResult(await this.insertRow(values))
+  }
+
+  /**
+   * Compiles and executes the INSERT statement(s) for one or many records.
+   *
+   * @param values - Record data or array of records to insert
+   * @returns Promise resolving to the write result, or undefined when the records were inserted one by one
+   */
+  private async performInsert(values: Record<string, any> | Record<string, any>[]): Promise<QueryResult | undefined> {
+    if (Array.isArray(values)) {
+      this.assertWriteTimestampSupported()
+      const queries = values.map((value) => ({
+        query: this.grammar.compileInsert({
+          table: this._from,
+          values: value,
+          ttl: this._ttl,
+          timestamp: this._timestamp,
+          ifNotExists: this._ifNotExists,
+        }),
+        params: Object.values(value),
+      }))
+
+      if (this._batch) {
+        for (const [i, query] of queries.entries()) {
+          this._batch.add(query.query, query.params, this._from, values[i], false, this.isConditional())
+        }
+      } else if (this.driver instanceof (await import("../drivers/ScyllaDBDriver")).ScyllaDBDriver) {
+        const { consistency, serialConsistency, timeout } = this.getQueryOptions()
+        return await this.driver.batch(queries, { consistency, serialConsistency, timeout })
+      } else {
+        for (const query of queries) {
+          await this.driver.query(query.query, query.params)
+        }
+      }
+    } else {
+      return await this.insertRow(values)
+    }
+  }
+
+  /**
+   * Compiles and executes the INSERT statement for a single record.
+   *
+   * @param values - Record data to insert
+   * @returns Promise resolving to the write result
+   */
+  private async insertRow(values: Record<string, any>): Promise<QueryResult> {
+    this.assertWriteTimestampSupported()
+    const sql = this.grammar.compileInsert({
+      table: this._from,
+      values,
+      ttl: this._ttl,
+      timestamp: this._timestamp,
+      ifNotExists: this._ifNotExists,
+    })
+    const params = Object.values(values)
+    this._values = values
+
+    return await this.executeWrite(sql, params, values)
+  }
+
+  /**
+   * Inserts a new record and returns the generated ID.
+   *
+   * @param values - Record data to insert
+   * @returns Promise resolving to the generated ID
+   *
+   * @example
+   *
+   * const userId = await query.insertGetId({
+   *   name: 'John Doe',
+   *   email: 'john@example.com'
+   * });
+   * ```
+   */
+  public async insertGetId(values: Record<string, any>): Promise<string | number> {
+    await this.insert(values)
+    return await this.driver.getLastInsertId()
+  }
+
+  /**
+   * Updates records matching the current query conditions.
+   * With `if()` conditions a write that was not applied counts as 0 rows;
+   * use `updateIf()` to also get the current row values.
+   *
+   * @param values - Data to update
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * const updated = await User.query()
+   *   .where('active', false)
+   *   .update({ status: 'inactive' });
+   * ```
+   */
+  public async update(values: Record<string, any>): Promise<number> {
+    return this.toAffectedRows(await this.performUpdate(values))
+  }
+
+  /**
+   * Updates records only if the `if()` conditions hold.
+   * Runs as a lightweight transaction on ScyllaDB.
+   *
+   * @param values - Data to update
+   * @returns Promise resolving to the LWT result; `current` holds the row values when the conditions failed
+   * @throws {Error} When no `if()` condition is set
+   *
+   * @example
+   *
+   * const result = await User.query()
+   *   .where('id', id)
+   *   .if('version', '=', 3)
+   *   .updateIf({ name: 'Jane', version: 4 });
+   *
+   * if (!result.applied) {
+   *   console.log('Conflict, current version:', result.current?.version);
+   * }
+   * ```
+   */
+  public async updateIf(values: Record<string, any>): Promise<LwtResult> {
+    this.assertConditional("updateIf")
+    return this.toLwtResult(await this.performUpdate(values))
+  }
+
+  /**
+   * Increments a column by the given amount.
+   * Compiles to `SET c = c + ?` on ScyllaDB (the only update counter columns accept),
+   * `col = col + ?` on SQL databases and `$inc` on MongoDB.
+   *
+   * @param column - Column to increment
+   * @param amount - Amount to add (defaults to 1)
+   * @param extra - Additional columns to set in the same statement
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await PageView.query()
+   *   .where('page', '/home')
+   *   .increment('views');
+   *
+   * await Product.query()
+   *   .where('id', id)
+   *   .increment('stock', 10, { restocked_at: new Date() });
+   * ```
+   */
+  public async increment<K extends keyof TAttrs>(
+    column: K | string,
+    amount = 1,
+    extra: Record<string, any> = {},
+  ): Promise<number> {
+    if (!Number.isFinite(amount)) {
+      throw new Error(`Increment amount for "${String(column)}" must be a finite number.`)
+    }
+
+    return this.toAffectedRows(await this.performUpdate(extra, { [column as string]: amount }))
+  }
+
+  /**
+   * Decrements a column by the given amount.
+   * Compiles to an increment by the negated amount.
+   *
+   * @param column - Column to decrement
+   * @param amount - Amount to subtract (defaults to 1)
+   * @param extra - Additional columns to set in the same statement
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await Product.query()
+   *   .where('id', id)
+   *   .decrement('stock', 2);
+   * ```
+   */
+  public async decrement<K extends keyof TAttrs>(
+    column: K | string,
+    amount = 1,
+    extra: Record<string, any> = {},
+  ): Promise<number> {
+    return await this.increment(column, -amount, extra)
+  }
+
+  /**
+   * Appends elements to a list or set column without reading it first.
+   * Compiles to `col = col + ?` on ScyllaDB, `$push` (`$addToSet` for a Set) on MongoDB
+   * and JSONB concatenation on PostgreSQL.
+   *
+   * @param column - List or set column
+   * @param values - Elements to append; pass a Set to keep elements unique
+   * @returns Promise resolving to number of affected rows
    *
    * @example
    *
-   * await query.loadEagerFor(user, ['posts', 'profile']);
-   * await query.loadEagerFor(user, ['posts.comments']);
+   * await User.query().where('id', id).append('tags', ['admin']);
+   * await User.query().where('id', id).append('roles', new Set(['editor']));
+   * ```
+   */
+  public async append<K extends keyof TAttrs>(column: K | string, values: any[] | Set<any>): Promise<number> {
+    return await this.updateCollection({
+      column: column as string,
+      operation: "append",
+      value: [...values],
+      unique: values instanceof Set,
+    })
+  }
+
+  /**
+   * Prepends elements to a list column.
+   * Compiles to `col = ? + col` on ScyllaDB and `$push` with `$position: 0` on MongoDB.
+   *
+   * @param column - List column
+   * @param values - Elements to prepend
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await Feed.query().where('user_id', id).prepend('recent', [postId]);
+   * ```
+   */
+  public async prepend<K extends keyof TAttrs>(column: K | string, values: any[]): Promise<number> {
+    return await this.updateCollection({ column: column as string, operation: "prepend", value: [...values] })
+  }
+
+  /**
+   * Removes every occurrence of the given elements from a list or set column.
+   * Compiles to `col = col - ?` on ScyllaDB and `$pull` on MongoDB.
+   *
+   * @param column - List or set column
+   * @param values - Elements to remove
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await User.query().where('id', id).remove('tags', ['guest']);
+   * ```
+   */
+  public async remove<K extends keyof TAttrs>(column: K | string, values: any[] | Set<any>): Promise<number> {
+    return await this.updateCollection({ column: column as string, operation: "remove", value: [...values] })
+  }
+
+  /**
+   * Adds or replaces entries in a map column.
+   * Compiles to `col = col + ?` on ScyllaDB and dotted `$set` fields on MongoDB.
+   *
+   * @param column - Map column
+   * @param entries - Entries to put
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await User.query().where('id', id).putEntries('settings', { theme: 'dark' });
+   * ```
+   */
+  public async putEntries<K extends keyof TAttrs>(
+    column: K | string,
+    entries: Record<string, any>,
+  ): Promise<number> {
+    return await this.updateCollection({ column: column as string, operation: "putEntries", value: entries })
+  }
+
+  /**
+   * Removes keys from a map column.
+   * Compiles to `col = col - ?` on ScyllaDB and `$unset` on MongoDB.
+   *
+   * @param column - Map column
+   * @param keys - Keys to remove
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await User.query().where('id', id).removeKeys('settings', ['theme']);
+   * ```
+   */
+  public async removeKeys<K extends keyof TAttrs>(column: K | string, keys: any[]): Promise<number> {
+    return await this.updateCollection({ column: column as string, operation: "removeKeys", value: [...keys] })
+  }
+
+  /**
+   * Replaces the element at a list index (or the value of a map key).
+   * Compiles to `col[?] = ?` on ScyllaDB.
+   *
+   * @param column - List or map column
+   * @param index - List index or map key
+   * @param value - New element
+   * @returns Promise resolving to number of affected rows
+   *
+   * @example
+   *
+   * await Player.query().where('id', id).setIndex('scores', 0, 120);
+   * ```
+   */
+  public async setIndex<K extends keyof TAttrs>(
+    column: K | string,
+    index: number | string,
+    value: any,
+  ): Promise<number> {
+    return await this.updateCollection({ column: column as string, operation: "setIndex", index, value })
+  }
+
+  /**
+   * Executes an UPDATE made of a single collection mutation.
+   *
+   * @param update - Collection mutation
+   * @returns Promise resolving to number of affected rows
+   */
+  private async updateCollection(update: CollectionUpdate): Promise<number> {
+    return this.toAffectedRows(await this.performUpdate({}, {}, [update]))
+  }
+
+  /**
+   * Compiles and executes an UPDATE with plain values, column increments and collection mutations.
+   *
+   * @param values - Column values to set
+   * @param increments - Amounts to add to columns
+   * @param collections - In-place collection mutations
+   * @returns Promise resolving to the write result
+   */
+  private async performUpdate(
+    values: Record<string, any>,
+    increments: Record<string, number> = {},
+    collections: CollectionUpdate[] = [],
+  ): Promise<QueryResult> {
+    this.assertNoRelationLookups("update")
+    this.assertWriteTimestampSupported()
+    await this.assertTrashedWriteKeys("update")
+    const wheres = this.getScopedWheres()
+    const sql = this.grammar.compileUpdate({
+      table: this._from,
+      values,
+      increments,
+      collections,
+      wheres,
+      ttl: this._ttl,
+      timestamp: this._timestamp,
+      ifConditions: this._ifConditions,
+    })
+
+    const params = [
+      ...Object.values(values),
+      ...Object.values(increments),
+      ...collections.flatMap((update) => this.grammar.getCollectionParams(update)),
+      ...this.getWhereParams(wheres),
+      ...this.getWhereParams(this._ifConditions),
+    ]
+    this._values = values
+
+    const counter = Object.keys(increments).length > 0 && Object.keys(values).length === 0
+    return await this.executeWrite(sql, params, this.getWhereKeys(), counter)
+  }
+
+  /**
+   * Updates an existing record or inserts a new one if it doesn't exist.
+   *
+   * @param attributes - Attributes to search by
+   * @param values - Values to update or insert
+   * @returns Promise resolving to boolean indicating success
+   *
+   * @example
+   *
+   * await query.updateOrInsert(
+   *   { email: 'john@example.com' },
+   *   { name: 'John Doe', active: true }
+   * );
+   * ```
+   */
+  public async updateOrInsert(attributes: Record<string, any>, values: Record<string, any> = {}): Promise<boolean> {
+    const exists = await this.where(attributes).exists()
+
+    if (exists) {
+      return (await this.where(attributes).update(values)) > 0
+    } else {
+      return await this.insert({ ...attributes, ...values })
+    }
+  }
+
+  /**
+   * Deletes records matching the current query conditions.
+   *
+   * If the model uses soft deletes (`static softDeletes = true`), this method
+   * will perform an UPDATE setting the `deleted_at` timestamp instead of a hard delete.
+   *
+   * @returns {Promise<number>}
+   *   The number of rows affected (hard-deleted or soft-deleted).
+   *
+   * @example
+   * // Hard delete:
+   * const removed = await User.query()
+   *   .where('active', false)
+   *   .delete();
+   *
+   * @example
+   * // Soft delete (if User.softDeletes = true):
+   * const trashed = await User.query()
+   *   .where('role', 'guest')
+   *   .delete();
+   */
+  public async delete(): Promise<number> {
+    const column = this.getDeletedAtColumn()
+    if (column) {
+      await this.assertTrashedWriteKeys("delete")
+      return await this.update({ [column]: new Date() })
+    }
+
+    return await this.forceDelete()
+  }
+
+  /**
+   * Permanently deletes records matching the current query conditions,
+   * bypassing soft deletes.
+   *
+   * @returns Promise resolving to number of deleted rows
+   *
+   * @example
+   *
+   * await User.onlyTrashed()
+   *   .where('deleted_at', '<', lastYear)
+   *   .forceDelete();
+   * ```
+   */
+  public async forceDelete(): Promise<number> {
+    return this.toAffectedRows(await this.performDelete())
+  }
+
+  /**
+   * Permanently deletes records only if the `if()` conditions hold.
+   * Runs as a lightweight transaction on ScyllaDB.
+   *
+   * @returns Promise resolving to the LWT result; `current` holds the row values when the conditions failed
+   * @throws {Error} When no `if()` condition is set
+   *
+   * @example
+   *
+   * const { applied } = await Session.query()
+   *   .where('id', id)
+   *   .if('owner', '=', userId)
+   *   .deleteIf();
+   * ```
+   */
+  public async deleteIf(): Promise<LwtResult> {
+    this.assertConditional("deleteIf")
+    return this.toLwtResult(await this.performDelete())
+  }
+
+  /**
+   * Compiles and executes the DELETE statement.
+   *
+   * @returns Promise resolving to the write result
+   */
+  private async performDelete(): Promise<QueryResult> {
+    this.assertNoRelationLookups("delete")
+    this.assertWriteTimestampSupported()
+    await this.assertTrashedWriteKeys("delete")
+    const wheres = this.getScopedWheres()
+    const sql = this.grammar.compileDelete({
+      table: this._from,
+      wheres,
+      timestamp: this._timestamp,
+      ifConditions: this._ifConditions,
+    })
+    const params = [
+      ...this.getWhereParams(wheres),
+      ...this.getWhereParams(this._ifConditions),
+    ]
+    return await this.executeWrite(sql, params, this.getWhereKeys())
+  }
+
+  /**
+   * Restores soft-deleted records matching the current query conditions.
+   * The trashed rows are fetched and restored one model at a time, so the
+   * `restoring` and `restored` events fire for each of them.
+   *
+   * @returns Promise resolving to number of restored rows
+   *
+   * @example
+   *
+   * await User.query()
+   *   .where('team_id', teamId)
+   *   .restore();
+   * ```
+   */
+  public async restore(): Promise<number> {
+    const column = this.getDeletedAtColumn()
+    if (!column) {
+      throw new Error(`${this.model?.name ?? this._from} does not use soft deletes.`)
+    }
+
+    const options = { trx: this.trx, batch: this._batch }
+    let restored = 0
+    for (const model of await this.clone().onlyTrashed().get()) {
+      if (await model.restore(options)) {
+        restored++
+      }
+    }
+    return restored
+  }
+
+  /**
+   * Includes soft-deleted records in the results.
+   *
+   * @returns The query builder instance for chaining
+   *
+   * @example
+   *
+   * const users = await User.query().withTrashed().get();
+   * ```
+   */
+  public withTrashed(): this {
+    this._trashed = "with"
+    return this
+  }
+
+  /**
+   * Limits the results to soft-deleted records.
+   *
+   * @returns The query builder instance for chaining
+   *
+   * @example
+   *
+   * const deleted = await User.query().onlyTrashed().get();
    * ```
    */
-  public async loadEagerFor(model: TModel, relations: string[]) {
-    for (const rel of relations) {
-      const [head, ...tail] = rel.split(".")
-      const relInstance = (model as any)[`${head}Relation`]() as Relationship<any, any>
-      const result = await relInstance.getResults()
-      ;(model as any).setAttribute(head, result)
+  public onlyTrashed(): this {
+    this._trashed = "only"
+    return this
+  }
+
+  /**
+   * Gets the soft delete column of the bound model.
+   *
+   * @returns Column name, or undefined when the model does not use soft deletes
+   */
+  protected getDeletedAtColumn(): string | undefined {
+    if (!this.model) {
+      return undefined
+    }
+
+    const instance = new this.model() as any
+    return instance.usesSoftDeletes() ? instance.getDeletedAtColumn() : undefined
+  }
+
+  /**
+   * Gets the WHERE clauses with the soft delete scope applied.
+   * CQL cannot filter on null columns, so on ScyllaDB trashed rows are
+   * filtered after fetching instead (see filterTrashed).
+   *
+   * @returns WHERE clauses to compile
+   */
+  protected getScopedWheres(): WhereClause[] {
+    const column = this.getDeletedAtColumn()
+    if (!column || this._trashed === "with" || this.grammar instanceof ScyllaDBGrammar) {
+      return this._wheres
+    }
+
+    return [
+      ...this.groupWheres(this._wheres),
+      { type: this._trashed === "only" ? "notNull" : "null", column, boolean: "and" },
+    ]
+  }
+
+  /**
+   * Wraps WHERE clauses joined by OR in a nested group,
+   * so conditions appended after them apply to every alternative.
+   *
+   * @param wheres - WHERE clauses to group
+   * @returns The clauses, nested when any of them is joined by OR
+   */
+  private groupWheres(wheres: WhereClause[]): WhereClause[] {
+    if (!wheres.some((where, index) => index > 0 && where.boolean?.toLowerCase() === "or")) {
+      return wheres
+    }
+
+    return [{ type: "nested", wheres, boolean: "and" }]
+  }
+
+  /**
+   * Applies the soft delete scope to fetched rows on ScyllaDB.
+   * Rows without the soft delete column (raw selects) are kept.
+   *
+   * @param rows - Raw result rows
+   * @returns Rows matching the trashed mode
+   */
+  private filterTrashed(rows: any[]): any[] {
+    if (!this.filtersTrashedRows()) {
+      return rows
+    }
+
+    const column = this.getDeletedAtColumn()!
+    const trashed = this._trashed === "only"
+    return rows.filter((row) => !(column in row) || (row[column] != null) === trashed)
+  }
+
+  /**
+   * Checks whether the soft delete scope is applied after fetching (ScyllaDB).
+   *
+   * @returns True when fetched rows go through filterTrashed()
+   */
+  private filtersTrashedRows(): boolean {
+    return this.grammar instanceof ScyllaDBGrammar && this._trashed !== "with" && !!this.getDeletedAtColumn()
+  }
+
+  /**
+   * Adds the soft delete column to a narrow select on ScyllaDB,
+   * so filterTrashed() can tell trashed rows apart.
+   *
+   * @returns The column to add, if any
+   */
+  private getTrashedSelect(): string[] {
+    if (!this._select.length || this._select.includes("*") || !this.filtersTrashedRows()) {
+      return []
+    }
+
+    const column = this.getDeletedAtColumn()!
+    return this._select.includes(column) ? [] : [column]
+  }
+
+  /**
+   * Fetches up to `count` rows matching the soft delete scope on ScyllaDB.
+   * Pages are read until enough rows survive filterTrashed(); each page asks only
+   * for the rows still missing, so the returned page state resumes right after the last row kept.
+   *
+   * @param count - Number of rows wanted
+   * @param pageState - Page state to resume from
+   * @returns Promise resolving to the rows and the page state of the next row, if any
+   */
+  private async fetchUntrashed(count: number, pageState?: string): Promise<QueryResult & { pageState: string | null }> {
+    const query = this.clone()
+    query._limit = undefined
+    const sql = query.toSql()
+    const params = query.getParams()
+    const rows: any[] = []
+
+    do {
+      const result = await this.driver.query(sql, params, {
+        ...this.getQueryOptions(),
+        fetchSize: count - rows.length,
+        pageState,
+      })
+      rows.push(...this.filterTrashed(result.rows))
+      pageState = result.pageState ?? undefined
+    } while (rows.length < count && pageState)
+
+    return { rows, rowCount: rows.length, pageState: pageState ?? null }
+  }
+
+  /**
+   * Rejects operations that cannot apply the soft delete scope on ScyllaDB,
+   * where trashed rows can only be dropped after they are fetched.
+   *
+   * @param method - Name of the calling method, for the error message
+   * @throws {Error} When the soft delete scope would have to be filtered after fetching
+   */
+  private assertNoTrashedFilter(method: string): void {
+    if (this.filtersTrashedRows()) {
+      throw new Error(
+        `${method}() cannot apply the soft delete scope of ${this.model?.name} on ScyllaDB, which cannot filter on null columns; ` +
+          "call withTrashed() to include soft-deleted rows, or fetch the rows with get().",
+      )
+    }
+  }
+
+  /**
+   * Checks that a ScyllaDB write under the soft delete scope fixes the whole primary key.
+   * Such a write addresses a single row the caller chose and is sent as is. Any other write
+   * would need the scope as an IF condition, which ScyllaDB only accepts when every
+   * primary key column is restricted by equality.
+   *
+   * @param method - Name of the calling method, for the error message
+   * @throws {Error} When the write does not fix the whole primary key
+   */
+  private async assertTrashedWriteKeys(method: string): Promise<void> {
+    if (!this.filtersTrashedRows()) {
+      return
+    }
 
-      if (tail.length && result) {
-        const babies = Array.isArray(result) ? result : [result]
-        await Promise.all(babies.map((b) => this.loadEagerFor(b, [tail.join(".")])))
-      }
+    const instance = new this.model!() as unknown as Model<any>
+    const driver = this.driver as ScyllaDBDriver
+    const keys = instance.getPartitionKeys().length
+      ? [...instance.getPartitionKeys(), ...instance.getClusteringKeys()]
+      : [...(await driver.getPartitionKeys(this._from)), ...(await driver.getClusteringKeys(this._from))]
+    const fixed = this.getWhereKeys()
+    if (keys.length && keys.every((key) => key in fixed)) {
+      return
     }
+
+    throw new Error(
+      `${method}() cannot apply the soft delete scope of ${this.model?.name} on ScyllaDB unless every primary key column is fixed; ` +
+        "restrict the full primary key, or call withTrashed() to write every matching row.",
+    )
   }
 
   /**
-   * Executes the query and returns the first matching result.
-   *
-   * @returns Promise resolving to first result or null if none found
+   * Truncates the entire table, removing all records.
    *
    * @example
    *
-   * const user = await User.query()
-   *   .where('email', 'john@example.com')
-   *   .first();
+   * await query.truncate(); // Removes all records from table
    * ```
    */
-  public async first(): Promise<TModel | null> {
-    const results = await this.take(1).get()
-    return results.length > 0 ? results[0] : null
+  public async truncate(): Promise<void> {
+    const sql = `TRUNCATE ${this.grammar.wrapTable(this._from)}`
+    await this.driver.query(sql)
   }
 
+  // Helper methods
+
   /**
-   * Gets the count of records matching the query.
-   *
-   * @param column - Column to count (defaults to '*')
-   * @returns Promise resolving to count number
-   *
-   * @example
+   * Executes a write, or records it when the builder is bound to a batch.
    *
-   * const userCount = await User.query()
-   *   .where('active', true)
-   *   .count();
-   *
-   * const emailCount = await User.query()
-   *   .count('email');
-   * ```
+   * @param sql - Compiled statement
+   * @param params - Statement parameters
+   * @param keys - Column values the write is restricted to
+   * @param counter - Whether the write only increments counter columns
+   * @returns Promise resolving to the query result (empty for batched writes, which have not run yet)
    */
-  public async count(column = "*"): Promise<number> {
-    const clone = this.clone()
-    clone._select = [`COUNT(${column}) as aggregate`]
+  protected async executeWrite(
+    sql: string,
+    params: any[],
+    keys: Record<string, any>,
+    counter = false,
+  ): Promise<QueryResult> {
+    if (this._batch) {
+      this._batch.add(sql, params, this._from, keys, counter, this.isConditional())
+      return { rows: [], rowCount: 0 }
+    }
+    return await this.driver.query(sql, params, this.getQueryOptions())
+  }
 
-    const result = await clone.get()
-    return (result[0] as { aggregate?: number })?.aggregate || 0
+  /**
+   * Resolves what a ScyllaDB SELECT needs before it can be compiled:
+   * the column list for WRITETIME()/TTL() selectors and the table's keys
+   * for validating DISTINCT, GROUP BY and the query plan.
+   */
+  private async prepareSelect(): Promise<void> {
+    await this.expandSelectForMetadata()
+    await this.resolvePrimaryKey()
+    this.checkQueryPlan()
   }
 
   /**
-   * Checks if any records exist matching the query.
-   *
-   * @returns Promise resolving to boolean
-   *
-   * @example
-   *
-   * const hasActiveUsers = await User.query()
-   *   .where('active', true)
-   *   .exists();
-   * ```
+   * Loads the partition and clustering keys of the table, from the bound model
+   * when it declares them and from the cluster metadata otherwise,
+   * along with the targets of the table's secondary indexes.
    */
-  public async exists(): Promise<boolean> {
-    const count = await this.count()
-    return count > 0
+  private async resolvePrimaryKey(): Promise<void> {
+    if (this._primaryKey || !(this.grammar instanceof ScyllaDBGrammar)) {
+      return
+    }
+    const validates = this.getValidationMode() !== "off" && !this._allowFiltering
+    if (!this._distinct && !this._groups.length && !(validates && (this._wheres.length || this._orders.length))) {
+      return
+    }
+
+    const driver = this.driver as ScyllaDBDriver
+    const instance = this.model ? (new this.model() as unknown as Model<any>) : undefined
+    const declared = instance?.getPartitionKeys().length ? instance : undefined
+
+    this._primaryKey = {
+      partitionKeys: declared ? declared.getPartitionKeys() : await driver.getPartitionKeys(this._from),
+      clusteringKeys: declared ? declared.getClusteringKeys() : await driver.getClusteringKeys(this._from),
+      indexTargets: await driver.getIndexTargets(this._from),
+    }
   }
 
   /**
-   * Inserts new record(s) into the database.
-   * Supports both single record and batch insert operations.
+   * Gets the query plan validation mode: the builder's, then the connection's, then strict.
    *
-   * @param values - Record data or array of records to insert
-   * @returns Promise resolving to boolean indicating success
-   *
-   * @example
+   * @returns Validation mode
+   */
+  private getValidationMode(): QueryValidationMode {
+    return (
+      this._validation ??
+      ConnectionManager.getInstance().getConnection(this.connection).getConfig().queryValidation ??
+      "strict"
+    )
+  }
+
+  /**
+   * Checks a ScyllaDB SELECT against the table's primary key layout before it is sent.
+   * Skipped with allowFiltering(), raw WHERE clauses, or when the table's keys are unknown.
    *
-   * // Single insert
-   * await query.insert({
-   *   name: 'John Doe',
-   *   email: 'john@example.com'
-   * });
+   * @throws {QueryPlanError} In strict mode, when the server would require ALLOW FILTERING
+   */
+  private checkQueryPlan(): void {
+    const mode = this.getValidationMode()
+    const keys = this._primaryKey
+    if (mode === "off" || this._allowFiltering || !keys?.partitionKeys.length) {
+      return
+    }
+
+    const problem = this.findQueryPlanProblem(keys)
+    if (!problem) {
+      return
+    }
+
+    const error = new QueryPlanError(`Query on ${this._from}: ${problem.message}`, this._from, problem.reason)
+    if (mode === "warn") {
+      console.warn(error.message)
+      return
+    }
+    throw error
+  }
+
+  /**
+   * Finds the first restriction or ordering that CQL only accepts with ALLOW FILTERING.
    *
-   * // Batch insert
-   * await query.insert([
-   *   { name: 'John', email: 'john@example.com' },
-   *   { name: 'Jane', email: 'jane@example.com' }
-   * ]);
-   * ```
+   * @param keys - Primary key layout and secondary index targets of the table
+   * @returns The problem found, or undefined when the query is servable as is
    */
-  public async insert(values: Record<string, any> | Record<string, any>[]): Promise<boolean> {
-    if (Array.isArray(values)) {
-      const queries = values.map((value) => ({
-        query: this.grammar.compileInsert({
-          table: this._from,
-          values: value,
-          ttl: this._ttl,
-          ifNotExists: this._ifNotExists,
-        }),
-        params: Object.values(value),
-      }))
+  private findQueryPlanProblem(keys: {
+    partitionKeys: string[]
+    clusteringKeys: string[]
+    indexTargets: string[]
+  }): { reason: QueryPlanErrorReason; message: string } | undefined {
+    const wheres = this._wheres.filter((where) => where.type !== "has")
+    if (wheres.some((where) => where.type === "raw")) {
+      return undefined
+    }
 
-      if (this.driver instanceof (await import("../drivers/ScyllaDBDriver")).ScyllaDBDriver) {
-        await (this.driver as any).batch(queries)
-      } else {
-        for (const query of queries) {
-          await this.driver.query(query.query, query.params)
+    // How each column is restricted: eq (= or IN), range (<, >, BETWEEN) or filter (anything else),
+    // and which regular columns have a restriction a secondary index can serve
+    const restrictions = new Map<string, "eq" | "range" | "filter">()
+    const indexServed = new Set<string>()
+    let tokenRestricted = false
+    for (const where of wheres) {
+      if (where.type === "token" || where.type === "tokenRange") {
+        tokenRestricted = true
+        continue
+      }
+      const column = where.column!
+      const operator = where.type === "basic" ? String(where.operator).toUpperCase() : where.type
+      let kind: "eq" | "range" | "filter" = "filter"
+      if (operator === "=" || operator === "in") {
+        kind = "eq"
+        if (keys.indexTargets.includes(column)) {
+          indexServed.add(column)
+        }
+      } else if (operator === "between" || ["<", "<=", ">", ">="].includes(operator)) {
+        kind = "range"
+      } else if (operator === "CONTAINS" || operator === "CONTAINS KEY") {
+        // Served by an index on the collection's values (CONTAINS) or on the map's keys (CONTAINS KEY)
+        const target = operator === "CONTAINS" ? `values(${column})` : `keys(${column})`
+        if (keys.indexTargets.includes(target)) {
+          kind = "eq"
+          indexServed.add(column)
         }
       }
-    } else {
-      const sql = this.grammar.compileInsert({
-        table: this._from,
-        values,
-        ttl: this._ttl,
-        ifNotExists: this._ifNotExists,
-      })
-      const params = Object.values(values)
-      this._values = values
+      const previous = restrictions.get(column)
+      restrictions.set(column, previous === "filter" || previous === "range" ? previous : kind)
+    }
+
+    const fix = "add .allowFiltering() if the scan is intended"
+
+    // Partition key: every column by = or IN, or a token() range
+    const restrictedPartition = keys.partitionKeys.filter((column) => restrictions.has(column))
+    const nonEqual = restrictedPartition.find((column) => restrictions.get(column) !== "eq")
+    if (nonEqual) {
+      return {
+        reason: "missingPartitionKey",
+        message: `partition key column ${nonEqual} can only be restricted with = or IN; use whereTokenRange() for ranges, or ${fix}.`,
+      }
+    }
+    if (restrictedPartition.length && restrictedPartition.length < keys.partitionKeys.length) {
+      const missing = keys.partitionKeys.filter((column) => !restrictions.has(column))
+      return {
+        reason: "missingPartitionKey",
+        message: `partition key column(s) ${missing.join(", ")} are not restricted; restrict all of ${keys.partitionKeys.join(", ")} with = or IN, or ${fix}.`,
+      }
+    }
+    const partitionRestricted = tokenRestricted || restrictedPartition.length === keys.partitionKeys.length
+
+    // Regular columns: only one restriction served by a secondary index runs without filtering
+    const primaryKey = [...keys.partitionKeys, ...keys.clusteringKeys]
+    const regular = [...restrictions.keys()].filter((column) => !primaryKey.includes(column))
+    const indexed = regular.filter((column) => indexServed.has(column) && restrictions.get(column) === "eq")
+    const unindexed = regular.filter((column) => !indexed.includes(column) || column !== indexed[0])
+    if (unindexed.length) {
+      const reason = indexed.includes(unindexed[0])
+        ? "only one secondary index restriction runs without filtering"
+        : "no secondary index serves this restriction"
+      return {
+        reason: "allowFiltering",
+        message: `column ${unindexed[0]} is not part of the primary key and ${reason}; ${fix}.`,
+      }
+    }
+
+    // Clustering columns: a prefix in clustering order, with a range only on the last one
+    let blockedBy: string | undefined
+    for (const column of keys.clusteringKeys) {
+      const restriction = restrictions.get(column)
+      if (!restriction) {
+        blockedBy ??= `${column} is not restricted`
+        continue
+      }
+      if (restriction === "filter") {
+        return {
+          reason: "allowFiltering",
+          message: `clustering column ${column} only supports =, IN and range restrictions; ${fix}.`,
+        }
+      }
+      if (blockedBy) {
+        return {
+          reason: "clusteringOrder",
+          message: `clustering column ${column} is restricted but ${blockedBy}; restrict clustering columns in order (${keys.clusteringKeys.join(", ")}), or ${fix}.`,
+        }
+      }
+      if (restriction === "range") {
+        blockedBy = `${column} is restricted by a range`
+      }
+    }
+
+    const clusteringRestricted = keys.clusteringKeys.some((column) => restrictions.has(column))
+    if (clusteringRestricted && !partitionRestricted && !indexed.length) {
+      return {
+        reason: "missingPartitionKey",
+        message: `clustering columns are restricted without the partition key (${keys.partitionKeys.join(", ")}); ${fix}.`,
+      }
+    }
 
-      await this.driver.query(sql, params)
+    // ORDER BY: only within a partition, following the clustering columns
+    if (this._orders.length) {
+      if (!partitionRestricted || tokenRestricted) {
+        return {
+          reason: "clusteringOrder",
+          message: `ORDER BY requires the partition key (${keys.partitionKeys.join(", ")}) to be restricted with = or IN.`,
+        }
+      }
+      const outOfOrder = this._orders.find((order, i) => keys.clusteringKeys[i] !== order.column)
+      if (outOfOrder) {
+        return {
+          reason: "clusteringOrder",
+          message: `ORDER BY ${outOfOrder.column} does not follow the clustering columns (${keys.clusteringKeys.join(", ")}).`,
+        }
+      }
     }
 
-    return true
+    return undefined
   }
 
   /**
-   * Inserts a new record and returns the generated ID.
-   *
-   * @param values - Record data to insert
-   * @returns Promise resolving to the generated ID
+   * Replaces `SELECT *` with the table's columns when WRITETIME()/TTL() selectors
+   * are requested, since CQL does not allow `*` next to other selectors.
    *
-   * @example
-   *
-   * const userId = await query.insertGetId({
-   *   name: 'John Doe',
-   *   email: 'john@example.com'
-   * });
-   * ```
+   * @throws {Error} When the database is not ScyllaDB
    */
-  public async insertGetId(values: Record<string, any>): Promise<string | number> {
-    await this.insert(values)
-    return await this.driver.getLastInsertId()
+  private async expandSelectForMetadata(): Promise<void> {
+    if (!this._metaSelects.length) {
+      return
+    }
+    if (!(this.grammar instanceof ScyllaDBGrammar)) {
+      throw new Error("WRITETIME() and TTL() selectors are only supported on ScyllaDB.")
+    }
+    if (this._select.includes("*")) {
+      this._select = await (this.driver as ScyllaDBDriver).getColumnNames(this._from)
+    }
   }
 
   /**
-   * Updates records matching the current query conditions.
-   *
-   * @param values - Data to update
-   * @returns Promise resolving to number of affected rows
-   *
-   * @example
+   * Compiles the WRITETIME()/TTL() selectors, aliased so hydration can pick them out.
+   * Aliases are quoted so CQL keeps their case for camelCase columns.
    *
-   * const updated = await User.query()
-   *   .where('active', false)
-   *   .update({ status: 'inactive' });
-   * ```
+   * @returns Selector expressions
    */
-  public async update(values: Record<string, any>): Promise<number> {
-    const sql = this.grammar.compileUpdate({
-      table: this._from,
-      values,
-      wheres: this._wheres,
-      ttl: this._ttl,
-      ifConditions: this._ifConditions,
+  private compileMetadataSelects(): string[] {
+    return this._metaSelects.map(({ type, column }) => {
+      const fn = type === "writetime" ? "WRITETIME" : "TTL"
+      return `${fn}(${this.grammar.wrapColumn(column)}) AS "${type}__${column}"`
     })
-
-    const params = [
-      ...Object.values(values),
-      ...this.getWhereParams(this._wheres),
-      ...this.getWhereParams(this._ifConditions),
-    ]
-    this._values = values
-
-    const result = await this.driver.query(sql, params)
-    return result.affectedRows || 0
   }
 
   /**
-   * Updates an existing record or inserts a new one if it doesn't exist.
-   *
-   * @param attributes - Attributes to search by
-   * @param values - Values to update or insert
-   * @returns Promise resolving to boolean indicating success
+   * Ensures a write timestamp set with usingTimestamp() can be compiled.
    *
-   * @example
+   * @throws {Error} When a timestamp is set and the database is not ScyllaDB
+   */
+  private assertWriteTimestampSupported(): void {
+    if (this._timestamp !== undefined && !(this.grammar instanceof ScyllaDBGrammar)) {
+      throw new Error("USING TIMESTAMP is only supported on ScyllaDB.")
+    }
+  }
+
+  /**
+   * Separates WRITETIME()/TTL() values from the attributes of a row.
    *
-   * await query.updateOrInsert(
-   *   { email: 'john@example.com' },
-   *   { name: 'John Doe', active: true }
-   * );
-   * ```
+   * @param row - Raw result row
+   * @returns Row attributes and the column metadata
    */
-  public async updateOrInsert(attributes: Record<string, any>, values: Record<string, any> = {}): Promise<boolean> {
-    const exists = await this.where(attributes).exists()
+  private splitMetadata(row: Record<string, any>): { attributes: Record<string, any>; metadata: ModelMetadata } {
+    const metadata: ModelMetadata = { writetime: {}, ttl: {} }
+    if (!this._metaSelects.length) {
+      return { attributes: row, metadata }
+    }
 
-    if (exists) {
-      return (await this.where(attributes).update(values)) > 0
-    } else {
-      return await this.insert({ ...attributes, ...values })
+    const attributes = { ...row }
+    for (const { type, column } of this._metaSelects) {
+      const alias = `${type}__${column}`
+      metadata[type][column] = attributes[alias]
+      delete attributes[alias]
     }
+    return { attributes, metadata }
   }
 
   /**
-   * Deletes records matching the current query conditions.
-   *
-   * If the model uses soft deletes (`static softDeletes = true`), this method
-   * will perform an UPDATE setting the `deleted_at` timestamp instead of a hard delete.
+   * Collects the execution options set on this builder.
    *
-   * @returns {Promise<number>}
-   *   The number of rows affected (hard-deleted or soft-deleted).
-   *
-   * @example
-   * // Hard delete:
-   * const removed = await User.query()
-   *   .where('active', false)
-   *   .delete();
+   * @returns Options passed to the driver with every statement
+   */
+  protected getQueryOptions(): QueryOptions {
+    const options: QueryOptions = {}
+    if (this._consistency) options.consistency = this._consistency
+    if (this._serialConsistency) options.serialConsistency = this._serialConsistency
+    if (this._timeout) options.timeout = this._timeout
+    return options
+  }
+
+  /**
+   * Collects the column values fixed by equality WHERE clauses.
    *
-   * @example
-   * // Soft delete (if User.softDeletes = true):
-   * const trashed = await User.query()
-   *   .where('role', 'guest')
-   *   .delete();
+   * @returns Column values keyed by column name
    */
-  public async delete(): Promise<number> {
-    // Determine if we should soft-delete
-    const modelClass = this._model
-    // if (modelClass.softDeletes) {
-    //   // Soft delete: set deleted_at = now()
-    //   const column = 'deleted_at'
-    //   const now = new Date().toISOString()
-    //   const sql = this.grammar.compileUpdate({
-    //     table: this._from,
-    //     wheres: this._wheres,
-    //     updates: [{ column, value: '?' }],
-    //     ifConditions: this._ifConditions,
-    //   })
-    //   const params = [ now,
-    //     ...this.getWhereParams(this._wheres),
-    //     ...this.getWhereParams(this._ifConditions),
-    //   ]
-    //   const result = await this.driver.query(sql, params)
-    //   return result.affectedRows || 0
-    // }
-
-    // Hard delete fallback
-    const sql = this.grammar.compileDelete({
-      table: this._from,
-      wheres: this._wheres,
-      ifConditions: this._ifConditions,
-    })
-    const params = [
-      ...this.getWhereParams(this._wheres),
-      ...this.getWhereParams(this._ifConditions),
-    ]
-    const result = await this.driver.query(sql, params)
-    return result.affectedRows || 0
+  protected getWhereKeys(): Record<string, any> {
+    const keys: Record<string, any> = {}
+    for (const where of this._wheres) {
+      if (where.type === "basic" && where.operator === "=") {
+        keys[where.column] = where.value
+      }
+    }
+    return keys
   }
 
+  /**
+   * Checks whether the write carries lightweight transaction conditions.
+   *
+   * @returns True if `ifNotExists()` or `if()` conditions are set
+   */
+  protected isConditional(): boolean {
+    return this._ifNotExists || this._ifConditions.length > 0
+  }
 
   /**
-   * Truncates the entire table, removing all records.
+   * Converts a write result into an LwtResult.
+   * Drivers without an `[applied]` column report success from the affected row count,
+   * and writes recorded in a batch are reported as deferred.
    *
-   * @example
+   * @param result - Driver query result
+   * @returns The LWT result
+   */
+  protected toLwtResult(result: QueryResult): LwtResult {
+    if (this._batch) {
+      return { applied: false, deferred: true }
+    }
+    return result.lwt ?? { applied: (result.affectedRows ?? result.rowCount) > 0 }
+  }
+
+  /**
+   * Reads the affected row count of a write.
+   * A conditional write counts as one row when applied and none otherwise.
    *
-   * await query.truncate(); // Removes all records from table
-   * ```
+   * @param result - Driver query result
+   * @returns Number of affected rows
    */
-  public async truncate(): Promise<void> {
-    const sql = `TRUNCATE ${this.grammar.wrapTable(this._from)}`
-    await this.driver.query(sql)
+  protected toAffectedRows(result: QueryResult): number {
+    if (this.isConditional()) {
+      return this.toLwtResult(result).applied ? 1 : 0
+    }
+    return result.affectedRows || 0
   }
 
-  // Helper methods
+  /**
+   * Ensures a conditional write method has `if()` conditions to check.
+   *
+   * @param method - Name of the calling method, for the error message
+   * @throws {Error} When no `if()` condition is set
+   */
+  private assertConditional(method: string): void {
+    if (!this._ifConditions.length) {
+      throw new Error(`${method}() needs at least one if() condition.`)
+    }
+  }
 
   /**
    * Converts the query builder to a base query object for grammar compilation.
@@ -1063,18 +3236,24 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
    */
   protected toBase(): any {
     return {
-      columns: this._select,
+      columns: [...this._select, ...this.compileMetadataSelects(), ...this.getTrashedSelect()],
       from: this._from,
       values: this._values,
       joins: this._joins,
-      wheres: this._wheres,
+      wheres: this.getScopedWheres(),
       groups: this._groups,
       havings: this._havings,
       orders: this._orders,
       limit: this._limit,
+      groupLimit: this._groupLimit,
+      perPartitionLimit: this._perPartitionLimit,
+      distinct: this._distinct,
+      partitionKeys: this._primaryKey?.partitionKeys,
+      clusteringKeys: this._primaryKey?.clusteringKeys,
       offset: this._offset,
       unions: this._unions,
       allowFiltering: this._allowFiltering,
+      relationCounts: this._relationCounts,
     }
   }
 
@@ -1084,7 +3263,8 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
    * @returns Array of parameter values
    */
   protected getParams(): any[] {
-    return [...this.getWhereParams(this._wheres), ...this.getHavingParams()]
+    const countParams = this._relationCounts.flatMap((c) => this.getWhereParams(c.relation.wheres))
+    return [...countParams, ...this.getWhereParams(this.getScopedWheres()), ...this.getHavingParams()]
   }
 
   /**
@@ -1109,8 +3289,18 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
           params.push(...(where.values ?? []))
           break
         case "token":
+        case "tokenRange":
           params.push(...(where.values ?? []))
           break
+        case "has":
+          params.push(...this.getWhereParams(where.relation?.wheres ?? []))
+          if (where.mode === "count") {
+            params.push(where.value)
+          }
+          break
+        case "nested":
+          params.push(...this.getWhereParams(where.wheres ?? []))
+          break
       }
     }
 
@@ -1147,10 +3337,12 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     if (!this.model) {
       throw new Error("Model is not set on QueryBuilder")
     }
+    const { attributes, metadata } = this.splitMetadata(row)
     const inst = new this.model()
-    inst.setAttributes(row)
+    inst.setAttributes(attributes)
     inst.setExists(true)
-    inst.setOriginal(row)
+    inst.setOriginal(attributes)
+    inst.setMetadata(metadata)
     return inst
   }
 
@@ -1179,13 +3371,30 @@ export class QueryBuilder<TModel extends Model<any>, TAttrs> {
     clone._orders = [...this._orders]
     clone._limit = this._limit
     clone._offset = this._offset
+    clone._groupLimit = this._groupLimit
     clone._unions = [...this._unions]
     clone._allowFiltering = this._allowFiltering
     clone._ttl = this._ttl
     clone._ifNotExists = this._ifNotExists
     clone._ifConditions = [...this._ifConditions]
+    clone._consistency = this._consistency
+    clone._serialConsistency = this._serialConsistency
+    clone._timeout = this._timeout
+    clone._timestamp = this._timestamp
+    clone._metaSelects = [...this._metaSelects]
+    clone._distinct = this._distinct
+    clone._perPartitionLimit = this._perPartitionLimit
+    clone._primaryKey = this._primaryKey
+    clone._validation = this._validation
+    clone._relationCounts = [...this._relationCounts]
+    clone._trashed = this._trashed
     clone.model = this.model
 
+    if (this.trx) {
+      clone.transacting(this.trx)
+    }
+    clone._batch = this._batch
+
     return clone
   }
 
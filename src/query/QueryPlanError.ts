@@ -0,0 +1,37 @@
+/**
+ * Why a query was rejected by the ScyllaDB query plan validation.
+ */
+export type QueryPlanErrorReason = "allowFiltering" | "missingPartitionKey" | "clusteringOrder"
+
+/**
+ * Thrown before a ScyllaDB SELECT is sent when its restrictions do not fit the
+ * table's primary key layout, i.e. when the server would reject it without ALLOW FILTERING.
+ *
+ * @example
+ *
+ * try {
+ *   await Event.query().where('status', 'failed').get();
+ * } catch (error) {
+ *   if (error instanceof QueryPlanError && error.reason === 'allowFiltering') {
+ *     // add a secondary index, or opt in with .allowFiltering()
+ *   }
+ * }
+ *
+ */
+export class QueryPlanError extends Error {
+  /**
+   * Creates a new QueryPlanError instance.
+   *
+   * @param message - Description of the problem and how to fix it
+   * @param table - Table the query targets
+   * @param reason - Kind of problem found
+   */
+  constructor(
+    message: string,
+    public readonly table: string,
+    public readonly reason: QueryPlanErrorReason,
+  ) {
+    super(message)
+    this.name = "QueryPlanError"
+  }
+}
@@ -0,0 +1,172 @@
+import type { QueryBuilder } from "./QueryBuilder"
+import type { ScanOptions, TokenRange } from "@/types"
+
+/** Lowest token produced by the Murmur3 partitioner */
+const MIN_TOKEN = -(2n ** 63n)
+
+/** Highest token produced by the Murmur3 partitioner */
+const MAX_TOKEN = 2n ** 63n - 1n
+
+/**
+ * Full-table scanner for ScyllaDB.
+ * Splits the Murmur3 token ring into sub-ranges and walks them in parallel,
+ * each with `TOKEN(pk) > ? AND TOKEN(pk) <= ?`, so a whole table can be read
+ * without a single coordinator having to page through every partition.
+ *
+ * Failed ranges are retried from the start, so the callback may see rows of a
+ * retried range more than once (at-least-once delivery).
+ *
+ * @template TModel - The model type yielded to the callback
+ *
+ * @example
+ *
+ * const scanner = new TokenRangeScanner(() => Event.query(), ['device_id']);
+ * const total = await scanner.scan({ splits: 128, concurrency: 8 }, async (event) => {
+ *   await aggregate(event);
+ * });
+ *
+ */
+export class TokenRangeScanner<TModel> {
+  /**
+   * Creates a new TokenRangeScanner instance.
+   *
+   * @param newQuery - Factory returning a fresh query for each range
+   * @param partitionKeys - Partition key columns of the scanned table
+   */
+  constructor(
+    private newQuery: () => QueryBuilder<any, any>,
+    private partitionKeys: string[],
+  ) {}
+
+  /**
+   * Splits the full Murmur3 token ring into contiguous sub-ranges.
+   *
+   * @param splits - Number of sub-ranges to generate
+   * @returns Array of token ranges covering the whole ring
+   * @throws {Error} When splits is not a positive integer
+   *
+   * @example
+   *
+   * TokenRangeScanner.splitRing(2);
+   * // [
+   * //   { start: '-9223372036854775808', end: '-1' },
+   * //   { start: '-1', end: '9223372036854775807' }
+   * // ]
+   *
+   */
+  public static splitRing(splits: number): TokenRange[] {
+    if (!Number.isInteger(splits) || splits <= 0) {
+      throw new Error("Token range splits must be a positive integer.")
+    }
+
+    const step = (MAX_TOKEN - MIN_TOKEN) / BigInt(splits)
+    const ranges: TokenRange[] = []
+
+    for (let i = 0; i < splits; i++) {
+      const start = MIN_TOKEN + step * BigInt(i)
+      const end = i === splits - 1 ? MAX_TOKEN : start + step
+      ranges.push({ start: start.toString(), end: end.toString() })
+    }
+
+    return ranges
+  }
+
+  /**
+   * Scans every token range with bounded concurrency, invoking the callback for each row.
+   * Errors thrown by the callback abort the scan immediately and are not retried.
+   *
+   * @param options - Split count, concurrency, retry and fetch settings
+   * @param callback - Invoked with each hydrated result
+   * @returns Promise resolving to the number of rows processed
+   * @throws {Error} When a range still fails after all retries
+   *
+   * @example
+   *
+   * const count = await scanner.scan({ splits: 64, concurrency: 4 }, (row) => {
+   *   totals[row.status] = (totals[row.status] ?? 0) + 1;
+   * });
+   *
+   */
+  public async scan(options: ScanOptions, callback: (model: TModel) => void | Promise<void>): Promise<number> {
+    if (!this.partitionKeys.length) {
+      throw new Error("Cannot scan token ranges without partition keys.")
+    }
+
+    const ranges = TokenRangeScanner.splitRing(options.splits ?? 256)
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? 4, ranges.length))
+    let next = 0
+    let processed = 0
+    let failure: unknown = null
+
+    const worker = async () => {
+      while (next < ranges.length && failure === null) {
+        const range = ranges[next++]
+        try {
+          // Read the total only after the await so concurrent workers don't overwrite each other's counts
+          const count = await this.scanRange(range, options, callback)
+          processed += count
+        } catch (error) {
+          failure ??= error
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: concurrency }, worker))
+
+    if (failure !== null) {
+      throw failure
+    }
+
+    return processed
+  }
+
+  /**
+   * Scans a single token range, retrying it from the start on failure.
+   *
+   * @param range - Token range to scan
+   * @param options - Scan options
+   * @param callback - Invoked with each hydrated result
+   * @returns Promise resolving to the number of rows in the range
+   */
+  private async scanRange(
+    range: TokenRange,
+    options: ScanOptions,
+    callback: (model: TModel) => void | Promise<void>,
+  ): Promise<number> {
+    const retries = options.retries ?? 3
+    const retryDelay = options.retryDelay ?? 100
+
+    for (let attempt = 0; ; attempt++) {
+      let count = 0
+      let callbackFailed = false
+
+      try {
+        const rows = this.newQuery()
+          .whereTokenRange(this.partitionKeys, range.start, range.end)
+          .stream({ fetchSize: options.fetchSize })
+
+        for await (const row of rows) {
+          try {
+            await callback(row)
+          } catch (error) {
+            callbackFailed = true
+            throw error
+          }
+          count++
+        }
+
+        return count
+      } catch (error: any) {
+        if (callbackFailed) {
+          throw error
+        }
+        if (attempt >= retries) {
+          throw new Error(
+            `Token range (${range.start}, ${range.end}] failed after ${attempt + 1} attempts: ${error.message}`,
+          )
+        }
+        await new Promise((resolve) => setTimeout(resolve, retryDelay * (attempt + 1)))
+      }
+    }
+  }
+}
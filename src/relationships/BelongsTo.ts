@@ -1,6 +1,7 @@
 import type { InferAttributes, Model } from "@/model/Model"
 import type { QueryBuilder } from "@/query/QueryBuilder"
 import { Relationship } from "./Relationship"
+import type { RelationExistence } from "@/types"
 
 /**
  * Represents an inverse one-to-one or one-to-many relationship.
@@ -69,6 +70,68 @@ export class BelongsTo<T extends Model<any>, R extends Model<any>> extends Relat
     return await this.first()
   }
 
+  /**
+   * Adds constraints for eager loading the relationship on many parents.
+   * Loads the owner of every child with a single whereIn on the owner key.
+   *
+   * @param query - Query builder to add constraints to
+   * @param keys - Chunk of parent key values
+   * @returns Modified query builder with eager constraints
+   */
+  public addEagerConstraints(
+    query: QueryBuilder<R, InferAttributes<R>>,
+    keys: any[],
+  ): QueryBuilder<R, InferAttributes<R>> {
+    return query.whereIn(this.localKey, keys)
+  }
+
+  /**
+   * Matches eagerly loaded results to their parents.
+   * Each child receives its owner or null.
+   *
+   * @param models - Parent models
+   * @param results - Related models loaded for all parents
+   * @param relation - Attribute name to store the results under
+   */
+  public match(models: T[], results: R[], relation: string): void {
+    const dictionary = this.buildDictionary(results, this.localKey)
+    for (const model of models) {
+      const key = String((model as any).getAttribute(this.foreignKey))
+      ;(model as any).setAttribute(relation, dictionary.get(key)?.[0] ?? null)
+    }
+  }
+
+  /**
+   * Describes the owner lookup: the owner key on the related table
+   * matches the foreign key on the child table.
+   *
+   * @returns Relation existence descriptor
+   */
+  public getRelationExistence(): RelationExistence {
+    return { ...super.getRelationExistence(), foreignKey: this.localKey, localKey: this.foreignKey }
+  }
+
+  /**
+   * Collects the foreign key values of every child model.
+   *
+   * @protected
+   * @param models - Child models
+   * @returns Array of unique owner key values
+   */
+  protected getEagerKeys(models: T[]): any[] {
+    return this.uniqueKeys(models.map((model) => (model as any).getAttribute(this.foreignKey)))
+  }
+
+  /**
+   * Gets the owner key column, which addEagerConstraints() restricts to the children's foreign keys.
+   *
+   * @protected
+   * @returns Column name
+   */
+  protected getEagerKeyColumn(): string {
+    return this.localKey
+  }
+
   /**
    * Associates the parent model with a related model.
    * Sets the foreign key on the parent to point to the related model.
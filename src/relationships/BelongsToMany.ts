@@ -1,6 +1,8 @@
 import type { Model } from "@/model/Model"
 import { QueryBuilder } from "@/query/QueryBuilder"
+import type { EagerConstraint } from "@/query/QueryBuilder"
 import { Relationship } from "./Relationship"
+import type { RelationExistence } from "@/types"
 
 /**
  * Represents a many-to-many relationship between two models.
@@ -108,29 +110,165 @@ export class BelongsToMany<Parent extends Model<any>, Related extends Model<any>
     const connection = this.parent.getConnection()
 
     if (connection !== "default") {
-      const parentKey = this.getParentKey()
-
-      query
-        .select("*")
-        .addSelect(...this.getPivotColumns())
-        .join(
-          this.pivotTable,
-          `${this.getRelatedTable()}.${this.relatedPivotKey}`,
-          "=",
-          `${this.pivotTable}.${this.relatedPivotKey}`,
-        )
-        .where(`${this.pivotTable}.${this.parentPivotKey}`, parentKey)
+      this.addPivotJoin(query).where(`${this.pivotTable}.${this.parentPivotKey}`, this.getParentKey())
+      this.applyPivotWheres(query)
+    }
+
+    return query
+  }
+
+  /**
+   * Adds constraints for eager loading the relationship on many parents (SQL drivers).
+   * Joins the pivot table and filters it with a single whereIn on the parent pivot key.
+   *
+   * @param query - Query builder to add constraints to
+   * @param keys - Chunk of parent key values
+   * @returns Modified query builder with eager constraints
+   */
+  public addEagerConstraints(query: QueryBuilder<Related, any>, keys: any[]): QueryBuilder<Related, any> {
+    this.addPivotJoin(query).whereIn(`${this.pivotTable}.${this.parentPivotKey}`, keys)
+    this.applyPivotWheres(query)
+    return query
+  }
 
-      for (const where of this.pivotWheres) {
-        if (where.type === "in") {
-          query.whereIn(where.column, where.values ?? [])
-        } else {
-          query.where(where.column, where.operator, where.value)
+  /**
+   * Fetches the related models for many parents.
+   * SQL drivers use one joined query per key chunk; ScyllaDB reads the pivot rows
+   * for all parents first, then the related models, and returns one instance per
+   * pivot row so every parent keeps its own pivot data.
+   *
+   * @param models - Parent models to load the relationship for
+   * @param constraint - Optional callback applied to the related query
+   * @returns Promise resolving to related models with pivot data
+   *
+   * @example
+   * 
+   * const users = await User.query().with('roles').get();
+   * // Two queries on ScyllaDB (pivot + roles), one on SQL drivers
+   * 
+   */
+  public async getEager(models: Parent[], constraint?: EagerConstraint): Promise<Related[]> {
+    if (this.parent.getConnection() !== "default") {
+      return await super.getEager(models, constraint)
+    }
+
+    const pivotRows: any[] = []
+    for (const keys of this.chunkKeys(this.getEagerKeys(models))) {
+      const pivotQuery = this.newPivotQuery().whereIn(this.parentPivotKey, keys)
+      this.applyPivotWheres(pivotQuery)
+      pivotRows.push(...(await pivotQuery.get()))
+    }
+
+    const query = this.getQuery().allowFiltering()
+    if (constraint) {
+      constraint(query)
+    }
+
+    // A limit applies to each parent's related models, so limited loads run parent by parent
+    const limit = query.getLimit()
+    const pivotGroups = new Map<string, any[]>()
+    for (const pivot of pivotRows) {
+      const key = limit === undefined ? "" : String(pivot[this.parentPivotKey])
+      pivotGroups.set(key, [...(pivotGroups.get(key) ?? []), pivot])
+    }
+
+    const results: Related[] = []
+    for (const pivots of pivotGroups.values()) {
+      const relatedModels: Related[] = []
+      for (const keys of this.chunkKeys(this.uniqueKeys(pivots.map((row) => row[this.relatedPivotKey])))) {
+        const chunkQuery = query.clone().whereIn(this.relatedKey, keys)
+        if (limit !== undefined) {
+          if (relatedModels.length >= limit) break
+          chunkQuery.limit(limit - relatedModels.length)
         }
+        relatedModels.push(...(await chunkQuery.get()))
       }
+      results.push(...this.withPivots(relatedModels, pivots))
     }
 
-    return query
+    return results
+  }
+
+  /**
+   * Pairs related models with their pivot rows, one instance per pivot row,
+   * so every parent keeps its own pivot data. The related models' order is kept.
+   *
+   * @protected
+   * @param relatedModels - Related models
+   * @param pivotRows - Pivot rows linking them to parents
+   * @returns Related model instances with a `pivot` attribute
+   */
+  protected withPivots(relatedModels: Related[], pivotRows: any[]): Related[] {
+    const pivotsByRelated = new Map<string, any[]>()
+    for (const pivot of pivotRows) {
+      const key = String(pivot[this.relatedPivotKey])
+      pivotsByRelated.set(key, [...(pivotsByRelated.get(key) ?? []), pivot])
+    }
+
+    const results: Related[] = []
+    for (const related of relatedModels) {
+      for (const pivot of pivotsByRelated.get(String(related.getAttribute(this.relatedKey))) ?? []) {
+        const model = new this.relatedCtor()
+        model.setAttributes(related.getOriginal() as Record<string, any>)
+        model.setExists(true)
+        model.setOriginal(related.getOriginal() as Record<string, any>)
+        model.setAttribute("pivot", pivot)
+        results.push(model)
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Gets the parent pivot key column, which addEagerConstraints() restricts to the parent keys.
+   *
+   * @protected
+   * @returns Column name
+   */
+  protected getEagerKeyColumn(): string {
+    return `${this.pivotTable}.${this.parentPivotKey}`
+  }
+
+  /**
+   * Describes the many-to-many link through the pivot table:
+   * the pivot's parent key matches the parent and its related key joins the related table.
+   *
+   * @returns Relation existence descriptor
+   */
+  public getRelationExistence(): RelationExistence {
+    return {
+      ...super.getRelationExistence(),
+      foreignKey: this.parentPivotKey,
+      localKey: this.parentKey,
+      pivot: {
+        table: this.pivotTable,
+        relatedPivotKey: this.relatedPivotKey,
+        relatedKey: this.relatedKey,
+      },
+    }
+  }
+
+  /**
+   * Matches eagerly loaded related models to their parents using the pivot parent key.
+   * Each parent receives an array of related models (empty when it has none).
+   *
+   * @param models - Parent models
+   * @param results - Related models loaded for all parents
+   * @param relation - Attribute name to store the results under
+   */
+  public match(models: Parent[], results: Related[], relation: string): void {
+    const dictionary = new Map<string, Related[]>()
+    for (const result of results) {
+      const pivot = result.getAttribute("pivot")
+      const key = String(pivot ? pivot[this.parentPivotKey] : result.getAttribute(`pivot_${this.parentPivotKey}`))
+      dictionary.set(key, [...(dictionary.get(key) ?? []), result])
+    }
+
+    for (const model of models) {
+      const key = String(model.getAttribute(this.parentKey))
+      model.setAttribute(relation, dictionary.get(key) ?? [])
+    }
   }
 
   /**
@@ -158,14 +296,7 @@ export class BelongsToMany<Parent extends Model<any>, Related extends Model<any>
 
       // Get pivot records
       const pivotQuery = this.newPivotQuery()
-
-      for (const where of this.pivotWheres) {
-        if (where.type === "in") {
-          pivotQuery.whereIn(where.column, where.values ?? [])
-        } else {
-          pivotQuery.where(where.column, where.operator, where.value)
-        }
-      }
+      this.applyPivotWheres(pivotQuery)
 
       const allPivotRows = await pivotQuery.get()
 
@@ -177,7 +308,7 @@ export class BelongsToMany<Parent extends Model<any>, Related extends Model<any>
       if (!relatedIds.length) return []
 
       // Get related models
-      const relatedQuery = new QueryBuilder(this.getRelatedTable(), connection)
+      const relatedQuery = this.applyTransaction(new QueryBuilder(this.getRelatedTable(), connection))
         .setModel(this.relatedCtor)
         .whereIn(this.relatedKey as any, relatedIds)
 
@@ -458,6 +589,41 @@ export class BelongsToMany<Parent extends Model<any>, Related extends Model<any>
     return this
   }
 
+  /**
+   * Selects the related columns plus pivot columns and joins the pivot table.
+   *
+   * @protected
+   * @param query - Query builder for the related model
+   * @returns The query builder with the pivot join applied
+   */
+  protected addPivotJoin(query: QueryBuilder<Related, any>): QueryBuilder<Related, any> {
+    return query
+      .select("*")
+      .addSelect(...this.getPivotColumns())
+      .join(
+        this.pivotTable,
+        `${this.getRelatedTable()}.${this.relatedPivotKey}`,
+        "=",
+        `${this.pivotTable}.${this.relatedPivotKey}`,
+      )
+  }
+
+  /**
+   * Applies the constraints registered through wherePivot()/wherePivotIn().
+   *
+   * @protected
+   * @param query - Query builder to constrain
+   */
+  protected applyPivotWheres(query: QueryBuilder<any, any>): void {
+    for (const where of this.pivotWheres) {
+      if (where.type === "in") {
+        query.whereIn(where.column, where.values ?? [])
+      } else {
+        query.where(where.column, where.operator, where.value)
+      }
+    }
+  }
+
   /**
    * Gets the pivot table columns to select with proper aliasing.
    *
@@ -483,7 +649,7 @@ export class BelongsToMany<Parent extends Model<any>, Related extends Model<any>
    */
   protected newPivotQuery(): QueryBuilder<any, any> {
     const related = this.related()
-    return new QueryBuilder(this.pivotTable, related.getConnection()).allowFiltering()
+    return this.applyTransaction(new QueryBuilder(this.pivotTable, related.getConnection())).allowFiltering()
   }
 
   /**
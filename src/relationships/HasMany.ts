@@ -69,6 +69,37 @@ export class HasMany<T extends Model<any>, R extends Model<any>> extends Relatio
     return await this.get()
   }
 
+  /**
+   * Adds constraints for eager loading the relationship on many parents.
+   * Loads the children of every parent with a single whereIn on the foreign key.
+   *
+   * @param query - Query builder to add constraints to
+   * @param keys - Chunk of parent key values
+   * @returns Modified query builder with eager constraints
+   */
+  public addEagerConstraints(
+    query: QueryBuilder<R, InferAttributes<R>>,
+    keys: any[],
+  ): QueryBuilder<R, InferAttributes<R>> {
+    return query.whereIn(this.foreignKey, keys)
+  }
+
+  /**
+   * Matches eagerly loaded results to their parents.
+   * Each parent receives an array of its children (empty when it has none).
+   *
+   * @param models - Parent models
+   * @param results - Related models loaded for all parents
+   * @param relation - Attribute name to store the results under
+   */
+  public match(models: T[], results: R[], relation: string): void {
+    const dictionary = this.buildDictionary(results, this.foreignKey)
+    for (const model of models) {
+      const key = String((model as any).getAttribute(this.localKey))
+      ;(model as any).setAttribute(relation, dictionary.get(key) ?? [])
+    }
+  }
+
   /**
    * Creates a new related model and associates it with the parent.
    * Sets the foreign key on the new model to link it to the parent.
@@ -1,6 +1,7 @@
 import type { InferAttributes, Model } from "@/model/Model"
 import type { QueryBuilder } from "@/query/QueryBuilder"
 import { Relationship } from "./Relationship"
+import type { RelationExistence } from "@/types"
 
 /**
  * Represents a polymorphic one-to-one relationship.
@@ -108,6 +109,63 @@ export class MorphOne<T extends Model<any>, R extends Model<any>> extends Relati
     return await this.first()
   }
 
+  /**
+   * Adds constraints for eager loading the relationship on many parents.
+   * Filters by the parent morph type and a single whereIn on the morph ID.
+   *
+   * @param query - Query builder to add constraints to
+   * @param keys - Chunk of parent key values
+   * @returns Modified query builder with eager constraints
+   */
+  public addEagerConstraints(
+    query: QueryBuilder<R, InferAttributes<R>>,
+    keys: any[],
+  ): QueryBuilder<R, InferAttributes<R>> {
+    const morphType = this.parent.constructor.name.toLowerCase()
+    return query.whereIn(this.morphId, keys).where(this.morphType, morphType)
+  }
+
+  /**
+   * Gets the morph ID column, which addEagerConstraints() restricts to the parent keys.
+   *
+   * @protected
+   * @returns Column name
+   */
+  protected getEagerKeyColumn(): string {
+    return this.morphId
+  }
+
+  /**
+   * Describes the polymorphic link: the morph ID matches the parent key
+   * and the morph type is fixed to the parent model type.
+   *
+   * @returns Relation existence descriptor
+   */
+  public getRelationExistence(): RelationExistence {
+    const morphType = this.parent.constructor.name.toLowerCase()
+    return {
+      ...super.getRelationExistence(),
+      foreignKey: this.morphId,
+      wheres: [{ type: "basic", column: this.morphType, operator: "=", value: morphType, boolean: "and" }],
+    }
+  }
+
+  /**
+   * Matches eagerly loaded results to their parents.
+   * Each parent receives its first matching child or null.
+   *
+   * @param models - Parent models
+   * @param results - Related models loaded for all parents
+   * @param relation - Attribute name to store the results under
+   */
+  public match(models: T[], results: R[], relation: string): void {
+    const dictionary = this.buildDictionary(results, this.morphId)
+    for (const model of models) {
+      const key = String((model as any).getAttribute(this.localKey))
+      ;(model as any).setAttribute(relation, dictionary.get(key)?.[0] ?? null)
+    }
+  }
+
   /**
    * Creates a new related model with polymorphic association.
    * Sets both the morph type and morph ID to link to the parent.
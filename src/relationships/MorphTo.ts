@@ -1,6 +1,8 @@
 import type { InferAttributes, Model } from "@/model/Model"
 import { QueryBuilder } from "@/query/QueryBuilder"
+import type { EagerConstraint } from "@/query/QueryBuilder"
 import { Relationship } from "./Relationship"
+import type { RelationExistence } from "@/types"
 
 /**
  * Represents a polymorphic belongs-to relationship.
@@ -110,6 +112,114 @@ export class MorphTo<T extends Model<any>, R extends Model<any>> extends Relatio
     return null
   }
 
+  /**
+   * Adds constraints for eager loading one morph type.
+   * Each registered type is queried with a single whereIn on its owner key.
+   *
+   * @param query - Query builder for the registered model type
+   * @param keys - Chunk of morph ID values of that type
+   * @returns Modified query builder with eager constraints
+   */
+  public addEagerConstraints(
+    query: QueryBuilder<R, InferAttributes<R>>,
+    keys: any[],
+  ): QueryBuilder<R, InferAttributes<R>> {
+    return query.whereIn(this.localKey, keys)
+  }
+
+  /**
+   * Fetches the parents of many child models.
+   * Children are grouped by morph type so each registered model is queried once per key chunk.
+   *
+   * @param models - Child models (the ones with morph columns)
+   * @param constraint - Optional callback applied to every parent query
+   * @returns Promise resolving to the parent models of all types
+   * @throws {Error} When a morph type has no registered model
+   *
+   * @example
+   * 
+   * const comments = await Comment.query().with('commentable').get();
+   * // One query for users, one for posts
+   * 
+   */
+  public async getEager(models: T[], constraint?: EagerConstraint): Promise<R[]> {
+    const idsByType = new Map<string, any[]>()
+    for (const model of models) {
+      const morphType = (model as any).getAttribute(this.morphType)
+      if (morphType) {
+        idsByType.set(morphType, [...(idsByType.get(morphType) ?? []), (model as any).getAttribute(this.morphId)])
+      }
+    }
+
+    const results: R[] = []
+    for (const [morphType, ids] of idsByType) {
+      const ModelClass = this.models.get(morphType)
+      if (!ModelClass) {
+        throw new Error(`Model not registered for morph type: ${morphType}`)
+      }
+
+      for (const keys of this.chunkKeys(this.uniqueKeys(ids))) {
+        const instance = new ModelClass()
+        const query = this.applyTransaction(
+          new QueryBuilder<R, InferAttributes<R>>(instance.getTable(), instance.getConnection()).setModel(ModelClass),
+        )
+        this.addEagerConstraints(query, keys).allowFiltering()
+        this.constrainEagerQuery(query, constraint)
+        results.push(...(await query.get()))
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Matches eagerly loaded parents to their child models by morph type and ID.
+   * Children without a matching parent receive null.
+   *
+   * @param models - Child models
+   * @param results - Parent models of all registered types
+   * @param relation - Attribute name to store the parent under
+   */
+  public match(models: T[], results: R[], relation: string): void {
+    const dictionary = new Map<string, R>()
+    for (const result of results) {
+      for (const [morphType, ModelClass] of this.models) {
+        if (result instanceof ModelClass) {
+          dictionary.set(`${morphType}:${(result as any).getAttribute(this.localKey)}`, result)
+        }
+      }
+    }
+
+    for (const model of models) {
+      const key = `${(model as any).getAttribute(this.morphType)}:${(model as any).getAttribute(this.morphId)}`
+      ;(model as any).setAttribute(relation, dictionary.get(key) ?? null)
+    }
+  }
+
+  /**
+   * Gets the owner key column, which addEagerConstraints() restricts to the morph IDs.
+   *
+   * @protected
+   * @returns Column name
+   */
+  protected getEagerKeyColumn(): string {
+    return this.localKey
+  }
+
+  /**
+   * Existence queries are not supported for MorphTo because the parent
+   * may live in any of the registered tables. has(), whereHas(), doesntHave()
+   * and withCount() call this when the clause is added, so they fail before any query runs.
+   *
+   * @throws {Error} Always
+   */
+  public getRelationExistence(): RelationExistence {
+    throw new Error(
+      `has(), whereHas(), doesntHave() and withCount() are not supported on MorphTo relationships ` +
+        `(${this.morphType}/${this.morphId}); query from the owning models' morphMany()/morphOne() side instead.`,
+    )
+  }
+
   /**
    * Registers a model class for a specific morph type.
    * Required to map morph type strings to actual model classes.
@@ -1,5 +1,8 @@
 import type { InferAttributes, Model } from "../model/Model"
 import { QueryBuilder } from "../query/QueryBuilder"
+import type { EagerConstraint, EagerLoadRelations } from "../query/QueryBuilder"
+import type { RelationExistence } from "@/types"
+import type { Transaction } from "@/connection/Transaction"
 
 /**
  * Abstract base class for all relationship types in the ORM.
@@ -26,10 +29,15 @@ import { QueryBuilder } from "../query/QueryBuilder"
  * 
  */
 export abstract class Relationship<T extends Model<any> = Model<any>, R extends Model<any> = Model<any>> {
+  /** Maximum number of keys placed in a single IN clause while eager loading */
+  public static eagerChunkSize = 100
+
   protected parent: T
   protected relatedCtor: new () => R
   protected foreignKey: string
   protected localKey: string
+  /** Transaction the relationship's queries run in, set by transacting() */
+  protected trx?: Transaction
 
   /**
    * Creates a new relationship instance.
@@ -71,7 +79,39 @@ export abstract class Relationship<T extends Model<any> = Model<any>, R extends
    */
   protected getQuery(): QueryBuilder<R, InferAttributes<R>> {
     const instance = this.related()
-    return new QueryBuilder(instance.getTable(), instance.getConnection()).setModel(this.relatedCtor)
+    return this.applyTransaction(
+      new QueryBuilder(instance.getTable(), instance.getConnection()).setModel(this.relatedCtor),
+    )
+  }
+
+  /**
+   * Runs the relationship's queries inside a transaction, so eager loads
+   * from a transactional query see the rows it has written.
+   *
+   * @param trx - Transaction from `Connection.transaction()`
+   * @returns Relationship instance for method chaining
+   *
+   * @example
+   * 
+   * await connection.transaction(async (trx) => {
+   *   const posts = await user.postsRelation().transacting(trx).get();
+   * });
+   * 
+   */
+  public transacting(trx: Transaction): this {
+    this.trx = trx
+    return this
+  }
+
+  /**
+   * Puts a query in the relationship's transaction, if any.
+   *
+   * @protected
+   * @param query - Query built by the relationship
+   * @returns The same query
+   */
+  protected applyTransaction<Q extends QueryBuilder<any, any>>(query: Q): Q {
+    return this.trx ? query.transacting(this.trx) : query
   }
 
   /**
@@ -114,6 +154,196 @@ export abstract class Relationship<T extends Model<any> = Model<any>, R extends
    */
   public abstract getResults(): Promise<R | R[] | null>
 
+  /**
+   * Adds constraints for eager loading the relationship on a set of parents.
+   * Must be implemented by each relationship type, typically as a single whereIn.
+   *
+   * @abstract
+   * @param query - Query builder to add constraints to
+   * @param keys - Chunk of parent key values collected by getEagerKeys()
+   * @returns Modified query builder with eager constraints
+   *
+   * @example
+   * 
+   * // In HasMany relationship
+   * addEagerConstraints(query, keys) {
+   *   return query.whereIn(this.foreignKey, keys);
+   * }
+   * 
+   */
+  public abstract addEagerConstraints(
+    query: QueryBuilder<R, InferAttributes<R>>,
+    keys: any[],
+  ): QueryBuilder<R, InferAttributes<R>>
+
+  /**
+   * Distributes eagerly loaded results back onto their parent models.
+   * Must be implemented by each relationship type.
+   *
+   * @abstract
+   * @param models - Parent models the relationship is loaded for
+   * @param results - All related models fetched by getEager()
+   * @param relation - Attribute name the results are stored under
+   *
+   * @example
+   * 
+   * // In HasOne relationship
+   * match(models, results, relation) {
+   *   const dictionary = this.buildDictionary(results, this.foreignKey);
+   *   for (const model of models) {
+   *     model.setAttribute(relation, dictionary.get(String(model.getAttribute(this.localKey)))?.[0] ?? null);
+   *   }
+   * }
+   * 
+   */
+  public abstract match(models: T[], results: R[], relation: string): void
+
+  /**
+   * Eager loads the relationship for many parents at once and matches
+   * the results back onto them, avoiding one query per parent.
+   *
+   * @param models - Parent models to load the relationship for
+   * @param relation - Attribute name the results are stored under
+   * @param constraint - Optional callback to filter, order or limit the related query
+   * @returns Promise resolving to all related models that were loaded
+   *
+   * @example
+   * 
+   * const users = await User.query().get();
+   * await users[0].postsRelation().eagerLoad(users, 'posts');
+   *
+   * // Latest three published posts per user
+   * await users[0].postsRelation().eagerLoad(users, 'posts', (q) =>
+   *   q.where('published', true).orderBy('created_at', 'desc').limit(3)
+   * );
+   * 
+   */
+  public async eagerLoad(models: T[], relation: string, constraint?: EagerConstraint): Promise<R[]> {
+    const results = await this.getEager(models, constraint)
+    this.match(models, results, relation)
+    return results
+  }
+
+  /**
+   * Fetches the related models for a set of parents.
+   * Parent keys are split into chunks of `eagerChunkSize` so a single
+   * IN clause never exceeds the database's limit.
+   *
+   * @param models - Parent models to load the relationship for
+   * @param constraint - Optional callback applied to every chunk query
+   * @returns Promise resolving to all related models
+   */
+  public async getEager(models: T[], constraint?: EagerConstraint): Promise<R[]> {
+    const results: R[] = []
+
+    for (const keys of this.chunkKeys(this.getEagerKeys(models))) {
+      const query = this.getQuery()
+      this.addEagerConstraints(query, keys).allowFiltering()
+      this.constrainEagerQuery(query, constraint)
+      results.push(...(await query.get()))
+    }
+
+    return results
+  }
+
+  /**
+   * Applies an eager constraint callback to a related query.
+   * A limit set by the callback becomes a per-parent limit on the eager key column,
+   * because it must apply to each parent rather than to the whole batch.
+   *
+   * @protected
+   * @param query - Related query to constrain
+   * @param constraint - Optional constraint callback
+   */
+  protected constrainEagerQuery(query: QueryBuilder<any, any>, constraint?: EagerConstraint): void {
+    if (!constraint) return
+
+    constraint(query)
+
+    const limit = query.getLimit()
+    if (limit !== undefined) {
+      query.limitPerGroup(this.getEagerKeyColumn(), limit)
+    }
+  }
+
+  /**
+   * Gets the column of the related query that addEagerConstraints() restricts to the parent keys.
+   * Defaults to the foreign key.
+   *
+   * @protected
+   * @returns Column name
+   */
+  protected getEagerKeyColumn(): string {
+    return this.foreignKey
+  }
+
+  /**
+   * Collects the distinct, non-null key values used to constrain an eager load.
+   * Defaults to the local key of each parent.
+   *
+   * @protected
+   * @param models - Parent models
+   * @returns Array of unique key values
+   */
+  protected getEagerKeys(models: T[]): any[] {
+    return this.uniqueKeys(models.map((model) => (model as any).getAttribute(this.localKey)))
+  }
+
+  /**
+   * Removes null/undefined and duplicate values from a list of keys.
+   *
+   * @protected
+   * @param keys - Raw key values
+   * @returns Array of unique key values
+   */
+  protected uniqueKeys(keys: any[]): any[] {
+    const seen = new Map<string, any>()
+    for (const key of keys) {
+      if (key !== null && key !== undefined && !seen.has(String(key))) {
+        seen.set(String(key), key)
+      }
+    }
+    return [...seen.values()]
+  }
+
+  /**
+   * Splits keys into chunks of at most `eagerChunkSize` values.
+   *
+   * @protected
+   * @param keys - Key values to split
+   * @returns Array of key chunks
+   */
+  protected chunkKeys(keys: any[]): any[][] {
+    const size = (this.constructor as typeof Relationship).eagerChunkSize
+    const chunks: any[][] = []
+    for (let i = 0; i < keys.length; i += size) {
+      chunks.push(keys.slice(i, i + size))
+    }
+    return chunks
+  }
+
+  /**
+   * Groups models by the string value of one of their attributes.
+   *
+   * @protected
+   * @param results - Models to group
+   * @param key - Attribute to group by
+   * @returns Map of key value to models
+   */
+  protected buildDictionary<M extends Model<any>>(results: M[], key: string): Map<string, M[]> {
+    const dictionary = new Map<string, M[]>()
+    for (const result of results) {
+      const value = String((result as any).getAttribute(key))
+      const group = dictionary.get(value)
+      if (group) {
+        group.push(result)
+      } else {
+        dictionary.set(value, [result])
+      }
+    }
+    return dictionary
+  }
+
   /**
    * Executes the relationship query and returns all matching records.
    * Applies relationship constraints and enables filtering for ScyllaDB compatibility.
@@ -173,7 +403,7 @@ export abstract class Relationship<T extends Model<any> = Model<any>, R extends
    * Specifies relationships to eager load with the query results.
    * Enables loading nested relationships through the relationship chain.
    *
-   * @param relations - Relationship names to eager load
+   * @param relations - Relationship names, or objects of relationship names to constraint callbacks
    * @returns QueryBuilder instance with eager loading configured
    *
    * @example
@@ -183,12 +413,46 @@ export abstract class Relationship<T extends Model<any> = Model<any>, R extends
    *   .get();
    * 
    */
-  public with(...relations: string[]): QueryBuilder<R, InferAttributes<R>> {
+  public with(...relations: Array<string | EagerLoadRelations>): QueryBuilder<R, InferAttributes<R>> {
     const query = this.getQuery()
     this.addConstraints(query).allowFiltering()
     return query.with(...relations)
   }
 
+  /**
+   * Describes how related rows link to the parent table.
+   * Used to compile `has()`, `whereHas()` and `withCount()` queries.
+   * Defaults to the related table's foreign key matching the parent's local key.
+   *
+   * @returns Relation existence descriptor
+   *
+   * @example
+   * 
+   * user.postsRelation().getRelationExistence();
+   * // { table: 'posts', foreignKey: 'user_id', localKey: 'id', wheres: [] }
+   * 
+   */
+  public getRelationExistence(): RelationExistence {
+    const related = this.related()
+    return {
+      table: related.getTable(),
+      connection: related.getConnection(),
+      foreignKey: this.foreignKey,
+      localKey: this.localKey,
+      wheres: [],
+    }
+  }
+
+  /**
+   * Creates a fresh query for the related model without relationship constraints.
+   * Used to collect user constraints for existence queries.
+   *
+   * @returns QueryBuilder instance for the related model
+   */
+  public newRelatedQuery(): QueryBuilder<R, InferAttributes<R>> {
+    return this.getQuery()
+  }
+
   /**
    * Gets the parent model's key value for the relationship.
    * Used to build relationship constraints.
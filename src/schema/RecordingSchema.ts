@@ -0,0 +1,45 @@
+import { Schema } from "./Schema"
+
+/**
+ * Schema that records the statements it would run instead of executing them.
+ * Reads such as `hasTable()` or `describeTable()` still query the database, so
+ * migrations that branch on the current schema produce the statements they would really run.
+ * Used by `MigrationManager` for pretend runs.
+ *
+ * @example
+ *
+ * const schema = new RecordingSchema(connection.getDriver());
+ * await new CreateUsersTable().up(schema);
+ *
+ * console.log(schema.getStatements().join(";\n"));
+ * // CREATE TABLE IF NOT EXISTS users (...)
+ *
+ */
+export class RecordingSchema extends Schema {
+  private statements: string[] = []
+
+  /**
+   * Gets the statements recorded so far, in execution order.
+   * Statements recorded with bound parameters end with a `-- bindings:` comment listing them.
+   *
+   * @returns Array of SQL/CQL statements
+   */
+  public getStatements(): string[] {
+    return [...this.statements]
+  }
+
+  /**
+   * Records a statement instead of running it.
+   *
+   * @param sql - Compiled SQL/CQL statement
+   * @param params - Optional query parameters
+   * @returns Promise resolving to an empty result
+   */
+  protected async execute(sql: string, params?: any[]): Promise<any> {
+    const statement = sql.trim()
+    this.statements.push(
+      params && params.length > 0 ? `${statement} -- bindings: ${JSON.stringify(params)}` : statement,
+    )
+    return { rows: [], rowCount: 0 }
+  }
+}
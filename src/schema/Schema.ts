@@ -1,4 +1,6 @@
 import type { DatabaseDriver } from "@/drivers/DatabaseDriver"
+import { ScyllaDBGrammar } from "@/drivers/grammars/ScyllaDBGrammar"
+import type { MaterializedViewDefinition, TableDefinition, UserTypeDefinition } from "@/types/index"
 import { TableBuilder } from "./TableBuilder"
 import { MaterializedViewBuilder } from "./MaterializedViewBuilder"
 import { PrimitiveScyllaType, UserDefinedTypeBuilder } from "./UserDefinedTypeBuilder"
@@ -30,7 +32,7 @@ import { UserDefinedAggregateBuilder } from "./UserDefinedAggregateBuilder"
  * 
  */
 export class Schema {
-  private driver: DatabaseDriver
+  protected driver: DatabaseDriver
 
   /**
    * Creates a new Schema instance.
@@ -74,7 +76,7 @@ export class Schema {
     const grammar = this.driver.getGrammar()
 
     const sql = grammar.compileCreateTable(definition)
-    await this.driver.query(sql) 
+    await this.execute(sql) 
   }
 
   /**
@@ -124,7 +126,7 @@ export class Schema {
     const grammar = this.driver.getGrammar()
 
     const sql = grammar.compileAlterTable(definition)
-    await this.driver.query(sql) 
+    await this.execute(sql) 
   }
 
   /**
@@ -141,7 +143,7 @@ export class Schema {
   public async dropTable(table: string): Promise<void> {
     const grammar = this.driver.getGrammar()
     const sql = `DROP TABLE ${grammar.wrapTable(table)}`
-    await this.driver.query(sql)
+    await this.execute(sql)
   }
 
   /**
@@ -158,9 +160,9 @@ export class Schema {
   public async dropTableIfExists(table: string): Promise<void> {
     const grammar = this.driver.getGrammar()
 
-    if (this.driver.constructor.name === "ScyllaDBDriver") {
+    if (this.isScylla()) {
       const sql = `DROP TABLE IF EXISTS ${grammar.wrapTable(table)}`
-      await this.driver.query(sql)
+      await this.execute(sql)
     } else {
       const exists = await this.hasTable(table)
       if (exists) {
@@ -183,7 +185,7 @@ export class Schema {
   public async truncateTable(tableName: string): Promise<void> {
     const grammar = this.driver.getGrammar()
     const sql = `TRUNCATE ${grammar.wrapTable(tableName)}`
-    await this.driver.query(sql)
+    await this.execute(sql)
   }
 
   /**
@@ -208,13 +210,13 @@ export class Schema {
     baseTable: string,
     callback: (view: MaterializedViewBuilder) => void,
   ): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("Materialized views are only supported in ScyllaDB")
     }
     const builder = new MaterializedViewBuilder(viewName, baseTable)
     callback(builder)
     const sql =  builder.toSQL()
-    await this.driver.query(sql)
+    await this.execute(sql)
   }
 
   /**
@@ -229,13 +231,13 @@ export class Schema {
    * 
    */
   public async dropMaterializedView(viewName: string): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("Materialized views are only supported in ScyllaDB")
     }
     // const builder = new MaterializedViewBuilder(viewName, "")
     // await builder.drop()
     const cql = `DROP MATERIALIZED VIEW IF EXISTS ${viewName}`
-    await this.driver.query(cql)
+    await this.execute(cql)
   }
 
   /**
@@ -256,13 +258,13 @@ export class Schema {
    * 
    */
   public async createType(typeName: string, callback: (type: UserDefinedTypeBuilder) => void): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined types are only supported in ScyllaDB")
     }
     const builder = new UserDefinedTypeBuilder(typeName)
     callback(builder)
     const sql =  builder.toSQL()
-    await this.driver.query(sql)
+    await this.execute(sql)
   }
 
   /**
@@ -277,13 +279,13 @@ export class Schema {
    * 
    */
   public async dropType(typeName: string): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined types are only supported in ScyllaDB")
     }
     // const builder = new UserDefinedTypeBuilder(typeName)
     // await builder.drop()
     const cql = `DROP TYPE IF EXISTS ${typeName}`
-    await this.driver.query(cql)
+    await this.execute(cql)
   }
 
   /**
@@ -310,13 +312,13 @@ export class Schema {
     functionName: string,
     callback: (func: UserDefinedFunctionBuilder) => void,
   ): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined functions are only supported in ScyllaDB");
     }
     const builder = new UserDefinedFunctionBuilder(functionName)
     callback(builder)
     const sql =  builder.toSQL()
-    await this.driver.query(sql)
+    await this.execute(sql)
   }
 
   /**
@@ -331,7 +333,7 @@ export class Schema {
    * 
    */
   public async dropFunction(functionName: string, parameterTypes: PrimitiveScyllaType[]): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined functions are only supported in ScyllaDB");
     }
     // const builder = new UserDefinedFunctionBuilder(functionName)
@@ -342,7 +344,7 @@ export class Schema {
 
     const paramStr = parameterTypes.join(", ");
     const sql = `DROP FUNCTION IF EXISTS ${functionName}(${paramStr})`;
-    await this.driver.query(sql);
+    await this.execute(sql);
   }
 
   /**
@@ -367,13 +369,13 @@ export class Schema {
     aggregateName: string,
     callback: (agg: UserDefinedAggregateBuilder) => void,
   ): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined aggregates are only supported in ScyllaDB");
     }
     const builder = new UserDefinedAggregateBuilder(aggregateName)
     callback(builder)
     const sql = builder.toSQL();
-    await this.driver.query(sql);
+    await this.execute(sql);
   }
 
   /**
@@ -388,7 +390,7 @@ export class Schema {
    * 
    */
   public async dropAggregate(aggregateName: string, parameterTypes: PrimitiveScyllaType[]): Promise<void> {
-    if (this.driver.constructor.name !== "ScyllaDBDriver") {
+    if (!this.isScylla()) {
       throw new Error("User-defined aggregates are only supported in ScyllaDB");
     }
     if (parameterTypes.length === 0) {
@@ -398,7 +400,7 @@ export class Schema {
     const builder = new UserDefinedAggregateBuilder(aggregateName).withParameters(parameterTypes);
     const sql = builder.dropSQL();
 
-    await this.driver.query(sql);
+    await this.execute(sql);
   }
 
   /**
@@ -456,12 +458,83 @@ export class Schema {
    * });
    * 
    */
-  // public async getColumnListing(tableName: string): Promise<Array<{ name: string; type: string; nullable: boolean }>> {
-  //   const grammar = this.driver.getGrammar()
-  //   const sql = grammar.compileColumnListing(tableName)
-  //   const result = await this.driver.query(sql)
-  //   return result.rows
-  // }
+  public async getColumnListing(tableName: string): Promise<Array<{ name: string; type: string; nullable: boolean }>> {
+    const definition = await this.describeTable(tableName)
+    return definition.columns.map((column) => ({
+      name: column.name,
+      type: column.type,
+      nullable: column.nullable !== false,
+    }))
+  }
+
+  /**
+   * Reads the structure of an existing table from the database catalog:
+   * `system_schema` on ScyllaDB, `information_schema` on PostgreSQL and MySQL,
+   * `PRAGMA` on SQLite and the collection validator and indexes on MongoDB.
+   * Column types are the database's own type names.
+   *
+   * @param tableName - Name of the table
+   * @returns Promise resolving to the table definition
+   *
+   * @throws {Error} When the table does not exist
+   *
+   * @example
+   * 
+   * const events = await schema.describeTable('events');
+   * console.log(events.partitionKeys);   // ['device_id', 'day']
+   * console.log(events.clusteringOrder); // { ts: 'DESC' }
+   * console.log(events.columns.find(c => c.name === 'payload')?.type); // 'frozen<payload_type>'
+   * 
+   */
+  public async describeTable(tableName: string): Promise<TableDefinition> {
+    return await this.driver.describeTable(tableName)
+  }
+
+  /**
+   * Lists the tables of the current keyspace, schema or database.
+   *
+   * @returns Promise resolving to the table names
+   *
+   * @example
+   * 
+   * const tables = await schema.listTables(); // ['events', 'users']
+   * 
+   */
+  public async listTables(): Promise<string[]> {
+    return await this.driver.listTables()
+  }
+
+  /**
+   * Lists the user-defined types (composite types on PostgreSQL).
+   * Drivers without user-defined types return an empty list.
+   *
+   * @returns Promise resolving to the types with their fields
+   *
+   * @example
+   * 
+   * const types = await schema.listTypes();
+   * // [{ name: 'address', fields: [{ name: 'street', type: 'text' }, ...] }]
+   * 
+   */
+  public async listTypes(): Promise<UserTypeDefinition[]> {
+    return await this.driver.listTypes()
+  }
+
+  /**
+   * Lists the materialized views.
+   * Drivers without materialized views return an empty list.
+   *
+   * @returns Promise resolving to the views
+   *
+   * @example
+   * 
+   * const views = await schema.listMaterializedViews();
+   * // [{ name: 'users_by_email', baseTable: 'users', whereClause: 'email IS NOT NULL AND id IS NOT NULL' }]
+   * 
+   */
+  public async listMaterializedViews(): Promise<MaterializedViewDefinition[]> {
+    return await this.driver.listMaterializedViews()
+  }
 
   /**
    * Executes a raw schema query.
@@ -479,6 +552,29 @@ export class Schema {
    * 
    */
   public async raw(sql: string, params?: any[]): Promise<any> {
+    return await this.execute(sql, params)
+  }
+
+  /**
+   * Runs a statement that changes the schema.
+   * Every DDL statement built by this class goes through here; reads such as
+   * `hasTable()` query the driver directly.
+   *
+   * @param sql - Compiled SQL/CQL statement
+   * @param params - Optional query parameters
+   * @returns Promise resolving to query result
+   */
+  protected async execute(sql: string, params?: any[]): Promise<any> {
     return await this.driver.query(sql, params)
   }
+
+  /**
+   * Checks whether the schema targets ScyllaDB.
+   * Compares the grammar rather than the driver's class name, which minified builds rename.
+   *
+   * @returns True on ScyllaDB
+   */
+  private isScylla(): boolean {
+    return this.driver.getGrammar() instanceof ScyllaDBGrammar
+  }
 }
@@ -0,0 +1,426 @@
+import type { DatabaseDriver } from "@/drivers/DatabaseDriver"
+import { ScyllaDBGrammar } from "@/drivers/grammars/ScyllaDBGrammar"
+import type { ColumnDefinition, TableDefinition, TableDiff } from "@/types/index"
+
+/** Column types that map to a TableBuilder method of the same name */
+const SIMPLE_COLUMN_TYPES = [
+  "text",
+  "integer",
+  "bigInteger",
+  "smallInteger",
+  "tinyInteger",
+  "float",
+  "double",
+  "boolean",
+  "date",
+  "time",
+  "dateTime",
+  "timestamp",
+  "json",
+  "binary",
+  "blob",
+  "uuid",
+  "counter",
+  "varint",
+  "duration",
+  "inet",
+]
+
+/**
+ * Compares desired table definitions against the live schema and generates the migration
+ * that brings the database in line. Desired definitions come from `Model.toTableDefinition()`
+ * or from a `TableBuilder` (a schema file); the live side is read with `describeTable()`.
+ *
+ * Missing tables become `createTable()` calls and missing columns `alterTable()` calls.
+ * Primary key changes cannot be applied to an existing table, so they are flagged as
+ * requiring a table copy and generate a new table instead. Columns that exist only in
+ * the database are never dropped automatically: the generated statements are commented out.
+ *
+ * @example
+ *
+ * const differ = new SchemaDiffer(connection.getDriver());
+ *
+ * const source = await differ.generateMigration('SyncModelTables', [
+ *   User.toTableDefinition(),
+ *   Reading.toTableDefinition(),
+ * ]);
+ *
+ * if (source) {
+ *   writeFileSync('src/migrations/2024_06_01_120000_sync_model_tables.ts', source);
+ * }
+ *
+ */
+export class SchemaDiffer {
+  private driver: DatabaseDriver
+
+  /**
+   * Creates a new SchemaDiffer instance.
+   *
+   * @param driver - Driver of the database to compare against
+   */
+  constructor(driver: DatabaseDriver) {
+    this.driver = driver
+  }
+
+  /**
+   * Compares a desired table definition with the table in the database.
+   * Column types are compared on ScyllaDB only, where the grammar's CQL types match
+   * the types reported by `describeTable()`. Clustering order is compared for the
+   * clustering columns the desired definition gives an order for.
+   *
+   * @param desired - Table definition the database should match
+   * @returns Promise resolving to the differences
+   *
+   * @example
+   *
+   * const diff = await differ.diff(Reading.toTableDefinition());
+   * if (diff.requiresCopy) {
+   *   console.warn(`readings needs a table copy: ${diff.copyReasons.join('; ')}`);
+   * }
+   *
+   */
+  public async diff(desired: TableDefinition): Promise<TableDiff> {
+    const diff: TableDiff = {
+      table: desired.name,
+      create: false,
+      addedColumns: [],
+      droppedColumns: [],
+      changedColumns: [],
+      requiresCopy: false,
+      copyReasons: [],
+    }
+
+    const tables = await this.driver.listTables()
+    if (!tables.includes(desired.name)) {
+      return { ...diff, create: true, addedColumns: desired.columns }
+    }
+
+    const live = await this.driver.describeTable(desired.name)
+    const liveNames = live.columns.map((column) => column.name)
+    const desiredNames = desired.columns.map((column) => column.name)
+
+    diff.addedColumns = desired.columns.filter((column) => !liveNames.includes(column.name))
+    diff.droppedColumns = liveNames.filter((name) => !desiredNames.includes(name))
+
+    const grammar = this.driver.getGrammar()
+    if (grammar instanceof ScyllaDBGrammar) {
+      for (const column of desired.columns) {
+        const current = live.columns.find((c) => c.name === column.name)
+        const type = grammar.getColumnType(column)
+        if (current && this.normalizeType(current.type) !== this.normalizeType(type)) {
+          diff.changedColumns.push({ name: column.name, from: current.type, to: type })
+        }
+      }
+    }
+
+    diff.copyReasons = this.primaryKeyChanges(desired, live)
+    const liveKey = Object.values(this.primaryKeyOf(live)).flat()
+    for (const change of diff.changedColumns) {
+      if (liveKey.includes(change.name)) {
+        diff.copyReasons.push(`primary key column '${change.name}' changes type from ${change.from} to ${change.to}`)
+      }
+    }
+    diff.requiresCopy = diff.copyReasons.length > 0
+
+    return diff
+  }
+
+  /**
+   * Generates the source of a Migration class that applies the differences of the given tables.
+   *
+   * @param className - Name of the generated migration class
+   * @param desired - Table definitions the database should match
+   * @returns Promise resolving to the TypeScript source, or null when the schema is up to date
+   *
+   * @example
+   *
+   * const source = await differ.generateMigration('AddStatusToDevices', [Device.toTableDefinition()]);
+   * // import { Migration, Schema } from 'scyllinx';
+   * //
+   * // export class AddStatusToDevices extends Migration {
+   * //   async up(schema: Schema): Promise<void> {
+   * //     await schema.alterTable('devices', (table) => {
+   * //       table.text('status');
+   * //     });
+   * //   }
+   * //   ...
+   *
+   */
+  public async generateMigration(className: string, desired: TableDefinition[]): Promise<string | null> {
+    const up: string[] = []
+    const down: string[] = []
+
+    for (const definition of desired) {
+      const diff = await this.diff(definition)
+      if (!this.hasChanges(diff)) {
+        continue
+      }
+
+      const [tableUp, tableDown] = this.renderTable(definition, diff)
+      up.push(...(up.length > 0 ? [""] : []), ...tableUp)
+      down.unshift(...tableDown, ...(down.length > 0 ? [""] : []))
+    }
+
+    if (up.length === 0) {
+      return null
+    }
+
+    const body = (lines: string[]) => lines.map((line) => (line ? `    ${line}` : "")).join("\n")
+
+    return [
+      "import { Migration, Schema } from 'scyllinx';",
+      "",
+      `export class ${className} extends Migration {`,
+      "  async up(schema: Schema): Promise<void> {",
+      body(up),
+      "  }",
+      "",
+      "  async down(schema: Schema): Promise<void> {",
+      body(down),
+      "  }",
+      "}",
+      "",
+    ].join("\n")
+  }
+
+  /**
+   * Checks whether a diff needs a migration.
+   *
+   * @private
+   * @param diff - Table differences
+   * @returns True when anything differs
+   */
+  private hasChanges(diff: TableDiff): boolean {
+    return (
+      diff.create ||
+      diff.requiresCopy ||
+      diff.addedColumns.length > 0 ||
+      diff.droppedColumns.length > 0 ||
+      diff.changedColumns.length > 0
+    )
+  }
+
+  /**
+   * Renders the up and down statements of one table.
+   *
+   * @private
+   * @param definition - Desired table definition
+   * @param diff - Differences found for the table
+   * @returns Lines of `up()` and lines of `down()`
+   */
+  private renderTable(definition: TableDefinition, diff: TableDiff): [string[], string[]] {
+    const table = definition.name
+
+    if (diff.create) {
+      return [this.renderCreate(table, definition), [`await schema.dropTable(${this.quote(table)});`]]
+    }
+
+    if (diff.requiresCopy) {
+      const copy = `${table}_new`
+      return [
+        [
+          `// '${table}' needs a table copy: ${diff.copyReasons.join("; ")}.`,
+          `// The primary key of an existing table cannot be changed in place, so this creates '${copy}'`,
+          `// with the new layout. Copy the rows over (for example with Model.scanAll()), point the`,
+          `// model at '${copy}', then drop '${table}' in a later migration.`,
+          ...this.renderCreate(copy, definition),
+        ],
+        [`await schema.dropTable(${this.quote(copy)});`],
+      ]
+    }
+
+    const up: string[] = []
+    const down: string[] = []
+
+    for (const change of diff.changedColumns) {
+      up.push(
+        `// Column '${change.name}' changes type from ${change.from} to ${change.to}, which cannot be done in place:`,
+        `// drop and re-add it, or copy the table.`,
+      )
+    }
+
+    for (const column of diff.addedColumns) {
+      up.push(
+        `await schema.alterTable(${this.quote(table)}, (table) => {`,
+        `  ${this.renderColumn(column)}`,
+        "});",
+      )
+      down.unshift(`await schema.raw(${this.quote(this.dropColumnStatement(table, column.name))});`)
+    }
+
+    if (diff.droppedColumns.length > 0) {
+      up.push(`// Columns of '${table}' missing from the definition; uncomment to drop them:`)
+      for (const name of diff.droppedColumns) {
+        up.push(`// await schema.raw(${this.quote(this.dropColumnStatement(table, name))});`)
+      }
+    }
+
+    return [up, down]
+  }
+
+  /**
+   * Renders a `createTable()` call for a definition.
+   *
+   * @private
+   * @param table - Name of the table to create
+   * @param definition - Table definition
+   * @returns Source lines
+   */
+  private renderCreate(table: string, definition: TableDefinition): string[] {
+    const lines = definition.columns.map((column) => `  ${this.renderColumn(column)}`)
+
+    if (definition.partitionKeys.length > 0) {
+      lines.push(`  table.partitionKey(${definition.partitionKeys.map((key) => this.quote(key)).join(", ")});`)
+    }
+    if (definition.clusteringKeys.length > 0) {
+      lines.push(`  table.clusteringKey(${definition.clusteringKeys.map((key) => this.quote(key)).join(", ")});`)
+    }
+    for (const [column, direction] of Object.entries(definition.clusteringOrder ?? {})) {
+      lines.push(`  table.clusteringOrder(${this.quote(column)}, ${this.quote(direction)});`)
+    }
+
+    return [`await schema.createTable(${this.quote(table)}, (table) => {`, ...lines, "});"]
+  }
+
+  /**
+   * Renders the TableBuilder call that declares a column.
+   *
+   * @private
+   * @param column - Column definition
+   * @returns Source of the call, ending with a semicolon
+   */
+  private renderColumn(column: ColumnDefinition): string {
+    const name = this.quote(column.name)
+    const frozen = column.frozen ? ", { frozen: true }" : ""
+
+    if (column.type === "integer" && column.autoIncrement && column.primary) {
+      return `table.id(${name});`
+    }
+
+    let call: string
+    switch (column.type) {
+      case "string":
+        call = column.length && column.length !== 255 ? `string(${name}, ${column.length})` : `string(${name})`
+        break
+      case "decimal":
+        call = `decimal(${name}, ${column.precision ?? 8}, ${column.scale ?? 2})`
+        break
+      case "enum":
+        call = `enum(${name}, [${(column.allowed ?? []).map((value) => this.quote(value)).join(", ")}])`
+        break
+      case "set":
+      case "list":
+        call = `${column.type}(${name}, ${this.quote(column.elementType ?? "text")}${frozen})`
+        break
+      case "map":
+        call = `map(${name}, ${this.quote(column.keyType ?? "text")}, ${this.quote(column.valueType ?? "text")}${frozen})`
+        break
+      case "udt":
+        call = `udt(${name}, ${this.quote(column.udtName!)}${column.frozen === false ? ", { frozen: false }" : ""})`
+        break
+      case "tuple":
+        call = `tuple(${name}, [${(column.tupleTypes ?? []).map((type) => this.quote(type)).join(", ")}])`
+        break
+      case "timeuuid":
+        call = `timeUuid(${name})`
+        break
+      default:
+        call = `${SIMPLE_COLUMN_TYPES.includes(column.type) ? column.type : "text"}(${name})`
+    }
+
+    const modifiers: string[] = []
+    if (column.primary) modifiers.push(".primary()")
+    if (column.autoIncrement) modifiers.push(".autoIncrement()")
+    if (column.unique) modifiers.push(".unique()")
+    if (column.nullable === false && !column.primary) modifiers.push(".notNullable()")
+    if (column.default !== undefined) modifiers.push(`.default(${JSON.stringify(column.default)})`)
+
+    return `table.${call}${modifiers.join("")};`
+  }
+
+  /**
+   * Lists why the primary key of the desired definition cannot be applied to the live table.
+   *
+   * @private
+   * @param desired - Desired table definition
+   * @param live - Definition read from the database
+   * @returns Reasons, empty when the primary key is unchanged
+   */
+  private primaryKeyChanges(desired: TableDefinition, live: TableDefinition): string[] {
+    const want = this.primaryKeyOf(desired)
+    const have = this.primaryKeyOf(live)
+    const list = (columns: string[]) => `(${columns.join(", ")})`
+    const reasons: string[] = []
+
+    if (want.partition.join() !== have.partition.join()) {
+      reasons.push(`partition key changes from ${list(have.partition)} to ${list(want.partition)}`)
+    }
+
+    if (want.clustering.join() !== have.clustering.join()) {
+      reasons.push(`clustering key changes from ${list(have.clustering)} to ${list(want.clustering)}`)
+    } else {
+      for (const column of want.clustering) {
+        const direction = desired.clusteringOrder?.[column]
+        const current = live.clusteringOrder?.[column] ?? "ASC"
+        if (direction && direction !== current) {
+          reasons.push(`clustering order of '${column}' changes from ${current} to ${direction}`)
+        }
+      }
+    }
+
+    return reasons
+  }
+
+  /**
+   * Resolves the partition and clustering columns of a definition.
+   * Without explicit partition keys, the primary columns that are not clustering
+   * columns form the partition key, as in `compileCreateTable()`.
+   *
+   * @private
+   * @param definition - Table definition
+   * @returns Partition and clustering column names
+   */
+  private primaryKeyOf(definition: TableDefinition): { partition: string[]; clustering: string[] } {
+    const clustering = definition.clusteringKeys ?? []
+    const partition = definition.partitionKeys?.length
+      ? definition.partitionKeys
+      : definition.columns.filter((column) => column.primary && !clustering.includes(column.name)).map((c) => c.name)
+    return { partition, clustering }
+  }
+
+  /**
+   * Builds the statement that drops a column.
+   *
+   * @private
+   * @param table - Table name
+   * @param column - Column name
+   * @returns ALTER TABLE statement
+   */
+  private dropColumnStatement(table: string, column: string): string {
+    const grammar = this.driver.getGrammar()
+    const drop = grammar instanceof ScyllaDBGrammar ? "DROP" : "DROP COLUMN"
+    return `ALTER TABLE ${grammar.wrapTable(table)} ${drop} ${grammar.wrapColumn(column)}`
+  }
+
+  /**
+   * Normalizes a CQL type for comparison: lower case, no spaces or quotes.
+   *
+   * @private
+   * @param type - CQL type
+   * @returns Normalized type
+   */
+  private normalizeType(type: string): string {
+    return type.toLowerCase().replace(/[\s"]/g, "")
+  }
+
+  /**
+   * Quotes a string as a single-quoted TypeScript literal.
+   *
+   * @private
+   * @param value - String to quote
+   * @returns Source literal
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`
+  }
+}
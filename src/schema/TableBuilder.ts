@@ -99,6 +99,30 @@ export class TableBuilder {
     return new ColumnBuilder(column);
   }
 
+  /**
+   * Add a 16-bit integer column
+   */
+  public smallInteger(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "smallInteger",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
+  /**
+   * Add an 8-bit integer column
+   */
+  public tinyInteger(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "tinyInteger",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
   float(name: string): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
@@ -120,7 +144,9 @@ export class TableBuilder {
   decimal(name: string, precision = 8, scale = 2): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
-      type: `decimal(${precision},${scale})`,
+      type: "decimal",
+      precision,
+      scale,
     };
     this.columns.push(column);
     return new ColumnBuilder(column);
@@ -144,6 +170,18 @@ export class TableBuilder {
     return new ColumnBuilder(column);
   }
 
+  /**
+   * Add a time-of-day column
+   */
+  public time(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "time",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
   dateTime(name: string): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
@@ -177,6 +215,18 @@ export class TableBuilder {
     return new ColumnBuilder(column);
   }
 
+  /**
+   * Add a binary column (BLOB, BYTEA)
+   */
+  public binary(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "binary",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
   /**
    * Add a UUID column
    */
@@ -206,11 +256,12 @@ export class TableBuilder {
   /**
    * Add a set column (ScyllaDB)
    */
-  public set(name: string, type: string): ColumnBuilder {
+  public set(name: string, type: string, options: { frozen?: boolean } = {}): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
       type: "set",
       elementType: type,
+      frozen: options.frozen,
     };
     this.columns.push(column);
     return new ColumnBuilder(column);
@@ -219,11 +270,12 @@ export class TableBuilder {
   /**
    * Add a list column (ScyllaDB)
    */
-  public list(name: string, type: string): ColumnBuilder {
+  public list(name: string, type: string, options: { frozen?: boolean } = {}): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
       type: "list",
       elementType: type,
+      frozen: options.frozen,
     };
     this.columns.push(column);
     return new ColumnBuilder(column);
@@ -232,12 +284,72 @@ export class TableBuilder {
   /**
    * Add a map column (ScyllaDB)
    */
-  public map(name: string, keyType: string, valueType: string): ColumnBuilder {
+  public map(
+    name: string,
+    keyType: string,
+    valueType: string,
+    options: { frozen?: boolean } = {},
+  ): ColumnBuilder {
     const column: ColumnDefinition = {
       name,
       type: "map",
       keyType: keyType,
       valueType: valueType,
+      frozen: options.frozen,
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
+  /**
+   * Add a frozen set column (ScyllaDB), written and compared as a single value
+   */
+  public frozenSet(name: string, type: string): ColumnBuilder {
+    return this.set(name, type, { frozen: true });
+  }
+
+  /**
+   * Add a frozen list column (ScyllaDB), written and compared as a single value
+   */
+  public frozenList(name: string, type: string): ColumnBuilder {
+    return this.list(name, type, { frozen: true });
+  }
+
+  /**
+   * Add a frozen map column (ScyllaDB), written and compared as a single value
+   */
+  public frozenMap(name: string, keyType: string, valueType: string): ColumnBuilder {
+    return this.map(name, keyType, valueType, { frozen: true });
+  }
+
+  /**
+   * Add a user-defined type column (ScyllaDB).
+   * UDT columns are frozen unless `frozen: false` is passed; only frozen
+   * UDTs can be part of the primary key or nested in collections.
+   *
+   * @param name - Column name.
+   * @param typeName - Name of a type created with `schema.createType()`.
+   * @param options - Whether the value is frozen, defaults to true.
+   */
+  public udt(name: string, typeName: string, options: { frozen?: boolean } = {}): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "udt",
+      udtName: typeName,
+      frozen: options.frozen ?? true,
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
+  /**
+   * Add a tuple column (ScyllaDB); tuples are always frozen
+   */
+  public tuple(name: string, types: string[]): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "tuple",
+      tupleTypes: types,
     };
     this.columns.push(column);
     return new ColumnBuilder(column);
@@ -267,6 +379,48 @@ export class TableBuilder {
     return new ColumnBuilder(column);
   }
 
+  /**
+   * Add a blob column (ScyllaDB), alias of binary()
+   */
+  public blob(name: string): ColumnBuilder {
+    return this.binary(name);
+  }
+
+  /**
+   * Add an arbitrary-precision integer column (ScyllaDB)
+   */
+  public varint(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "varint",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
+  /**
+   * Add a duration column (ScyllaDB)
+   */
+  public duration(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "duration",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
+
+  /**
+   * Add an IPv4/IPv6 address column (ScyllaDB)
+   */
+  public inet(name: string): ColumnBuilder {
+    const column: ColumnDefinition = {
+      name,
+      type: "inet",
+    };
+    this.columns.push(column);
+    return new ColumnBuilder(column);
+  }
 
   /**
    * Begin defining a foreign key on a column.
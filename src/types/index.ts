@@ -30,6 +30,60 @@ export interface PoolConfig {
 export interface MigrationsConfig {
   directory: string
   tableName: string
+  lock?: MigrationLockOptions | false // Distributed lock around migrate/rollback, on by default
+  seedersDirectory?: string // Seeders for `scyllinx db:seed`, defaults to `seeders` next to `directory`
+  factoriesDirectory?: string // Factories loaded before seeding, defaults to `factories` next to `directory`
+}
+
+/**
+ * Timing of the distributed lock taken around migration runs.
+ */
+export interface MigrationLockOptions {
+  /** How long a lock survives without a heartbeat, so a crashed process does not block deploys forever (default 60s) */
+  leaseMs?: number
+  /** How often the lease is renewed while migrations run (default leaseMs / 3) */
+  heartbeatMs?: number
+  /** How long to wait for another process to finish its run before giving up (default 5 minutes) */
+  waitMs?: number
+  /** Delay between attempts while waiting (default 1s) */
+  retryMs?: number
+}
+
+/**
+ * Selects what `MigrationManager.rollback()` undoes. Without options the last batch is rolled back.
+ */
+export interface RollbackOptions {
+  /** Roll back this many migrations, most recent first, regardless of batch */
+  steps?: number
+  /** Roll back every migration of this batch number */
+  batch?: number
+  /** Collect the statements `down()` would run instead of executing them */
+  pretend?: boolean
+}
+
+/**
+ * Options for `MigrationManager.migrate()`.
+ */
+export interface MigrateOptions {
+  /** Collect the statements `up()` would run instead of executing them */
+  pretend?: boolean
+}
+
+/**
+ * Statements a migration would run, as collected by a pretend run.
+ */
+export interface PretendedMigration {
+  migration: string
+  statements: string[]
+}
+
+/**
+ * A row of the migrations table.
+ */
+export interface MigrationRecord {
+  migration: string
+  batch: number
+  executedAt: Date
 }
 
 export interface ConnectionConfig {
@@ -41,6 +95,10 @@ export interface ConnectionConfig {
   database?: string 
   keyspace?: string // For ScyllaDB
   localDataCenter?: string // For ScyllaDB
+  consistency?: ConsistencyLevel // For ScyllaDB, default for every query
+  serialConsistency?: ConsistencyLevel // For ScyllaDB, default for lightweight transactions
+  queryValidation?: QueryValidationMode // For ScyllaDB, primary key checks before SELECTs (default strict)
+  valueMapping?: ValueMapping // For ScyllaDB, JS representation of bigint/varint/counter and decimal values
   [key: string]: any;
 }
 
@@ -50,6 +108,201 @@ export interface QueryResult {
   fields?: FieldInfo[]
   insertId?: string | number
   affectedRows?: number
+  pageState?: string | null
+  lwt?: LwtResult
+}
+
+/**
+ * In-place mutation of a collection column (list, set or map) in an UPDATE.
+ */
+export interface CollectionUpdate {
+  column: string
+  operation: "append" | "prepend" | "remove" | "putEntries" | "removeKeys" | "setIndex"
+  /** Elements, entries or keys; the new element for setIndex */
+  value: any
+  /** List index or map key for setIndex */
+  index?: number | string
+  /** Whether the elements came from a Set and must stay unique */
+  unique?: boolean
+}
+
+/**
+ * A class used as an attribute cast. UDT values are hydrated into instances of it, and
+ * a static `casts` record on the class casts its fields like model attributes.
+ */
+export type CastClass = new () => any
+
+/**
+ * Cast of a model attribute: a cast name such as `decimal:2`, a class for UDT values,
+ * or `[Class]` for a list or set of UDT values.
+ */
+export type AttributeCast = string | CastClass | [CastClass]
+
+/**
+ * Per-column write metadata read with `selectWritetime()` / `selectTtl()`.
+ */
+export interface ModelMetadata {
+  /** Write time of each selected column, in microseconds since the epoch */
+  writetime: Record<string, number>
+  /** Remaining time to live of each selected column in seconds (null when the column has no TTL) */
+  ttl: Record<string, number | null>
+}
+
+/**
+ * Outcome of a lightweight transaction (a write with IF / IF NOT EXISTS).
+ */
+export interface LwtResult {
+  /** Whether the condition held and the write was applied */
+  applied: boolean
+  /** Current values of the conflicting row when the write was not applied */
+  current?: Record<string, any>
+  /** Set when the write was only recorded in a batch; the outcome is in the batch result once it executes */
+  deferred?: boolean
+}
+
+/**
+ * Per-query execution options understood by the drivers.
+ */
+export interface QueryOptions {
+  /** Number of rows to fetch in a single page */
+  fetchSize?: number
+  /** Opaque continuation token returned by a previous page */
+  pageState?: string
+  /** Consistency level for this query */
+  consistency?: ConsistencyLevel
+  /** Consistency level for the Paxos phase of lightweight transactions */
+  serialConsistency?: ConsistencyLevel
+  /** Client-side timeout in milliseconds */
+  timeout?: number
+}
+
+/**
+ * Consistency level names understood by the ScyllaDB driver,
+ * either as cassandra-driver names or as CQL names.
+ */
+export type ConsistencyLevel =
+  | "any"
+  | "one"
+  | "two"
+  | "three"
+  | "quorum"
+  | "all"
+  | "localQuorum"
+  | "eachQuorum"
+  | "serial"
+  | "localSerial"
+  | "localOne"
+  | "ANY"
+  | "ONE"
+  | "TWO"
+  | "THREE"
+  | "QUORUM"
+  | "ALL"
+  | "LOCAL_QUORUM"
+  | "EACH_QUORUM"
+  | "SERIAL"
+  | "LOCAL_SERIAL"
+  | "LOCAL_ONE"
+
+/**
+ * How ScyllaDB SELECTs that would need ALLOW FILTERING are handled before they are sent:
+ * `strict` throws a QueryPlanError, `warn` logs it and `off` skips the check.
+ */
+export type QueryValidationMode = "strict" | "warn" | "off"
+
+/**
+ * JS representation of ScyllaDB numbers that do not fit a double.
+ * `number` (the default) is lossy past 2^53 or 15-17 significant digits;
+ * `bigint`, `string` and `decimal` (the driver's BigDecimal) keep the exact value.
+ */
+export interface ValueMapping {
+  /** bigint, counter and varint columns */
+  bigint?: "number" | "bigint" | "string"
+  /** decimal columns */
+  decimal?: "number" | "string" | "decimal"
+}
+
+/**
+ * A single statement of a batch.
+ */
+export interface BatchStatement {
+  query: string
+  params?: any[]
+}
+
+/**
+ * Options for executing a ScyllaDB batch.
+ */
+export interface BatchOptions {
+  /** Batch kind: logged (atomic, the default), unlogged, or counter */
+  type?: "logged" | "unlogged" | "counter"
+  /** Consistency level for the batch (defaults to the connection's, then localQuorum) */
+  consistency?: ConsistencyLevel
+  /** Consistency level for the Paxos phase of conditional statements */
+  serialConsistency?: ConsistencyLevel
+  /** Client-side timeout in milliseconds */
+  timeout?: number
+  /** Write timestamp in microseconds since the epoch, applied to every statement */
+  timestamp?: number | bigint
+}
+
+/**
+ * Driver-level transaction pinned to a single physical connection.
+ * Returned by `DatabaseDriver.beginTransactionSession()`.
+ */
+export interface TransactionSession {
+  /** Executes a statement inside the transaction */
+  query(sql: string, bindings?: any[], options?: QueryOptions): Promise<QueryResult>
+  /** Gets the ID generated by the last insert on the transaction's connection */
+  getLastInsertId(): Promise<string | number>
+  /** Commits the transaction and releases the connection */
+  commit(): Promise<void>
+  /** Rolls the transaction back and releases the connection */
+  rollback(): Promise<void>
+  /** Creates a named savepoint */
+  savepoint(name: string): Promise<void>
+  /** Rolls back to a named savepoint */
+  rollbackToSavepoint(name: string): Promise<void>
+  /** Releases a named savepoint */
+  releaseSavepoint(name: string): Promise<void>
+}
+
+export interface PaginationOptions {
+  pageSize: number
+  pageState?: string | null
+}
+
+export interface StreamOptions {
+  /** Number of rows pulled from the database (and hydrated) per chunk */
+  fetchSize?: number
+}
+
+export interface ScanOptions {
+  /** Number of sub-ranges the token ring is split into (defaults to 256) */
+  splits?: number
+  /** Maximum number of ranges scanned at the same time (defaults to 4) */
+  concurrency?: number
+  /** Retry attempts for a failed range (defaults to 3) */
+  retries?: number
+  /** Base delay in milliseconds between retries, multiplied by the attempt number (defaults to 100) */
+  retryDelay?: number
+  /** Rows fetched per page while scanning a range */
+  fetchSize?: number
+}
+
+/**
+ * A Murmur3 token sub-range, exclusive of `start` and inclusive of `end`.
+ * Tokens are 64-bit signed integers serialized as strings.
+ */
+export interface TokenRange {
+  start: string
+  end: string
+}
+
+export interface PaginatedResult<T> {
+  data: T[]
+  pageState: string | null
+  hasMorePages: boolean
 }
 
 export interface FieldInfo {
@@ -70,7 +323,7 @@ export type ColumnValue = {
 } | string; // Allow string for backward compatibility
 
 export interface WhereClause {
-  type: "basic" | "in" | "notIn" | "between" | "null" | "notNull" | "token" | "raw";
+  type: "basic" | "in" | "notIn" | "between" | "null" | "notNull" | "token" | "tokenRange" | "has" | "nested" | "raw";
   column?: string;
   columns?: string[];
   operator?: string;
@@ -78,15 +331,59 @@ export interface WhereClause {
   values?: any[];
   raw?: string;
   boolean?: string;
+  relation?: RelationExistence;
+  parentTable?: string;
+  mode?: "exists" | "notExists" | "count";
+  wheres?: WhereClause[];
+}
+
+/**
+ * Describes how related rows are linked to their parent, so grammars can
+ * compile relationship existence and count subqueries.
+ */
+export interface RelationExistence {
+  /** Related table */
+  table: string
+  /** Connection of the related model */
+  connection?: string
+  /** Column compared with the parent key (on the pivot table when `pivot` is set) */
+  foreignKey: string
+  /** Column on the parent table */
+  localKey: string
+  /** Constraints on the related table */
+  wheres: WhereClause[]
+  /** Soft delete scope of the related model, applied after fetching on ScyllaDB */
+  trashed?: {
+    column: string
+    only: boolean
+  }
+  /** Pivot table linking parent and related rows (many-to-many) */
+  pivot?: {
+    table: string
+    relatedPivotKey: string
+    relatedKey: string
+  }
+}
+
+export interface RelationCount {
+  alias: string
+  relation: RelationExistence
 }
 
 export interface QueryComponent {
   columns?: string[];
   from?: string;
   wheres?: WhereClause[];
+  groups?: string[];
   orders?: OrderClause[];
   limit?: number;
+  perPartitionLimit?: number;
+  distinct?: boolean;
   allowFiltering?: boolean;
+  /** Partition key columns of the table, used to validate DISTINCT and GROUP BY */
+  partitionKeys?: string[];
+  /** Clustering key columns of the table, in clustering order */
+  clusteringKeys?: string[];
 }
 
 export interface OrderClause {
@@ -125,6 +422,9 @@ export interface ColumnDefinition {
   elementType?: string
   keyType?: string
   valueType?: string
+  udtName?: string // For ScyllaDB udt columns
+  tupleTypes?: string[] // For ScyllaDB tuple columns
+  frozen?: boolean // For ScyllaDB udt and collection columns
   scale?: any
   precision?: any
   unsigned?: any
@@ -148,6 +448,46 @@ export interface TableDefinition {
   inherits?: any
 }
 
+/**
+ * Differences between a desired table definition and the live table, as found by `SchemaDiffer`.
+ */
+export interface TableDiff {
+  table: string
+  /** The table does not exist yet */
+  create: boolean
+  /** Desired columns missing from the table */
+  addedColumns: ColumnDefinition[]
+  /** Columns of the table that the desired definition does not have */
+  droppedColumns: string[]
+  /** Columns whose type differs (ScyllaDB only) */
+  changedColumns: { name: string; from: string; to: string }[]
+  /** The change cannot be applied in place and needs a new table and a data copy */
+  requiresCopy: boolean
+  /** Why a table copy is needed */
+  copyReasons: string[]
+}
+
+/**
+ * A user-defined type as listed by `Schema.listTypes()`.
+ */
+export interface UserTypeDefinition {
+  name: string
+  fields: { name: string; type: string }[]
+}
+
+/**
+ * A materialized view as listed by `Schema.listMaterializedViews()`.
+ */
+export interface MaterializedViewDefinition {
+  name: string
+  /** Base table (ScyllaDB) */
+  baseTable?: string
+  /** Filter of the view (ScyllaDB) */
+  whereClause?: string
+  /** Defining query (PostgreSQL) */
+  definition?: string
+}
+
 export interface IndexDefinition {
   name: string
   columns: string[]